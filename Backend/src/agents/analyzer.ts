@@ -1,22 +1,272 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { z } from 'zod';
 import { llm } from '../config/llm.js';
-import type { AgentState } from '../langgraph/state.js';
+import type { AgentState, Dataset, SqlQuery } from '../langgraph/state.js';
+import { isTransientError } from '../langgraph/resilience.js';
+import { buildCombinedDataset, getCombinedRows, planCombination } from '../services/datasetCombiner.js';
+import { datasetTableSources, describeSqlSchema, runSqlQuery, SqlQueryError } from '../services/sqlEngine.js';
+import { runTransform, TRANSFORM_TIMEOUT_MS, TransformError } from '../services/transformSandbox.js';
+import { describePreviousTurn, formatConversationHistory } from '../utils/conversation.js';
+
+// Schema for choosing datasets - the LLM only picks them, the join keys are inferred in code
+const DatasetSelectionSchema = z.object({
+  datasetIds: z.array(z.string()).describe('Ids of the datasets needed to answer the query, most important first'),
+  combine: z.enum(['none', 'join', 'union']).describe(
+    'join: link datasets that describe the same entities, e.g. orders and sales targets per region; '
+    + 'union: stack files with the same columns, e.g. monthly exports; none: answer from one dataset'
+  ),
+  joinOn: z.array(z.string()).nullable().describe(
+    'Only when the user names the columns to join on: a shared column ("Region"), or "left=right" when the names differ'
+  ),
+});
+
+type DatasetSelection = z.infer<typeof DatasetSelectionSchema>;
+
+const SqlQuerySchema = z.object({
+  sql: z.string().describe('A single read-only SQLite SELECT statement, or an empty string when SQL cannot answer the question'),
+});
+
+type SqlQueryOutput = z.infer<typeof SqlQuerySchema>;
+
+const TransformSchema = z.object({
+  code: z.string().describe('Body of the JavaScript function transform(rows) returning the new rows, or an empty string when no custom calculation is needed'),
+  description: z.string().describe('Short description of the computed table, e.g. "sales per unit for every order"'),
+});
+
+type TransformOutput = z.infer<typeof TransformSchema>;
+
+/**
+ * Pick the datasets a query needs and combine them when it spans several.
+ * The combined dataset goes first, followed by its sources (its rows are rebuilt from them).
+ */
+async function selectDatasets(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<{ datasets: Dataset[]; warnings: string[] }> {
+  const { userQuery, relevantDatasets } = state;
+
+  // One dataset, or a follow-up that already works on a combined one
+  if (relevantDatasets.length < 2 || relevantDatasets[0]?.combination) {
+    return { datasets: relevantDatasets, warnings: [] };
+  }
+
+  const prompt = `Choose the datasets needed to answer the user's query, and whether they must be combined.
+
+User Query: "${userQuery}"
+
+Datasets:
+${relevantDatasets.map(d => `- ${d.id}: ${d.name} (${d.rowCount ?? '?'} rows) - columns: ${(d.columns || []).join(', ')}`).join('\n')}
+
+Only combine datasets when the query needs data from more than one of them.`;
+
+  let selection: DatasetSelection;
+  try {
+    const structuredLLM = llm.withStructuredOutput<DatasetSelection>(DatasetSelectionSchema, { name: 'dataset_selection' });
+    selection = await structuredLLM.invoke(prompt, config);
+  } catch (error) {
+    if (config?.signal?.aborted || isTransientError(error)) throw error;
+    console.error('⚠️  Dataset selection failed, using the retrieved order:', error);
+    return { datasets: relevantDatasets, warnings: [] };
+  }
+
+  const chosen = selection.datasetIds
+    .map(id => relevantDatasets.find(d => d.id === id))
+    .filter((d): d is Dataset => !!d);
+  const ordered = [...chosen, ...relevantDatasets.filter(d => !chosen.includes(d))];
+
+  if (selection.combine === 'none' || chosen.length < 2) {
+    return { datasets: ordered, warnings: [] };
+  }
+
+  const combination = planCombination(chosen, {
+    type: selection.combine,
+    ...(selection.joinOn?.length ? { joinOn: selection.joinOn } : {}),
+  });
+  if (!combination) {
+    const names = chosen.map(d => d.name).join(' and ');
+    return {
+      datasets: ordered,
+      warnings: [`Could not find matching columns to combine ${names}, so only ${chosen[0]!.name} was used.`],
+    };
+  }
+
+  const combined = buildCombinedDataset(combination, chosen);
+  console.log(`   🔗 Combined datasets: ${combined.summary}`);
+  return { datasets: [combined, ...ordered], warnings: [] };
+}
+
+/**
+ * Write SQL for lookup questions (or when the user asks for SQL) and run it on the embedded engine.
+ * A query that fails is kept with its error so the user can fix and re-run it.
+ */
+async function generateSqlQuery(
+  userQuery: string,
+  datasets: Dataset[],
+  config?: RunnableConfig
+): Promise<{ sqlQuery: SqlQuery | null; warnings: string[] }> {
+  const tables = datasetTableSources(datasets);
+  if (tables.length === 0) {
+    return { sqlQuery: null, warnings: [] };
+  }
+
+  const prompt = `Write one SQLite query that answers the user's question from the tables below.
+
+User Query: "${userQuery}"
+
+Tables:
+${describeSqlSchema(tables)}
+
+Rules:
+1. Only SELECT (WITH ... SELECT is fine) - the tables are read-only
+2. Quote column names with double quotes, e.g. "Order Date"
+3. Return only the columns needed and add ORDER BY and LIMIT for "top" or "largest" questions
+4. Dates are TEXT in the format shown in the example rows`;
+
+  let generated: SqlQueryOutput;
+  try {
+    const structuredLLM = llm.withStructuredOutput<SqlQueryOutput>(SqlQuerySchema, { name: 'sql_query' });
+    generated = await structuredLLM.invoke(prompt, config);
+  } catch (error) {
+    if (config?.signal?.aborted || isTransientError(error)) throw error;
+    console.error('⚠️  SQL generation failed, continuing without SQL:', error);
+    return { sqlQuery: null, warnings: [] };
+  }
+
+  const sql = generated.sql?.trim();
+  if (!sql) {
+    return { sqlQuery: null, warnings: [] };
+  }
+
+  console.log(`   🗄️  SQL: ${sql}`);
+  try {
+    const { columns, rows, rowCount, truncated } = await runSqlQuery(sql, tables);
+    console.log(`   ✓ SQL returned ${rowCount} rows${truncated ? ' (truncated)' : ''}`);
+    return { sqlQuery: { sql, columns, rows, rowCount, truncated }, warnings: [] };
+  } catch (error: any) {
+    if (!(error instanceof SqlQueryError)) throw error;
+    return {
+      sqlQuery: { sql, columns: [], rows: [], rowCount: 0, truncated: false, error: error.message },
+      warnings: [`The generated SQL could not be run (${error.message}). You can edit it and run it again.`],
+    };
+  }
+}
+
+/**
+ * Write a JavaScript transform for calculations no aggregation covers (ratios, rolling windows,
+ * text parsing) and run it in the sandbox. Its rows become a derived dataset placed first,
+ * so the visualizer and summarizer work on them.
+ */
+async function generateTransform(
+  userQuery: string,
+  datasets: Dataset[],
+  config?: RunnableConfig
+): Promise<{ dataset: Dataset | null; warnings: string[] }> {
+  const source = datasets[0];
+  if (!source) {
+    return { dataset: null, warnings: [] };
+  }
+  const rows = getCombinedRows(source, datasets);
+  const columns = source.columns || (rows[0] ? Object.keys(rows[0]) : []);
+
+  const prompt = `Write the body of a JavaScript function transform(rows) that computes the table needed to answer the user's question.
+
+User Query: "${userQuery}"
+
+Dataset: ${source.name} (${rows.length} rows)
+Columns: ${columns.join(', ')}
+Example rows: ${JSON.stringify(rows.slice(0, 3))}
+
+Rules:
+1. rows is an array of plain objects keyed by column name; values may be strings, so read numbers with num(value)
+2. Return an array of flat objects; keep the columns needed to group or filter the result and name new columns clearly
+3. Plain JavaScript only - there is no require, fetch, timers or I/O, and the code must finish within ${TRANSFORM_TIMEOUT_MS / 1000} seconds
+4. Return an empty string if a plain sum, average or count per group answers the question`;
+
+  let generated: TransformOutput;
+  try {
+    const structuredLLM = llm.withStructuredOutput<TransformOutput>(TransformSchema, { name: 'data_transform' });
+    generated = await structuredLLM.invoke(prompt, config);
+  } catch (error) {
+    if (config?.signal?.aborted || isTransientError(error)) throw error;
+    console.error('⚠️  Transform generation failed, continuing with the source rows:', error);
+    return { dataset: null, warnings: [] };
+  }
+
+  const code = generated.code?.trim();
+  if (!code) {
+    return { dataset: null, warnings: [] };
+  }
+
+  try {
+    const result = await runTransform(code, rows);
+    console.log(`   🧮 Transform "${generated.description}" returned ${result.rowCount} rows in ${result.durationMs}ms`);
+    const description = generated.description || 'custom calculation';
+    const dataset: Dataset & { aggregatedData: any[] } = {
+      id: `${source.id}:transform`,
+      name: `${source.name.replace(/\.\w+$/, '')} (${description})`,
+      type: 'transform',
+      columns: result.columns,
+      rowCount: result.rows.length,
+      summary: `${description}, computed from ${source.name}`,
+      sampleRows: result.rows.slice(0, 5),
+      aggregatedData: result.rows,
+      transform: {
+        code,
+        description,
+        sourceDatasetIds: source.combination?.datasetIds || [source.id],
+        rowCount: result.rowCount,
+        truncated: result.truncated,
+      },
+    };
+    const warnings = result.truncated
+      ? [`The custom calculation returned ${result.rowCount} rows; only the first ${result.rows.length} were used.`]
+      : [];
+    return { dataset, warnings };
+  } catch (error: any) {
+    if (!(error instanceof TransformError)) throw error;
+    console.error(`⚠️  Transform failed (${error.reason}):`, error.message);
+    return {
+      dataset: null,
+      warnings: [`The custom calculation could not be run (${error.message}), so the data was used as is.`],
+    };
+  }
+}
 
 /**
  * Analyzer Agent - Analyzes dataset structure and plans analysis approach
  */
-export async function analyzerAgent(state: AgentState): Promise<Partial<AgentState>> {
+export async function analyzerAgent(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentState>> {
   console.log('📊 Analyzer Agent: Planning analysis...');
 
   try {
-    const { userQuery, relevantDatasets, intent, searchResults } = state;
+    const { userQuery, intent, searchResults, isFollowUp, previousTurn, messages } = state;
 
-    if (!relevantDatasets || relevantDatasets.length === 0) {
+    if (!state.relevantDatasets || state.relevantDatasets.length === 0) {
       return {
         error: 'No datasets available for analysis',
         nextAgent: null,
       };
     }
 
+    // Questions can span several datasets (e.g. orders vs targets) - join or union them first.
+    // A transform from an earlier turn is computed again from its sources when needed
+    const selected = await selectDatasets({ ...state, relevantDatasets: state.relevantDatasets.filter(d => !d.transform) }, config);
+    let relevantDatasets = selected.datasets;
+    const warnings = [...selected.warnings];
+
+    if (state.metadata?.needsCustomCalculation) {
+      const transformed = await generateTransform(userQuery, relevantDatasets, config);
+      if (transformed.dataset) relevantDatasets = [transformed.dataset, ...relevantDatasets];
+      warnings.push(...transformed.warnings);
+    }
+
+    // Lookups ("list the largest orders") are answered exactly by SQL over the rows
+    const wantsSql = intent === 'query' || /\bsql\b/i.test(userQuery);
+    const sql = wantsSql ? await generateSqlQuery(userQuery, relevantDatasets, config) : { sqlQuery: null, warnings: [] };
+
     // Build dataset context
     const datasetInfo = relevantDatasets.map(d => {
       const columnInfo = d.columns ? `Columns: ${d.columns.join(', ')}` : 'No column info';
@@ -25,8 +275,10 @@ export async function analyzerAgent(state: AgentState): Promise<Partial<AgentSta
       const statsInfo = (d as any).statistics ? `\nStatistics: ${JSON.stringify((d as any).statistics, null, 2)}` : '';
       const dataAvailable = (d as any).aggregatedData ? `\n✓ ${(d as any).aggregatedData.length} data rows available for analysis` : '';
 
+      const combinationInfo = d.combination ? `\nCombined from: ${d.summary}` : '';
+
       return `Dataset: ${d.name}
-Type: ${d.type}
+Type: ${d.type}${combinationInfo}
 Total Rows: ${d.rowCount || 'Unknown'}
 ${columnInfo}${schemaInfo}${sampleInfo}${statsInfo}${dataAvailable}`;
     }).join('\n\n');
@@ -38,6 +290,18 @@ External Research Context (from web search):
 ${searchResults.summary || JSON.stringify(searchResults.results || [], null, 2)}
 
 Note: Use this external context to provide comparisons, benchmarks, or additional insights when analyzing the user's data.
+` : '';
+
+    // Follow-ups edit the previous analysis instead of starting from scratch
+    const followUpContext = isFollowUp && previousTurn ? `
+
+This is a FOLLOW-UP to the previous answer:
+${describePreviousTurn(previousTurn)}
+
+Conversation so far:
+${formatConversationHistory(messages || [])}
+
+Adapt the previous analysis to the new request (e.g. change the grouping, add a breakdown or filter) and keep everything the user did not ask to change.
 ` : '';
 
     const prompt = `You are a data analysis expert. Analyze the user's query and available datasets to plan the analysis.
@@ -46,7 +310,7 @@ User Query: "${userQuery}"
 Intent: ${intent}
 
 Available Datasets:
-${datasetInfo}${searchContext}
+${datasetInfo}${searchContext}${followUpContext}
 
 Tasks:
 1. Identify which datasets are most relevant
@@ -58,7 +322,7 @@ ${searchResults ? '6. Consider how to integrate external research findings with
 
 Provide a clear, structured analysis plan.`;
 
-    const response = await llm.invoke(prompt);
+    const response = await llm.invoke(prompt, config);
     const analysisPlan = response.content as string;
 
     console.log('✅ Analyzer: Analysis plan created');
@@ -67,7 +331,10 @@ Provide a clear, structured analysis plan.`;
     // Determine next step based on intent
     // For uploaded Tableau CSVs, we have all data in memory, so route to visualizer
     let nextAgent = 'summarizer';
-    if (intent === 'visualization') {
+    if (intent === 'forecast') {
+      // Projections get their own node, which draws the history with a forecast band
+      nextAgent = 'forecaster';
+    } else if (intent === 'visualization') {
       nextAgent = 'visualizer';
     } else if (intent === 'query' || intent === 'analysis' || intent === 'comparison') {
       // Route to visualizer instead of query_generator (which is disabled)
@@ -81,6 +348,9 @@ Provide a clear, structured analysis plan.`;
         selectedDatasets: relevantDatasets.map(d => d.id),
         timestamp: new Date().toISOString(),
       },
+      relevantDatasets,
+      sqlQuery: sql.sqlQuery,
+      warnings: [...warnings, ...sql.warnings],
       nextAgent,
       metadata: {
         ...state.metadata,
@@ -88,6 +358,8 @@ Provide a clear, structured analysis plan.`;
       },
     };
   } catch (error) {
+    // Transient failures are retried by the node's retry policy
+    if (isTransientError(error)) throw error;
     console.error('❌ Analyzer Agent error:', error);
     return {
       error: `Analyzer agent failed: ${error}`,
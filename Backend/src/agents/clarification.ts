@@ -0,0 +1,32 @@
+import type { AgentState } from '../langgraph/state.js';
+import { getUploadedDatasets } from '../services/csvProcessor.js';
+
+/**
+ * Clarification Agent - Answers an ambiguous query with a question instead of guessing
+ */
+export async function clarificationAgent(state: AgentState): Promise<Partial<AgentState>> {
+  console.log('\n╔════════════════════════════════════════╗');
+  console.log('║      CLARIFICATION AGENT START         ║');
+  console.log('╚════════════════════════════════════════╝');
+  console.log('❓ Query:', state.userQuery);
+
+  const question = state.metadata?.clarifyingQuestion
+    || 'Could you tell me a bit more about what you would like to see?';
+
+  const datasets = getUploadedDatasets();
+  const datasetHint = datasets.length > 0
+    ? `\n\nYour uploaded datasets: ${datasets.map(d => d.name).join(', ')}.`
+    : '';
+
+  const summary = `${question}${datasetHint}
+
+For example, you can name the dataset, the measure (e.g. revenue) and how to break it down (e.g. by month or region).`;
+
+  console.log('✅ Asked for clarification');
+  console.log('╚════════════════════════════════════════╝\n');
+
+  return {
+    summary,
+    nextAgent: null,
+  };
+}
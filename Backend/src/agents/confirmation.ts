@@ -0,0 +1,155 @@
+import { interrupt } from '@langchain/langgraph';
+import type {
+  AgentState,
+  Dataset,
+  QueryPlan,
+  VisualizationConfirmation,
+  VisualizationProposal,
+} from '../langgraph/state.js';
+import { buildCombinedDataset, planCombination } from '../services/datasetCombiner.js';
+import { planFitsChart } from '../utils/queryExecutor.js';
+
+/**
+ * Rebuild the combined dataset with the join keys the user chose.
+ * Returns the updated datasets and proposal, or null when the keys do not fit the data.
+ */
+function applyJoinKeys(
+  proposal: VisualizationProposal,
+  datasets: Dataset[],
+  joinKeys: NonNullable<VisualizationConfirmation['joinKeys']>
+): { datasets: Dataset[]; proposal: VisualizationProposal } | null {
+  const current = proposal.combination;
+  if (current?.type !== 'join') return null;
+
+  const sources = current.datasetIds
+    .map(id => datasets.find(d => d.id === id))
+    .filter((d): d is Dataset => !!d);
+  const combination = planCombination(sources, {
+    type: 'join',
+    joinKeys,
+    ...(current.joinType ? { joinType: current.joinType } : {}),
+  });
+  // Keys that do not match the columns are replaced by inferred ones - keep the proposal then
+  if (!combination || combination.keySource !== 'user') return null;
+
+  const combined = buildCombinedDataset(combination, sources);
+  const updated = datasets.map(d => (d.combination && d.id === combined.id ? combined : d));
+  return {
+    datasets: updated,
+    proposal: {
+      ...proposal,
+      combination,
+      datasets: updated.map(d => ({ id: d.id, name: d.name, columns: d.columns || [] })),
+    },
+  };
+}
+
+/**
+ * Apply the user's edits to the proposed plan, dropping columns the chosen dataset does not have
+ */
+function applyEdits(proposal: VisualizationProposal, edits: VisualizationConfirmation['plan'] = {}): QueryPlan {
+  const proposed = proposal.plan;
+  const dataset = proposal.datasets.find(d => d.id === (edits.datasetId || proposed.datasetId))
+    || proposal.datasets.find(d => d.id === proposed.datasetId);
+  // Datasets without a column list are trusted as-is
+  const columns = dataset?.columns || [];
+  const hasColumn = (column: string) => columns.length === 0 || columns.includes(column);
+  const known = (column: string | null | undefined) => (column && hasColumn(column) ? column : undefined);
+
+  const groupBy = known('groupBy' in edits ? edits.groupBy : proposed.groupBy);
+  const measure = known('measure' in edits ? edits.measure : proposed.measure);
+  const xColumn = known(proposed.xColumn);
+  const seriesBy = known(proposed.seriesBy);
+  // Extra measures are drawn next to the main measure, so they go when it does
+  const extraMeasures = measure ? (proposed.extraMeasures || []).filter(m => hasColumn(m.column)) : [];
+  let chartType = edits.chartType || proposed.chartType;
+  // Edits can leave a chart without the columns it needs; a bar chart needs none
+  if (!planFitsChart({ chartType, groupBy, measure, xColumn, seriesBy, extraMeasures })) {
+    chartType = 'bar';
+  }
+  const operation = measure ? edits.operation || proposed.operation : 'count';
+
+  const changed = ['datasetId', 'chartType', 'groupBy', 'measure', 'operation']
+    .some(key => key in edits && ((edits as any)[key] ?? undefined) !== (proposed as any)[key]);
+
+  const plan: QueryPlan = {
+    ...proposed,
+    datasetId: dataset?.id || proposed.datasetId,
+    chartType,
+    operation,
+    filters: proposed.filters.filter(f => hasColumn(f.column)),
+  };
+  delete plan.groupBy;
+  delete plan.measure;
+  delete plan.xColumn;
+  delete plan.seriesBy;
+  delete plan.extraMeasures;
+  if (groupBy) plan.groupBy = groupBy;
+  if (measure) plan.measure = measure;
+  if (xColumn) plan.xColumn = xColumn;
+  if (seriesBy && seriesBy !== groupBy) plan.seriesBy = seriesBy;
+  if (extraMeasures.length > 0) plan.extraMeasures = extraMeasures;
+  if (chartType !== 'histogram') delete plan.bins;
+  if (!groupBy) delete plan.timeBucket;
+
+  // The proposed title no longer matches an edited plan
+  if (changed) {
+    plan.title = `${measure ? `${operation} of ${measure}` : 'Count of records'}${groupBy ? ` by ${groupBy}` : ''}${plan.seriesBy ? ` and ${plan.seriesBy}` : ''}`;
+    delete plan.description;
+  }
+
+  return plan;
+}
+
+/**
+ * Confirmation Agent - Pauses the graph until the user approves or edits the proposed query plan
+ */
+export async function confirmationAgent(state: AgentState): Promise<Partial<AgentState>> {
+  console.log('\n╔════════════════════════════════════════╗');
+  console.log('║      CONFIRMATION AGENT START          ║');
+  console.log('╚════════════════════════════════════════╝');
+
+  const proposal = state.visualizationProposal;
+  if (!proposal) {
+    console.log('⚠️  No proposal to confirm, skipping');
+    return { nextAgent: 'summarizer' };
+  }
+
+  // Returns immediately with the user's answer when the run is resumed
+  const confirmation = interrupt<VisualizationProposal, VisualizationConfirmation>(proposal);
+
+  if (!confirmation?.approved) {
+    console.log('🚫 Visualization declined by user');
+    console.log('╚════════════════════════════════════════╝\n');
+    return {
+      visualizationProposal: null,
+      queryPlan: null,
+      nextAgent: 'summarizer',
+      metadata: { ...state.metadata, visualizationDeclined: true },
+    };
+  }
+
+  // New join keys change the combined table, so the plan is checked against its new columns
+  const rejoined = confirmation.joinKeys?.length
+    ? applyJoinKeys(proposal, state.relevantDatasets, confirmation.joinKeys)
+    : null;
+  if (rejoined) {
+    console.log('🔗 Join keys set by the user:', JSON.stringify(confirmation.joinKeys));
+  }
+
+  const plan = applyEdits(rejoined?.proposal || proposal, confirmation.plan);
+  console.log('✅ Query plan confirmed:', JSON.stringify(plan));
+  console.log('╚════════════════════════════════════════╝\n');
+
+  return {
+    ...(rejoined ? { relevantDatasets: rejoined.datasets } : {}),
+    ...(confirmation.joinKeys?.length && !rejoined
+      ? { warnings: ['The chosen join keys do not match the data, so the suggested keys were kept.'] }
+      : {}),
+    queryPlan: plan,
+    filters: plan.filters,
+    planConfirmed: true,
+    visualizationProposal: null,
+    nextAgent: 'visualizer',
+  };
+}
@@ -1,3 +1,4 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
 import { llm } from '../config/llm.js';
 import type { AgentState } from '../langgraph/state.js';
 
@@ -6,7 +7,10 @@ import type { AgentState } from '../langgraph/state.js';
  * This is the AI assistant personality that answers questions about capabilities,
  * provides help, and handles casual conversation
  */
-export async function conversationalBrainAgent(state: AgentState): Promise<Partial<AgentState>> {
+export async function conversationalBrainAgent(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentState>> {
   console.log('\n╔════════════════════════════════════════╗');
   console.log('║    CONVERSATIONAL BRAIN AGENT          ║');
   console.log('╚════════════════════════════════════════╝');
@@ -40,9 +44,12 @@ Provide a helpful, friendly response. If the user is asking about capabilities,
 
 Keep your response concise (2-3 sentences) unless more detail is needed.`;
 
-    console.log('🔄 Calling LLM for conversational response...');
-    const response = await llm.invoke(prompt);
-    const summary = response.content as string;
+    // Stream the reply so the workflow can forward tokens to the client
+    console.log('🔄 Streaming LLM conversational response...');
+    let summary = '';
+    for await (const chunk of await llm.stream(prompt, config)) {
+      summary += typeof chunk.content === 'string' ? chunk.content : '';
+    }
 
     console.log('✅ Response generated:');
     console.log('   Length:', summary.length, 'characters');
@@ -51,14 +58,6 @@ Keep your response concise (2-3 sentences) unless more detail is needed.`;
 
     return {
       summary,
-      insights: [
-        {
-          type: 'summary',
-          title: 'AI Assistant',
-          content: 'Conversational response generated',
-          confidence: 1.0,
-        },
-      ],
       nextAgent: null, // End workflow
       messages: [
         {
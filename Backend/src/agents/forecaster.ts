@@ -0,0 +1,224 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { z } from 'zod';
+import { llm } from '../config/llm.js';
+import type { AgentState, Dataset, QueryPlan, Visualization } from '../langgraph/state.js';
+import { detectCategoricalColumns, detectDateColumns, detectNumericColumns, getTopValues } from '../utils/dataAggregation.js';
+import { executeQueryPlan } from '../utils/queryExecutor.js';
+import { FORECAST_INTERVAL, forecastSeries, toContinuousSeries } from '../utils/forecasting.js';
+import { getCombinedRows } from '../services/datasetCombiner.js';
+import { tableauService } from '../services/tableau.js';
+import { isTransientError } from '../langgraph/resilience.js';
+import { buildDefaultPlan, QueryPlanSchema, validatePlan } from './visualizer.js';
+import { buildVegaLiteSpec } from '../utils/vegaLite.js';
+import { viewRows } from './tableauAgent.js';
+
+const DEFAULT_HORIZON = 3;
+const MAX_HORIZON = 24;
+
+// The series to project is a time-bucketed query plan plus how far ahead to go
+const ForecastPlanSchema = QueryPlanSchema.extend({
+  horizon: z.number().min(1).describe('Number of future periods (in timeBucket units) to forecast'),
+});
+
+type RawForecastPlan = z.infer<typeof ForecastPlanSchema>;
+
+/**
+ * Ask the LLM which series to forecast and how far ahead, falling back to the default time series
+ */
+async function generateForecastPlan(
+  state: AgentState,
+  dataset: Dataset,
+  rows: any[],
+  columns: string[],
+  dateColumns: string[],
+  config?: RunnableConfig
+): Promise<{ plan: QueryPlan; horizon: number; source: 'llm' | 'fallback' }> {
+  const numericColumns = detectNumericColumns(rows, columns).filter(c => !dateColumns.includes(c));
+  const categoricalColumns = detectCategoricalColumns(rows, columns);
+  const fallback = buildDefaultPlan(dataset.id, dataset.name, numericColumns, categoricalColumns, dateColumns);
+
+  const categoryValues = categoricalColumns
+    .filter(col => !dateColumns.includes(col))
+    .map(col => `- ${col}: ${getTopValues(rows, col, 15).map(t => t.value).join(', ')}`)
+    .join('\n');
+
+  const prompt = `You are a forecasting expert. Write a QUERY PLAN for the time series the user wants projected forward, and the forecast horizon.
+The series is computed and forecast in code, so do NOT compute or invent any numbers yourself.
+
+User Query: "${state.userQuery}"
+
+Dataset: ${dataset.name} (${rows.length} rows)
+- Date columns: ${dateColumns.join(', ')}
+- Numeric columns: ${numericColumns.join(', ') || 'none'}
+Most common values of categorical columns:
+${categoryValues || 'none'}
+
+Rules:
+1. groupBy must be one of the date columns, with a timeBucket (month is a good default)
+2. measure is the numeric column to project; use count with measure null to forecast the number of rows
+3. horizon is the number of timeBucket periods to forecast (e.g. "next quarter" is 3 months or 1 quarter)
+4. Add filters only when the user restricts the data, using values exactly as they appear in the data
+5. Title describes the forecast, without numbers`;
+
+  try {
+    console.log('🔄 Calling LLM for forecast plan generation...');
+    const structuredLLM = llm.withStructuredOutput<RawForecastPlan>(ForecastPlanSchema, { name: 'forecast_plan' });
+    const raw = await structuredLLM.invoke(prompt, config);
+    const plan = validatePlan({ ...raw, chartType: 'line', sortBy: null, sortDirection: null, limit: null }, dataset.id, columns, fallback);
+
+    // The x-axis must be a date column for there to be a series
+    if (!plan.groupBy || !dateColumns.includes(plan.groupBy)) {
+      plan.groupBy = dateColumns[0]!;
+    }
+    plan.timeBucket = plan.timeBucket || 'month';
+    const horizon = Math.min(Math.max(Math.round(raw.horizon) || DEFAULT_HORIZON, 1), MAX_HORIZON);
+    return { plan, horizon, source: 'llm' };
+  } catch (planError) {
+    // Transient failures are retried by the node's retry policy
+    if (config?.signal?.aborted || isTransientError(planError)) throw planError;
+    console.error('❌ Failed to generate forecast plan, using default series:', planError);
+    return { plan: { ...fallback, groupBy: dateColumns[0]!, timeBucket: 'month' }, horizon: DEFAULT_HORIZON, source: 'fallback' };
+  }
+}
+
+/**
+ * The rows to fit the forecast to. A Tableau view dataset keeps only a sample of its
+ * rows, so the whole view is fetched; if that fails the sample is used with a warning.
+ */
+async function forecastRows(
+  dataset: Dataset,
+  datasets: Dataset[],
+  config?: RunnableConfig
+): Promise<{ rows: any[]; warning?: string }> {
+  if (dataset.type !== 'tableau_view' || dataset.combination) {
+    return { rows: getCombinedRows(dataset, datasets) };
+  }
+
+  const sample = dataset.sampleRows || [];
+  try {
+    return { rows: viewRows(await tableauService.getViewData(dataset.id, config?.signal)) };
+  } catch (error) {
+    if (config?.signal?.aborted || isTransientError(error)) throw error;
+    console.error('❌ Failed to fetch the full Tableau view, forecasting from its sample:', error);
+    return {
+      rows: sample,
+      warning: `The forecast uses only the first ${sample.length} of ${dataset.rowCount ?? sample.length} rows of ${dataset.name} because the full view could not be loaded.`,
+    };
+  }
+}
+
+/**
+ * Forecaster Agent - Projects a time series of the dataset forward with a local model
+ * (Holt-Winters, seasonal naive or linear trend) and draws it as a line with a forecast band
+ */
+export async function forecasterAgent(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentState>> {
+  console.log('\n╔════════════════════════════════════════╗');
+  console.log('║      FORECASTER AGENT START            ║');
+  console.log('╚════════════════════════════════════════╝');
+  console.log('📥 Input State:');
+  console.log('   - Query:', state.userQuery);
+  console.log('   - Datasets:', state.relevantDatasets?.length || 0);
+  console.log('');
+
+  try {
+    const { relevantDatasets } = state;
+    const dataset = relevantDatasets?.[0];
+    if (!dataset) {
+      return {
+        warnings: ['No forecast was made because no dataset was available.'],
+        nextAgent: 'summarizer',
+      };
+    }
+
+    const { rows, warning: rowsWarning } = await forecastRows(dataset, relevantDatasets, config);
+    const columns = dataset.columns || (rows[0] ? Object.keys(rows[0]) : []);
+    const rowsWarnings = rowsWarning ? [rowsWarning] : [];
+    const dateColumns = rows.length > 0 ? detectDateColumns(rows, columns) : [];
+    console.log(`   📅 Date columns: ${dateColumns.join(', ') || 'none'}`);
+
+    // Without dates there is no series to project - draw a regular chart instead
+    if (dateColumns.length === 0) {
+      console.log('⚠️  No date column to forecast from, routing to visualizer');
+      console.log('╚════════════════════════════════════════╝\n');
+      return {
+        warnings: [...rowsWarnings, `No forecast was made because ${dataset.name} has no date column.`],
+        nextAgent: 'visualizer',
+      };
+    }
+
+    const { plan, horizon, source } = await generateForecastPlan(state, dataset, rows, columns, dateColumns, config);
+    console.log('🧮 Executing series plan:', JSON.stringify(plan), `horizon ${horizon}`);
+
+    const result = executeQueryPlan(rows, plan);
+    const series = toContinuousSeries(result.data, plan.timeBucket!, plan.operation);
+    const forecast = forecastSeries(series, plan.timeBucket!, horizon);
+
+    if (!forecast) {
+      console.log(`⚠️  ${series.length} periods are too few to forecast, routing to visualizer`);
+      console.log('╚════════════════════════════════════════╝\n');
+      return {
+        warnings: [...rowsWarnings, `No forecast was made because the data covers only ${series.length} ${plan.timeBucket} period(s).`],
+        nextAgent: 'visualizer',
+      };
+    }
+
+    const best = forecast.candidates.find(c => c.model === forecast.model)!;
+    const visualization: Visualization = {
+      type: 'line',
+      title: plan.title,
+      data: series,
+      filters: plan.filters,
+      queryPlan: plan,
+      rowsScanned: result.rowsScanned,
+      rowsMatched: result.rowsMatched,
+      xAxis: plan.groupBy!,
+      yAxis: plan.measure ? `${plan.operation}(${plan.measure})` : 'count',
+      forecast: {
+        model: forecast.model,
+        horizon,
+        timeBucket: plan.timeBucket!,
+        interval: FORECAST_INTERVAL,
+        points: forecast.points,
+        holdoutMAE: best.holdoutMAE,
+      },
+    };
+    if (plan.description) visualization.description = plan.description;
+    const spec = buildVegaLiteSpec(visualization);
+    if (spec) visualization.spec = spec;
+
+    console.log('✅ Forecaster Complete!');
+    console.log(`   Model: ${forecast.model} (holdout MAE ${best.holdoutMAE})`);
+    console.log(`   History: ${series.length} periods, forecast: ${forecast.points.length} periods`);
+    console.log('╚════════════════════════════════════════╝\n');
+
+    return {
+      visualization,
+      visualizations: [visualization],
+      queryPlan: plan,
+      filters: plan.filters,
+      nextAgent: 'summarizer',
+      warnings: [
+        ...rowsWarnings,
+        ...(source === 'fallback' ? ['The forecast uses a default series because a plan for your question could not be generated.'] : []),
+      ],
+      metadata: {
+        ...state.metadata,
+        hasVisualization: true,
+        forecastModel: forecast.model,
+        forecastCandidates: forecast.candidates,
+      },
+    };
+  } catch (error) {
+    // Transient failures are retried by the node's retry policy
+    if (isTransientError(error)) throw error;
+    console.error('❌ Forecaster Agent error:', error);
+    console.log('╚════════════════════════════════════════╝\n');
+    return {
+      warnings: [`No forecast was made: ${(error as Error).message || error}`],
+      nextAgent: 'visualizer',
+    };
+  }
+}
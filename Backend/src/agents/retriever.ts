@@ -1,15 +1,133 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
 import { embeddings } from '../config/llm.js';
-import { COLLECTIONS, semanticSearch, textSearch } from '../config/chromadb.js';
-import type { AgentState, Dataset } from '../langgraph/state.js';
+import { COLLECTIONS, getDocument, semanticSearch, textSearch } from '../config/chromadb.js';
+import type { AgentState, ChatScope, Dataset } from '../langgraph/state.js';
+import { isTransientError } from '../langgraph/resilience.js';
 import { getUploadedDatasets, getDatasetById } from '../services/csvProcessor.js';
+import { tableauService } from '../services/tableau.js';
+import { viewDataset } from './tableauAgent.js';
+
+/**
+ * Ids of the datasets and Tableau views pinned to a chat (empty when nothing is pinned)
+ */
+export function pinnedSourceIds(scope: ChatScope | null | undefined): string[] {
+  return scope ? [...scope.datasetIds, ...scope.tableauViews.map(v => v.id)] : [];
+}
+
+/**
+ * Load exactly the pinned datasets and Tableau views - pins are a hard scope, nothing else is searched
+ */
+async function retrievePinned(state: AgentState, scope: ChatScope, config?: RunnableConfig): Promise<Partial<AgentState>> {
+  console.log(`📌 Using the ${pinnedSourceIds(scope).length} datasets and views pinned to this chat`);
+  const datasets: Dataset[] = [];
+  const warnings: string[] = [];
+
+  for (const id of scope.datasetIds) {
+    const uploaded = getUploadedDatasets().find(d => d.id === id);
+    const stored: any = uploaded ? null : await getDocument(COLLECTIONS.DATASETS, id);
+    if (uploaded) {
+      datasets.push(uploadedDataset(uploaded));
+    } else if (stored && (!stored.userId || stored.userId === state.userId)) {
+      // Same owner check as pinning: ingested datasets of other users are never loaded
+      datasets.push(storedDataset(stored));
+    } else {
+      warnings.push(`The pinned dataset "${id}" is no longer available.`);
+    }
+  }
+
+  for (const view of scope.tableauViews) {
+    try {
+      datasets.push(viewDataset(view, await tableauService.getViewData(view.id, config?.signal)));
+    } catch (error: any) {
+      if (config?.signal?.aborted) throw error;
+      warnings.push(error.message?.includes('Not authenticated')
+        ? `Connect to Tableau Cloud to use the pinned view "${view.name}".`
+        : `Could not extract data from the pinned view "${view.name}".`);
+    }
+  }
+  datasets.forEach(d => console.log(`   - ${d.name} (${d.rowCount} rows)`));
+
+  if (datasets.length === 0) {
+    return {
+      relevantDatasets: [],
+      nextAgent: null,
+      warnings,
+      error: 'None of the data pinned to this chat is available. Unpin it or upload the files again.',
+    };
+  }
+
+  return {
+    relevantDatasets: datasets,
+    nextAgent: state.metadata?.requiresWebSearch ? 'search' : 'analyzer',
+    ...(warnings.length > 0 ? { warnings } : {}),
+    metadata: {
+      ...state.metadata,
+      retrieverTimestamp: new Date().toISOString(),
+      datasetsSearched: datasets.length,
+      scopedToPins: true,
+    },
+  };
+}
+
+/**
+ * An uploaded CSV as a dataset; all rows stay in memory (see getAllRows)
+ */
+function uploadedDataset(ds: ReturnType<typeof getUploadedDatasets>[number]): Dataset {
+  const fullDataset = getDatasetById(ds.id);
+  return {
+    id: ds.id,
+    name: ds.name,
+    type: ds.type as 'tableau_csv',
+    columns: ds.columns,
+    schema: {}, // CSV doesn't have schema
+    summary: ds.summary,
+    rowCount: fullDataset?.allRows?.length || ds.rowCount,
+    // Only the sample is kept in state so run checkpoints stay small
+    sampleRows: ds.sampleRows,
+    aggregatedData: undefined,
+    statistics: undefined,
+  } as Dataset;
+}
+
+/**
+ * A dataset stored in ChromaDB (search result or document)
+ */
+function storedDataset(result: any): Dataset {
+  return {
+    id: result.id,
+    name: result.name,
+    type: result.type,
+    columns: result.columns,
+    schema: result.schema,
+    summary: result.summary,
+    rowCount: result.rowCount,
+    sampleRows: result.sampleRows,
+    aggregatedData: result.aggregatedData,
+    statistics: result.statistics,
+  } as Dataset;
+}
 
 /**
  * Retriever Agent - Performs semantic search to find relevant datasets
- * Now also checks for uploaded Tableau CSV files
+ * Now also checks for uploaded Tableau CSV files. Datasets pinned to the chat replace the search.
  */
-export async function retrieverAgent(state: AgentState): Promise<Partial<AgentState>> {
+export async function retrieverAgent(state: AgentState, config?: RunnableConfig): Promise<Partial<AgentState>> {
   console.log('🔍 Retriever Agent: Searching for relevant datasets...');
 
+  if (state.scope && pinnedSourceIds(state.scope).length > 0) {
+    try {
+      return await retrievePinned(state, state.scope, config);
+    } catch (error) {
+      // Transient failures are retried by the node's retry policy
+      if (isTransientError(error) || config?.signal?.aborted) throw error;
+      console.error('❌ Retriever Agent error:', error);
+      return {
+        error: `Retriever agent failed: ${error}`,
+        nextAgent: null,
+      };
+    }
+  }
+
   try {
     const { userQuery } = state;
     let datasets: Dataset[] = [];
@@ -22,23 +140,7 @@ export async function retrieverAgent(state: AgentState): Promise<Partial<AgentSt
       console.log(`✅ Found ${uploadedDatasets.length} uploaded Tableau datasets`);
 
       // For uploaded datasets, we have ALL the data in memory
-      const uploadedWithFullData = uploadedDatasets.map(ds => {
-        const fullDataset = getDatasetById(ds.id);
-        return {
-          id: ds.id,
-          name: ds.name,
-          type: ds.type as 'tableau_csv',
-          columns: ds.columns,
-          schema: {}, // CSV doesn't have schema
-          summary: ds.summary,
-          rowCount: fullDataset?.allRows?.length || ds.rowCount,
-          sampleRows: fullDataset?.allRows || ds.sampleRows, // Use ALL rows for uploaded CSVs
-          aggregatedData: undefined,
-          statistics: undefined,
-        };
-      });
-
-      datasets = uploadedWithFullData;
+      datasets = uploadedDatasets.map(uploadedDataset);
       console.log('   Using uploaded Tableau CSV data for analysis');
       uploadedDatasets.forEach(d => console.log(`   - ${d.name} (${d.rowCount} rows)`));
     }
@@ -61,18 +163,7 @@ export async function retrieverAgent(state: AgentState): Promise<Partial<AgentSt
       );
 
       // Transform results to Dataset format
-      datasets = results.map((result: any) => ({
-        id: result.id,
-        name: result.name,
-        type: result.type,
-        columns: result.columns,
-        schema: result.schema,
-        summary: result.summary,
-        rowCount: result.rowCount,
-        sampleRows: result.sampleRows,
-        aggregatedData: result.aggregatedData,
-        statistics: result.statistics,
-      }));
+      datasets = results.map(storedDataset);
 
       console.log(`✅ Retriever: Found ${datasets.length} datasets in ChromaDB`);
       datasets.forEach(d => console.log(`   - ${d.name} (score: relevance)`));
@@ -116,18 +207,7 @@ export async function retrieverAgent(state: AgentState): Promise<Partial<AgentSt
         5
       );
 
-      const datasets: Dataset[] = textResults.map((result: any) => ({
-        id: result.id,
-        name: result.name,
-        type: result.type,
-        columns: result.columns,
-        schema: result.schema,
-        summary: result.summary,
-        rowCount: result.rowCount,
-        sampleRows: result.sampleRows,
-        aggregatedData: result.aggregatedData,
-        statistics: result.statistics,
-      }));
+      const datasets: Dataset[] = textResults.map(storedDataset);
 
       console.log(`✅ Fallback: Found ${datasets.length} datasets via text search`);
 
@@ -138,12 +218,15 @@ export async function retrieverAgent(state: AgentState): Promise<Partial<AgentSt
       return {
         relevantDatasets: datasets,
         nextAgent,
+        warnings: ['Semantic dataset search was unavailable, so datasets were matched by keywords.'],
         metadata: {
           ...state.metadata,
           fallbackSearch: true,
         },
       };
     } catch (fallbackError) {
+      // Transient failures are retried by the node's retry policy
+      if (isTransientError(error)) throw error;
       console.error('❌ Fallback search also failed:', fallbackError);
       return {
         error: `Retriever agent failed: ${error}`,
@@ -1,31 +1,158 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
 import { fastLLM } from '../config/llm.js';
-import type { AgentState } from '../langgraph/state.js';
+import type { AgentState, Dataset } from '../langgraph/state.js';
+import { isTransientError } from '../langgraph/resilience.js';
 import { z } from 'zod';
+import { isFollowUpQuery, formatConversationHistory, describePreviousTurn } from '../utils/conversation.js';
+import { pinnedSourceIds } from './retriever.js';
 
 // Schema for structured output
 const IntentSchema = z.object({
-  intent: z.enum(['query', 'visualization', 'summary', 'comparison', 'analysis']),
+  intent: z.enum(['query', 'visualization', 'summary', 'comparison', 'analysis', 'forecast'])
+    .describe('forecast: the user asks to project values into the future'),
   queryType: z.string(),
   requiresDataRetrieval: z.boolean(),
   requiresWebSearch: z.boolean(),
   complexity: z.enum(['simple', 'moderate', 'complex']),
+  isConversational: z.boolean().describe('Greeting, help or capability question that needs no data'),
+  wantsTableauDashboard: z.boolean().describe('User asks for existing Tableau dashboards, workbooks or views'),
+  needsCustomCalculation: z.boolean().describe(
+    'The answer needs a calculation no sum/average/count covers: ratios between columns, rolling windows, running totals, ranks or parsing text'
+  ),
+  wantsOverview: z.boolean().describe(
+    'The user asks for an overview of the data (e.g. "give me an overview of sales"), best answered with several complementary charts'
+  ),
+  confidence: z.number().min(0).max(1).describe('How sure you are about this classification'),
+  clarifyingQuestion: z.string().nullable()
+    .describe('Question to ask the user when the query is ambiguous, otherwise null'),
   reasoning: z.string(),
 });
 
+type IntentClassification = z.infer<typeof IntentSchema>;
+
+// Below this confidence the user is asked to clarify instead of guessing an agent
+const CLARIFICATION_THRESHOLD = 0.5;
+
+/**
+ * Keyword-based classification, used only when the LLM call fails
+ */
+function classifyWithKeywords(userQuery: string): IntentClassification {
+  let intent: AgentState['intent'] = 'query';
+  let queryType = 'general';
+  let complexity: 'simple' | 'moderate' | 'complex' = 'moderate';
+
+  const lowerQuery = userQuery.toLowerCase();
+
+  // Detect if web search is needed
+  const searchKeywords = [
+    'industry', 'market', 'competitor', 'benchmark', 'global', 'external',
+    'industry average', 'market standard', 'best practice', 'trend',
+    'compare with', 'stack up', 'is this good', 'normal', 'typical',
+    'other companies', 'other sites', 'check other', 'look up',
+    'internet', 'search', 'current', 'latest', 'recent',
+    'online', 'web', 'worldwide', 'real-time', 'up-to-date'
+  ];
+
+  const requiresWebSearch = searchKeywords.some(keyword => lowerQuery.includes(keyword));
+
+  // Intent detection - visualization has highest priority
+  // Handle typos and variations: visualiz*, visual*, visulaiz*, vis*
+  const visualizationKeywords = [
+    'visualiz', 'visual', 'visulaiz', 'visualis', // Common typos and variations
+    'chart', 'graph', 'plot', 'display',
+    'show', 'draw', 'create a vis', 'make a vis'
+  ];
+
+  const hasVisualizationIntent = visualizationKeywords.some(keyword =>
+    lowerQuery.includes(keyword)
+  );
+
+  const forecastKeywords = ['forecast', 'predict', 'projection', 'project ', 'next month', 'next quarter', 'next year', 'will look like', 'going to be'];
+
+  if (forecastKeywords.some(keyword => lowerQuery.includes(keyword))) {
+    intent = 'forecast';
+    queryType = 'forecast';
+  } else if (hasVisualizationIntent) {
+    intent = 'visualization';
+    queryType = 'visualization_request';
+  } else if (lowerQuery.includes('summarize') || lowerQuery.includes('summary') || lowerQuery.includes('overview')) {
+    intent = 'summary';
+    queryType = 'summarization';
+  } else if (lowerQuery.includes('compare') || lowerQuery.includes('vs') || lowerQuery.includes('versus')) {
+    intent = 'comparison';
+    queryType = 'comparison_analysis';
+  } else if (lowerQuery.includes('analyze') || lowerQuery.includes('insight') || lowerQuery.includes('find')) {
+    intent = 'analysis';
+    queryType = 'deep_analysis';
+  }
+
+  // Complexity detection
+  if (lowerQuery.split(' ').length < 5) {
+    complexity = 'simple';
+  } else if (lowerQuery.split(' ').length > 15 || lowerQuery.includes('and') || lowerQuery.includes('then')) {
+    complexity = 'complex';
+  }
+
+  // Check if this is a conversational query (no data needed)
+  const isConversational =
+    lowerQuery.includes('hello') ||
+    lowerQuery.includes('hi ') ||
+    lowerQuery.includes('help') ||
+    lowerQuery.includes('what can you') ||
+    lowerQuery.includes('who are you') ||
+    lowerQuery.includes('how do') ||
+    (lowerQuery.includes('can you') && !lowerQuery.includes('data'));
+
+  // Check if this is a Tableau query
+  const tableauKeywords = [
+    'dashboard', 'visualization', 'viz', 'tableau', 'chart',
+    'graph', 'report', 'workbook', 'view', 'show me', 'display',
+    'visualize', 'plot'
+  ];
+  const wantsTableauDashboard = tableauKeywords.some(keyword => lowerQuery.includes(keyword));
+
+  const calculationKeywords = ['ratio', 'per unit', 'rolling', 'moving average', 'running total', 'cumulative', 'rank'];
+  const needsCustomCalculation = calculationKeywords.some(keyword => lowerQuery.includes(keyword));
+
+  const overviewKeywords = ['overview', 'at a glance', 'big picture', 'key metrics', 'explore'];
+  const wantsOverview = overviewKeywords.some(keyword => lowerQuery.includes(keyword));
+
+  return {
+    intent,
+    queryType,
+    requiresDataRetrieval: !isConversational,
+    requiresWebSearch,
+    complexity,
+    isConversational,
+    wantsTableauDashboard,
+    needsCustomCalculation,
+    wantsOverview,
+    // Keywords are a guess, but never a reason to ask the user to clarify
+    confidence: 1,
+    clarifyingQuestion: null,
+    reasoning: 'Keyword heuristics (LLM classification unavailable)',
+  };
+}
+
 /**
  * Router Agent - Classifies user intent and routes to appropriate agents
  */
-export async function routerAgent(state: AgentState): Promise<Partial<AgentState>> {
+export async function routerAgent(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentState>> {
   console.log('\n╔════════════════════════════════════════╗');
   console.log('║       ROUTER AGENT START               ║');
   console.log('╚════════════════════════════════════════╝');
   console.log('📥 Input State:');
   console.log('   - Query:', state.userQuery);
   console.log('   - Has Datasets:', state.relevantDatasets?.length || 0);
+  console.log('   - Has Previous Turn:', !!state.previousTurn);
   console.log('');
 
   try {
-    const { userQuery, relevantDatasets } = state;
+    const { userQuery, relevantDatasets, previousTurn, messages } = state;
+    const isFollowUp = isFollowUpQuery(userQuery, previousTurn);
 
     // Build context about available datasets
     const datasetContext = relevantDatasets.length > 0
@@ -34,15 +161,28 @@ export async function routerAgent(state: AgentState): Promise<Partial<AgentState
         ).join('\n')}`
       : 'No datasets currently available. May need to connect data sources.';
 
+    const history = formatConversationHistory(messages || []);
+    const conversationContext = history
+      ? `\nConversation so far:\n${history}\n${previousTurn ? `\n${describePreviousTurn(previousTurn)}\n` : ''}
+If the query refers to the previous answer (e.g. "now break that down by region"), treat it as a follow-up that edits that answer.\n`
+      : '';
+
     const prompt = `You are a query analyzer for an AI analytics copilot. Analyze the user's query and determine:
-1. The primary intent (query/visualization/summary/comparison/analysis)
+1. The primary intent (query/visualization/summary/comparison/analysis/forecast)
 2. The type of query (e.g., "trend analysis", "comparison", "statistical summary")
 3. Whether data retrieval is needed
 4. Whether web search is needed for external data/benchmarks
 5. Complexity level
+6. Whether it is conversational (greeting, help, capabilities) and needs no data
+7. Whether the user asks for existing Tableau dashboards, workbooks or views
+8. Whether it needs a custom calculation (ratios between columns, rolling windows, running totals, ranks, parsing text)
+9. Whether it asks for an overview of the data, answered with a few complementary charts (a trend, a breakdown, a distribution)
+10. Your confidence in this classification (0 to 1)
+11. A short clarifying question if the query is too ambiguous to act on (e.g. "show me the numbers"), otherwise null.
+   Only ask when you genuinely cannot tell what the user wants - which datasets exist is checked later.
 
 User Query: "${userQuery}"
-
+${conversationContext}
 ${datasetContext}
 
 Web search indicators:
@@ -53,92 +193,56 @@ Web search indicators:
 
 Analyze this query and provide structured output.`;
 
-    const response = await fastLLM.invoke(prompt);
-    const content = response.content as string;
-
-    // Parse the response (simple keyword-based for now)
-    let intent: AgentState['intent'] = 'query';
-    let queryType = 'general';
-    let requiresDataRetrieval = true;
-    let requiresWebSearch = false;
-    let complexity: 'simple' | 'moderate' | 'complex' = 'moderate';
-
-    const lowerQuery = userQuery.toLowerCase();
-
-    // Detect if web search is needed
-    const searchKeywords = [
-      'industry', 'market', 'competitor', 'benchmark', 'global', 'external',
-      'industry average', 'market standard', 'best practice', 'trend',
-      'compare with', 'stack up', 'is this good', 'normal', 'typical',
-      'other companies', 'other sites', 'check other', 'look up',
-      'internet', 'search', 'current', 'latest', 'recent',
-      'online', 'web', 'worldwide', 'real-time', 'up-to-date'
-    ];
-
-    requiresWebSearch = searchKeywords.some(keyword => lowerQuery.includes(keyword));
-
-    // Intent detection - visualization has highest priority
-    // Handle typos and variations: visualiz*, visual*, visulaiz*, vis*
-    const visualizationKeywords = [
-      'visualiz', 'visual', 'visulaiz', 'visualis', // Common typos and variations
-      'chart', 'graph', 'plot', 'display',
-      'show', 'draw', 'create a vis', 'make a vis'
-    ];
-
-    const hasVisualizationIntent = visualizationKeywords.some(keyword =>
-      lowerQuery.includes(keyword)
-    );
-
-    if (hasVisualizationIntent) {
-      intent = 'visualization';
-      queryType = 'visualization_request';
-    } else if (lowerQuery.includes('summarize') || lowerQuery.includes('summary') || lowerQuery.includes('overview')) {
-      intent = 'summary';
-      queryType = 'summarization';
-    } else if (lowerQuery.includes('compare') || lowerQuery.includes('vs') || lowerQuery.includes('versus')) {
-      intent = 'comparison';
-      queryType = 'comparison_analysis';
-    } else if (lowerQuery.includes('analyze') || lowerQuery.includes('insight') || lowerQuery.includes('find')) {
-      intent = 'analysis';
-      queryType = 'deep_analysis';
+    let classification: IntentClassification;
+    let classifiedBy: 'llm' | 'keywords' = 'llm';
+    try {
+      const structuredLLM = fastLLM.withStructuredOutput<IntentClassification>(IntentSchema, { name: 'classify_intent' });
+      classification = await structuredLLM.invoke(prompt, config);
+    } catch (classifyError) {
+      if (config?.signal?.aborted) throw classifyError;
+      console.error('⚠️  Structured intent classification failed, using keyword fallback:', classifyError);
+      classification = classifyWithKeywords(userQuery);
+      classifiedBy = 'keywords';
     }
 
-    // Complexity detection
-    if (lowerQuery.split(' ').length < 5) {
-      complexity = 'simple';
-    } else if (lowerQuery.split(' ').length > 15 || lowerQuery.includes('and') || lowerQuery.includes('then')) {
-      complexity = 'complex';
+    let { intent, queryType, requiresDataRetrieval } = classification;
+    const { requiresWebSearch, complexity, isConversational, wantsTableauDashboard, confidence } = classification;
+
+    // Follow-ups without an explicit intent keep the previous intent
+    if (isFollowUp && intent === 'query' && previousTurn?.intent) {
+      intent = previousTurn.intent;
+      queryType = 'follow_up';
     }
 
-    // Check if this is a conversational query (no data needed)
-    const isConversational =
-      lowerQuery.includes('hello') ||
-      lowerQuery.includes('hi ') ||
-      lowerQuery.includes('help') ||
-      lowerQuery.includes('what can you') ||
-      lowerQuery.includes('who are you') ||
-      lowerQuery.includes('how do') ||
-      (lowerQuery.includes('can you') && !lowerQuery.includes('data')) ||
-      complexity === 'simple' && relevantDatasets.length === 0 && !requiresDataRetrieval;
-
-    // Check if this is a Tableau query
-    const tableauKeywords = [
-      'dashboard', 'visualization', 'viz', 'tableau', 'chart',
-      'graph', 'report', 'workbook', 'view', 'show me', 'display',
-      'visualize', 'plot'
-    ];
-    const isTableauQuery = tableauKeywords.some(keyword => lowerQuery.includes(keyword));
+    const needsClarification = !isFollowUp && !isConversational
+      && (confidence < CLARIFICATION_THRESHOLD || !!classification.clarifyingQuestion);
+
+    // Data pinned to the chat limits which datasets a follow-up may reuse
+    const pinnedIds = pinnedSourceIds(state.scope);
+    const withinPins = (dataset: Dataset) => pinnedIds.length === 0
+      || (dataset.combination?.datasetIds ?? dataset.transform?.sourceDatasetIds ?? [dataset.id]).every(id => pinnedIds.includes(id));
 
     // Determine next agent
     let nextAgent = 'retriever';
+    let datasetsForNextAgent = relevantDatasets;
 
-    if (isConversational) {
+    if (needsClarification) {
+      // Ask rather than guess which agent the user meant
+      nextAgent = 'clarification';
+      console.log(`   ❓ Ambiguous query (confidence ${confidence.toFixed(2)}) - asking for clarification`);
+    } else if (isFollowUp && previousTurn && previousTurn.datasets.length > 0 && previousTurn.datasets.every(withinPins)) {
+      // Follow-up on the previous answer - reuse its datasets instead of starting over
+      datasetsForNextAgent = previousTurn.datasets;
+      requiresDataRetrieval = false;
+      nextAgent = requiresWebSearch ? 'search' : 'analyzer';
+      console.log('   💬 Detected follow-up - reusing datasets from previous turn');
+    } else if (isConversational) {
       // Go straight to conversational summarizer - no data retrieval needed
       nextAgent = 'conversational_brain';
       requiresDataRetrieval = false;
       console.log('   🧠 Detected conversational query - using LLM brain directly');
-    } else if (isTableauQuery) {
-      // Route to Tableau agent for visualization discovery
+    } else if (wantsTableauDashboard && pinnedIds.length === 0) {
+      // Route to Tableau agent for visualization discovery; pinned data is loaded by the retriever instead
       nextAgent = 'tableau';
       console.log('   🎨 Detected Tableau query - routing to Tableau Discovery Agent');
     } else if (relevantDatasets.length === 0) {
@@ -156,23 +260,35 @@ Analyze this query and provide structured output.`;
     console.log('   ✓ Intent:', intent);
     console.log('   ✓ Query Type:', queryType);
     console.log('   ✓ Complexity:', complexity);
+    console.log('   ✓ Confidence:', confidence, `(${classifiedBy})`);
     console.log('   ✓ Requires Web Search:', requiresWebSearch);
+    console.log('   ✓ Follow-up:', isFollowUp);
     console.log('   ✓ Next Agent:', nextAgent);
     console.log('╚════════════════════════════════════════╝\n');
 
     return {
       intent,
       queryType,
+      isFollowUp,
+      relevantDatasets: datasetsForNextAgent,
       nextAgent,
       metadata: {
         ...state.metadata,
         requiresDataRetrieval,
         requiresWebSearch,
+        needsCustomCalculation: classification.needsCustomCalculation,
+        wantsOverview: classification.wantsOverview,
         complexity,
-        routerReasoning: content.substring(0, 200),
+        routerReasoning: classification.reasoning,
+        routerConfidence: confidence,
+        routerClassifiedBy: classifiedBy,
+        needsClarification,
+        clarifyingQuestion: needsClarification ? classification.clarifyingQuestion : null,
       },
     };
   } catch (error) {
+    // Transient failures are retried by the node's retry policy
+    if (isTransientError(error)) throw error;
     console.error('❌ Router Agent error:', error);
     console.error('Stack:', (error as Error).stack);
     console.log('╚════════════════════════════════════════╝\n');
@@ -1,5 +1,8 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
 import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
 import { llm } from "../config/llm.js";
+import { OFFLINE_MODE } from "../config/offline.js";
+import { FixtureSearchTool } from "../services/offlineFixtures.js";
 import type { AgentState } from "../langgraph/state.js";
 import dotenv from "dotenv";
 
@@ -14,7 +17,8 @@ dotenv.config();
  * - Researching external context for analysis
  */
 export async function searchAgent(
-  state: AgentState
+  state: AgentState,
+  config?: RunnableConfig
 ): Promise<Partial<AgentState>> {
   console.log("\n╔════════════════════════════════════════╗");
   console.log("║        SEARCH AGENT START              ║");
@@ -30,20 +34,29 @@ export async function searchAgent(
     // Initialize Tavily search tool
     const tavilyApiKey = process.env.TAVILY_API_KEY;
 
-    if (!tavilyApiKey || tavilyApiKey === "your_tavily_api_key_here") {
+    // Web search is optional: without it the analysis continues on the datasets alone
+    if (!OFFLINE_MODE && (!tavilyApiKey || tavilyApiKey === "your_tavily_api_key_here")) {
       console.log("⚠️  Tavily API key not configured. Skipping search.");
       return {
         searchResults: null,
-        error:
-          "Search functionality requires a Tavily API key. Please configure TAVILY_API_KEY in .env",
+        warnings: [
+          "Web search is not configured (TAVILY_API_KEY), so this answer does not include external context.",
+        ],
         nextAgent: "analyzer",
+        metadata: {
+          ...state.metadata,
+          searchSkipped: true,
+        },
       };
     }
 
-    const searchTool = new TavilySearchResults({
-      apiKey: tavilyApiKey,
-      maxResults: 5,
-    });
+    // Offline mode answers from fixtures/offline/search.json
+    const searchTool = OFFLINE_MODE
+      ? new FixtureSearchTool(5)
+      : new TavilySearchResults({
+        apiKey: tavilyApiKey || "",
+        maxResults: 5,
+      });
 
     // Build search query based on user query and dataset context
     let searchQuery = userQuery;
@@ -74,7 +87,7 @@ Examples:
 Return only the search queries, one per line, no explanation.`;
 
         console.log("🔄 Generating optimized search query...");
-        const queryResponse = await llm.invoke(queryPrompt);
+        const queryResponse = await llm.invoke(queryPrompt, config);
         const optimizedQuery = (queryResponse.content as string).trim();
         const firstQuery = optimizedQuery.split("\n")[0]?.trim();
         if (firstQuery && firstQuery.length > 0) {
@@ -89,7 +102,7 @@ Return only the search queries, one per line, no explanation.`;
       console.log("⚠️  Empty search query. Skipping search.");
       return {
         searchResults: null,
-        error: "Cannot perform search with empty query",
+        warnings: ["Web search was skipped because no search query could be built."],
         nextAgent: "analyzer",
         metadata: {
           ...state.metadata,
@@ -105,11 +118,13 @@ Return only the search queries, one per line, no explanation.`;
     console.log("🌐 Performing web search...");
     console.log("   Search query:", searchQuery);
     console.log("   Query length:", searchQuery.length);
-    console.log("   API key (first 10 chars):", tavilyApiKey.substring(0, 10) + "...");
+    if (tavilyApiKey) {
+      console.log("   API key (first 10 chars):", tavilyApiKey.substring(0, 10) + "...");
+    }
 
     let searchResults;
     try {
-      searchResults = await searchTool.invoke(searchQuery);
+      searchResults = await searchTool.invoke(searchQuery, config);
       console.log("✅ Search completed");
       console.log("   Results found:", searchResults ? "Yes" : "No");
     } catch (searchError: any) {
@@ -163,7 +178,7 @@ Task: Synthesize the search results into a concise summary that:
 
 Keep the summary clear and actionable (3-5 paragraphs max).`;
 
-    const synthesisResponse = await llm.invoke(synthesisPrompt);
+    const synthesisResponse = await llm.invoke(synthesisPrompt, config);
     const searchSummary = synthesisResponse.content as string;
 
     console.log("✅ Search synthesis complete");
@@ -192,7 +207,7 @@ Keep the summary clear and actionable (3-5 paragraphs max).`;
 
     return {
       searchResults: null,
-      error: `Search failed: ${(error as Error).message}`,
+      warnings: [`Web search failed (${(error as Error).message}), so this answer does not include external context.`],
       nextAgent: "analyzer", // Continue workflow even if search fails
       metadata: {
         ...state.metadata,
@@ -0,0 +1,163 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { z } from 'zod';
+import { fastLLM } from '../config/llm.js';
+import type { AgentState, Dataset, Visualization } from '../langgraph/state.js';
+import { detectCategoricalColumns, detectDateColumns, detectNumericColumns } from '../utils/dataAggregation.js';
+
+const MIN_SUGGESTIONS = 3;
+const MAX_SUGGESTIONS = 5;
+
+const SuggestionsSchema = z.object({
+  questions: z.array(z.string()).describe(`${MIN_SUGGESTIONS} to ${MAX_SUGGESTIONS} follow-up questions the user could ask next`),
+});
+
+type Suggestions = z.infer<typeof SuggestionsSchema>;
+
+interface ColumnRoles {
+  numeric: string[];
+  categorical: string[];
+  dates: string[];
+}
+
+function columnRoles(dataset: Dataset): ColumnRoles {
+  const rows = dataset.sampleRows || [];
+  const columns = dataset.columns || (rows[0] ? Object.keys(rows[0]) : []);
+  const dates = rows.length > 0 ? detectDateColumns(rows, columns) : [];
+  return {
+    numeric: rows.length > 0 ? detectNumericColumns(rows, columns).filter(c => !dates.includes(c)) : [],
+    categorical: rows.length > 0 ? detectCategoricalColumns(rows, columns).filter(c => !dates.includes(c)) : [],
+    dates,
+  };
+}
+
+/**
+ * Questions built from the dataset's columns and the chart shown, used when the LLM gives too few
+ */
+function templateSuggestions(dataset: Dataset, roles: ColumnRoles, visualization: Visualization | null): string[] {
+  const plan = visualization?.queryPlan;
+  const measure = plan?.measure || roles.numeric[0];
+  const groupBy = plan?.groupBy;
+  const overTime = !!plan?.timeBucket || (!!groupBy && roles.dates.includes(groupBy));
+  const suggestions: string[] = [];
+
+  if (!measure) {
+    roles.categorical.slice(0, 2).forEach(column => suggestions.push(`How many rows are there per ${column}?`));
+    suggestions.push(`Summarize ${dataset.name}`);
+    return suggestions;
+  }
+
+  if (overTime) {
+    suggestions.push(`Forecast ${measure} for the next quarter`);
+  } else if (roles.dates[0]) {
+    suggestions.push(`Show the monthly ${measure} trend`);
+  }
+
+  const otherCategory = roles.categorical.find(c => c !== groupBy);
+  if (otherCategory) {
+    suggestions.push(groupBy && !overTime ? `Break down ${measure} by ${groupBy} and ${otherCategory}` : `Show total ${measure} by ${otherCategory}`);
+  }
+
+  const otherMeasure = roles.numeric.find(c => c !== measure);
+  if (otherMeasure) {
+    suggestions.push(overTime
+      ? `How does ${otherMeasure} change over ${groupBy}?`
+      : groupBy ? `Compare ${otherMeasure} by ${groupBy}` : `How does ${otherMeasure} relate to ${measure}?`);
+  }
+
+  // Drill into the largest category of the chart
+  const top = !overTime && groupBy ? [...(visualization?.data || [])].sort((a, b) => b.value - a.value)[0] : undefined;
+  if (top?.name !== undefined) {
+    suggestions.push(`Show ${measure} for ${groupBy} ${top.name} over time`);
+  }
+
+  if (!groupBy && roles.categorical[0]) {
+    suggestions.push(`Show total ${measure} by ${roles.categorical[0]}`);
+  }
+  return suggestions;
+}
+
+/**
+ * Keep questions that are new, distinct and name a real column or a category of the chart
+ */
+function validSuggestions(questions: string[], userQuery: string, vocabulary: string[]): string[] {
+  const seen = new Set([userQuery.trim().toLowerCase()]);
+  return questions
+    .map(q => q.trim())
+    .filter(q => {
+      const key = q.toLowerCase();
+      if (!q || seen.has(key)) return false;
+      seen.add(key);
+      return vocabulary.some(term => key.includes(term.toLowerCase()));
+    });
+}
+
+/**
+ * Suggester Agent - Proposes follow-up questions grounded in the dataset's columns,
+ * the intent of the question and the chart that was shown
+ */
+export async function suggesterAgent(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentState>> {
+  console.log('\n╔════════════════════════════════════════╗');
+  console.log('║      SUGGESTER AGENT START             ║');
+  console.log('╚════════════════════════════════════════╝');
+
+  const { userQuery, intent, relevantDatasets, visualization, summary } = state;
+  const dataset = relevantDatasets?.find(d => d.id === visualization?.queryPlan?.datasetId) || relevantDatasets?.[0];
+
+  // Without data there is nothing to ground the questions in
+  if (!dataset) {
+    console.log('⚠️  No dataset, skipping suggestions');
+    console.log('╚════════════════════════════════════════╝\n');
+    return { suggestions: [], nextAgent: null };
+  }
+
+  const roles = columnRoles(dataset);
+  const columns = dataset.columns || [...roles.numeric, ...roles.categorical, ...roles.dates];
+  const categories = (visualization?.data || []).slice(0, 20).map(d => String(d.name ?? '')).filter(Boolean);
+  const fallback = templateSuggestions(dataset, roles, visualization);
+
+  let suggested: string[] = [];
+  try {
+    const prompt = `Suggest ${MIN_SUGGESTIONS} to ${MAX_SUGGESTIONS} follow-up questions the user could ask next about their data.
+
+User Query: "${userQuery}"
+Intent: ${intent || 'query'}
+
+Dataset: ${dataset.name}
+- Numeric columns: ${roles.numeric.join(', ') || 'none'}
+- Categorical columns: ${roles.categorical.join(', ') || 'none'}
+- Date columns: ${roles.dates.join(', ') || 'none'}
+${visualization ? `
+Chart shown: ${visualization.type} "${visualization.title || 'Untitled'}" (x: ${visualization.xAxis || 'n/a'}, y: ${visualization.yAxis || 'n/a'})
+Chart categories: ${categories.join(', ') || 'none'}
+Filters: ${visualization.filters?.length ? JSON.stringify(visualization.filters) : 'none'}` : ''}
+
+Answer given:
+${(summary || '').substring(0, 800)}
+
+Rules:
+1. Each question must name at least one of the columns above, using its exact name, or a chart category
+2. Go one step further than the answer: drill down, compare, break down, change the time range or forecast
+3. Do not repeat the user's question; keep each question under 12 words`;
+
+    console.log('🔄 Calling LLM for follow-up questions...');
+    const structuredLLM = fastLLM.withStructuredOutput<Suggestions>(SuggestionsSchema, { name: 'follow_up_questions' });
+    const result = await structuredLLM.invoke(prompt, config);
+    suggested = result.questions || [];
+  } catch (error) {
+    if (config?.signal?.aborted) throw error;
+    // Suggestions are optional - the column templates stand in
+    console.error('❌ Failed to generate follow-up questions, using templates:', error);
+  }
+
+  const suggestions = validSuggestions([...suggested, ...fallback], userQuery, [...columns, ...categories])
+    .slice(0, MAX_SUGGESTIONS);
+
+  console.log(`✅ Suggester Complete! ${suggestions.length} questions`);
+  suggestions.forEach((s, i) => console.log(`   ${i + 1}. ${s}`));
+  console.log('╚════════════════════════════════════════╝\n');
+
+  return { suggestions, nextAgent: null };
+}
@@ -1,10 +1,20 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
 import { llm } from '../config/llm.js';
 import type { AgentState, Insight } from '../langgraph/state.js';
+import { isTransientError } from '../langgraph/resilience.js';
+import { getCombinedRows } from '../services/datasetCombiner.js';
+import { describePreviousTurn, formatConversationHistory } from '../utils/conversation.js';
+import { computeStatisticalFindings } from '../utils/statistics.js';
+import { collectReferenceValues, verifyNumericClaims } from '../utils/claimVerifier.js';
+import { attachCitations, collectCitationSources, formatSourcesForPrompt } from '../utils/citations.js';
 
 /**
  * Summarizer Agent - Generates natural language insights and summaries
  */
-export async function summarizerAgent(state: AgentState): Promise<Partial<AgentState>> {
+export async function summarizerAgent(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentState>> {
   console.log('\n╔════════════════════════════════════════╗');
   console.log('║      SUMMARIZER AGENT START            ║');
   console.log('╚════════════════════════════════════════╝');
@@ -16,7 +26,7 @@ export async function summarizerAgent(state: AgentState): Promise<Partial<AgentS
   console.log('');
 
   try {
-    const { userQuery, relevantDatasets, analysisResults, visualization, intent, searchResults, tableauViews } = state;
+    const { userQuery, relevantDatasets, analysisResults, visualization, visualizations, intent, searchResults, tableauViews, isFollowUp, previousTurn, messages, warnings, sqlQuery } = state;
 
     // Build context for summarization
     const context: string[] = [];
@@ -24,6 +34,17 @@ export async function summarizerAgent(state: AgentState): Promise<Partial<AgentS
     context.push(`User Query: "${userQuery}"`);
     context.push(`Intent: ${intent}`);
 
+    // Include earlier turns so the answer stays consistent with the conversation
+    const history = formatConversationHistory(messages || []);
+    if (history) {
+      context.push(`\nConversation so far:\n${history}`);
+    }
+
+    if (isFollowUp && previousTurn) {
+      context.push(`\nThis is a follow-up to the previous answer:`);
+      context.push(describePreviousTurn(previousTurn));
+    }
+
     // Include Tableau visualizations if found
     if (tableauViews && tableauViews.length > 0) {
       context.push(`\nTableau Visualizations Found (${tableauViews.length}):`);
@@ -59,7 +80,7 @@ export async function summarizerAgent(state: AgentState): Promise<Partial<AgentS
           context.push(`  Statistics: ${JSON.stringify((d as any).statistics, null, 2)}`);
         }
         // Mention available data points
-        const dataPoints = (d as any).aggregatedData?.length || (d as any).sampleRows?.length || 0;
+        const dataPoints = d.rowCount || (d as any).aggregatedData?.length || (d as any).sampleRows?.length || 0;
         if (dataPoints > 0) {
           context.push(`  Data available for analysis: ${dataPoints} rows`);
         }
@@ -75,6 +96,73 @@ export async function summarizerAgent(state: AgentState): Promise<Partial<AgentS
       context.push(`\nVisualization created:`);
       context.push(`Type: ${visualization.type}`);
       context.push(`Data points: ${visualization.data?.length || 0}`);
+      if (visualization.series?.length) {
+        context.push(`Series (values are under these keys of each data point): ${visualization.series
+          .map(s => `${s.key}${s.axis === 'right' ? ' (right axis)' : ''}`).join(', ')}`);
+      }
+      if (visualization.queryPlan) {
+        context.push(`Query plan: ${JSON.stringify(visualization.queryPlan)}`);
+        context.push(`Rows matched: ${visualization.rowsMatched} of ${visualization.rowsScanned}`);
+      }
+      // Exact computed values - the only numbers the summary may quote about the chart
+      if (visualization.data && visualization.data.length > 0) {
+        context.push(`Computed chart data (exact values):`);
+        context.push(JSON.stringify(visualization.data.slice(0, 50)));
+      }
+      if (visualization.filters && visualization.filters.length > 0) {
+        context.push(`Filters: ${JSON.stringify(visualization.filters)}`);
+      }
+      const { forecast } = visualization;
+      if (forecast) {
+        context.push(`Forecast (${forecast.model} model, ${Math.round(forecast.interval * 100)}% prediction intervals, `
+          + `mean absolute error ${forecast.holdoutMAE} on recent held-out ${forecast.timeBucket}s):`);
+        forecast.points.forEach(p => context.push(`- ${p.name}: ${p.value} (between ${p.lower} and ${p.upper})`));
+        context.push('Present forecasts as estimates with their range, not as certain values.');
+      }
+    }
+
+    // Overview answers come with more charts; the summary walks through them in order
+    const otherCharts = (visualizations || []).slice(1);
+    if (otherCharts.length > 0) {
+      context.push(`\nMore charts shown with the answer (refer to each by its title):`);
+      otherCharts.forEach((chart, i) => {
+        context.push(`${i + 2}. ${chart.title} (${chart.type}${chart.role ? `, ${chart.role}` : ''})`);
+        if (chart.series?.length) {
+          context.push(`   Series keys: ${chart.series.map(s => s.key).join(', ')}`);
+        }
+        context.push(`   Computed chart data (exact values): ${JSON.stringify(chart.data.slice(0, 30))}`);
+      });
+    }
+
+    // Rows returned by the generated SQL - exact values the answer can quote
+    if (sqlQuery && !sqlQuery.error) {
+      context.push(`\nSQL query run on the data:`);
+      context.push(sqlQuery.sql);
+      context.push(`Result (${sqlQuery.rowCount} rows${sqlQuery.truncated ? ', truncated' : ''}, exact values):`);
+      context.push(JSON.stringify(sqlQuery.rows.slice(0, 50)));
+    }
+
+    // Significance-tested findings on every row of the charted dataset
+    const analyzedDataset = relevantDatasets?.find(d => d.id === visualization?.queryPlan?.datasetId) || relevantDatasets?.[0];
+    const findings = analyzedDataset
+      ? computeStatisticalFindings(getCombinedRows(analyzedDataset, relevantDatasets), analyzedDataset.columns || [], 4)
+      : [];
+    if (findings.length > 0) {
+      context.push(`\nStatistical findings on ${analyzedDataset!.name} (computed on all rows):`);
+      findings.forEach(finding => context.push(`- ${finding.description}`));
+    }
+
+    // Steps that were skipped or degraded, so the answer does not claim what it lacks
+    if (warnings && warnings.length > 0) {
+      context.push(`\nLimitations of this analysis:`);
+      warnings.forEach(warning => context.push(`- ${warning}`));
+    }
+
+    // Numbered sources the answer cites with [n] markers
+    const sources = collectCitationSources(state);
+    if (sources.length > 0) {
+      context.push(`\nSources:`);
+      context.push(formatSourcesForPrompt(sources));
     }
 
     const prompt = `You are an AI data analyst providing insights to a user. Based on the analysis performed, generate:
@@ -99,48 +187,45 @@ IMPORTANT: Tableau visualizations have been found and WILL BE DISPLAYED to the u
 ` : ''}
 
 Generate a helpful, professional response that directly answers the user's query.
-Be specific with numbers and findings when available.
+${isFollowUp ? 'This is a follow-up: describe what changed compared to the previous answer instead of repeating it.' : ''}
+Be specific with numbers and findings when available, but only quote numbers that appear in the computed chart data or statistics above.
 ${searchResults ? 'When external research is available, integrate those findings to provide context and comparisons.' : ''}
+${sources.length > 0 ? 'End each sentence or bullet that states a fact with the number of its source in square brackets, e.g. "Sales peaked in March [1]."' : ''}
 If analysis is limited, explain what was found and suggest next steps.`;
 
-    console.log('🔄 Calling LLM for summary generation...');
-    const response = await llm.invoke(prompt);
-    const summary = response.content as string;
+    // Stream the summary so the workflow can forward tokens to the client
+    console.log('🔄 Streaming LLM summary generation...');
+    let draft = '';
+    for await (const chunk of await llm.stream(prompt, config)) {
+      draft += typeof chunk.content === 'string' ? chunk.content : '';
+    }
 
     console.log('✅ Summarizer: Summary generated');
-    console.log(`   Length: ${summary.length} characters`);
-    console.log(`   Preview: ${summary.substring(0, 150)}...`);
-    console.log('');
+    console.log(`   Length: ${draft.length} characters`);
+    console.log(`   Preview: ${draft.substring(0, 150)}...`);
 
-    // Extract insights from summary (simple approach)
-    const insights: Insight[] = [];
+    // Check every quoted figure against the computed values; near misses are corrected in place
+    const references = collectReferenceValues(state, findings);
+    const { text: verified, claims } = verifyNumericClaims(draft, references);
+    const count = (status: string) => claims.filter(claim => claim.status === status).length;
+    console.log(`🔎 Numeric claims: ${count('verified')} verified, ${count('corrected')} corrected, ${count('unverified')} unverified`);
+    claims
+      .filter(claim => claim.status === 'corrected')
+      .forEach(claim => console.log(`   ✏️  ${claim.original} → ${claim.text} (${claim.source})`));
 
-    // Parse for trends (simple keyword detection)
-    if (summary.toLowerCase().includes('increase') || summary.toLowerCase().includes('growth')) {
-      insights.push({
-        type: 'trend',
-        title: 'Growth Detected',
-        content: 'Analysis indicates positive growth trend',
-        confidence: 0.7,
-      });
-    }
-
-    if (summary.toLowerCase().includes('decrease') || summary.toLowerCase().includes('decline')) {
-      insights.push({
-        type: 'trend',
-        title: 'Decline Observed',
-        content: 'Analysis indicates declining trend',
-        confidence: 0.7,
-      });
-    }
+    // Keep the markers that name a real source and cite the sentences that can be traced to one
+    const { text: summary, citations } = attachCitations(verified, sources, claims);
+    console.log(`📚 Citations: ${citations.map(c => `[${c.id}] ${c.label}`).join(', ') || 'none'}`);
+    console.log('');
 
-    // Add general insight
-    insights.push({
-      type: 'summary',
-      title: 'Analysis Complete',
-      content: summary.split('\n')[0] || summary.substring(0, 150),
-      confidence: 0.9,
-    });
+    // Insights carry the statistic they rest on; the summary prose stays the LLM's
+    const insights: Insight[] = findings.map(finding => ({
+      type: finding.type,
+      title: finding.statistic.columns.join(' · '),
+      content: finding.description,
+      confidence: finding.confidence,
+      statistic: finding.statistic,
+    }));
 
     console.log('📊 Generated', insights.length, 'insights');
     console.log('✅ Summarizer Complete!');
@@ -148,10 +233,12 @@ If analysis is limited, explain what was found and suggest next steps.`;
 
     return {
       summary,
+      claims,
+      citations,
       insights,
       visualization, // Preserve visualization from previous agents
       tableauViews, // Preserve Tableau views from previous agents
-      nextAgent: null, // End of workflow
+      nextAgent: 'suggester', // Offer follow-up questions
       messages: [
         {
           role: 'assistant',
@@ -161,6 +248,8 @@ If analysis is limited, explain what was found and suggest next steps.`;
       ],
     };
   } catch (error) {
+    // Transient failures are retried by the node's retry policy
+    if (isTransientError(error)) throw error;
     console.error('❌ Summarizer Agent error:', error);
     console.error('Stack:', (error as Error).stack);
     console.log('╚════════════════════════════════════════╝\n');
@@ -1,8 +1,11 @@
-import type { AgentState } from '../langgraph/state.js';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import type { AgentState, Dataset } from '../langgraph/state.js';
 import { tableauService } from '../services/tableau.js';
+import type { TableauViewData } from '../types/tableau.js';
 import {
   buildTableauIndex,
   generateTableauEmbeddings,
+  keywordSearchTableau,
   tableauDiscoveryAgent,
 } from './tableauDiscovery.js';
 
@@ -21,7 +24,7 @@ let tableauIndexCache: Awaited<ReturnType<typeof generateTableauEmbeddings>> | n
 let lastIndexBuildTime: number = 0;
 const INDEX_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
-async function getTableauIndex() {
+async function getTableauIndex(signal?: AbortSignal) {
   const now = Date.now();
 
   // Return cached index if still valid
@@ -31,7 +34,7 @@ async function getTableauIndex() {
   }
 
   console.log('🔄 Building fresh Tableau index...');
-  const index = await buildTableauIndex();
+  const index = await buildTableauIndex(signal);
   const indexWithEmbeddings = await generateTableauEmbeddings(index);
 
   tableauIndexCache = indexWithEmbeddings;
@@ -40,31 +43,89 @@ async function getTableauIndex() {
   return indexWithEmbeddings;
 }
 
-export async function tableauAgent(state: AgentState): Promise<Partial<AgentState>> {
+/**
+ * Keyword-only discovery, used when embeddings or the LLM are unavailable
+ */
+async function keywordDiscovery(
+  query: string,
+  signal?: AbortSignal
+): Promise<Awaited<ReturnType<typeof tableauDiscoveryAgent>>> {
+  const index = tableauIndexCache || await buildTableauIndex(signal);
+  const results = keywordSearchTableau(query, index, 5);
+
+  return {
+    results,
+    summary: results.length > 0
+      ? `Found ${results.length} Tableau visualizations whose names or descriptions match your query.`
+      : 'No relevant Tableau visualizations found for your query.',
+    suggestedVisualization: results[0]?.name,
+  };
+}
+
+/**
+ * Tableau view rows are arrays of cells; key them by column like uploaded rows
+ */
+export function viewRows(viewData: Pick<TableauViewData, 'columns' | 'data'>): Record<string, any>[] {
+  return viewData.data.map(row => Object.fromEntries(viewData.columns.map((column, i) => [column, row[i]])));
+}
+
+/**
+ * The data extracted from a Tableau view, as a dataset for analysis and custom visualization
+ */
+export function viewDataset(
+  view: { id: string; name: string; workbookName?: string | undefined; description?: string | undefined },
+  viewData: TableauViewData,
+  metadata: Record<string, unknown> = {}
+): Dataset {
+  return {
+    id: view.id,
+    name: view.workbookName ? `${view.workbookName} - ${view.name}` : view.name,
+    type: 'tableau_view',
+    summary: view.description || `Data from ${view.name} visualization`,
+    columns: viewData.columns,
+    rowCount: viewData.totalRowCount,
+    sampleRows: viewRows({ columns: viewData.columns, data: viewData.data.slice(0, 100) }), // First 100 rows for analysis
+    source: 'tableau',
+    metadata: {
+      workbookName: view.workbookName,
+      viewId: view.id,
+      ...metadata,
+    },
+  } as Dataset;
+}
+
+export async function tableauAgent(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentState>> {
   try {
     console.log('\n🎨 Tableau Agent: Searching for visualizations and extracting data...');
 
     const query = state.userQuery;
-
-    // Get or build Tableau index
-    const tableauIndex = await getTableauIndex();
-
-    // Use Discovery Agent to find relevant visualizations
-    const discoveryResult = await tableauDiscoveryAgent(query, tableauIndex);
+    const signal = config?.signal;
+
+    // Non-fatal problems, shown to the user with the answer
+    const warnings: string[] = [];
+
+    // Use Discovery Agent to find relevant visualizations (semantic search + LLM),
+    // falling back to keyword search when either is unavailable
+    let discoveryResult: Awaited<ReturnType<typeof tableauDiscoveryAgent>>;
+    try {
+      const tableauIndex = await getTableauIndex(signal);
+      discoveryResult = await tableauDiscoveryAgent(query, tableauIndex, signal);
+    } catch (error: any) {
+      // Cancellation and authentication errors are handled below
+      if (signal?.aborted || error.message?.includes('Not authenticated')) throw error;
+      console.warn(`⚠️  Semantic Tableau search failed, falling back to keyword search: ${error.message}`);
+      discoveryResult = await keywordDiscovery(query, signal);
+      warnings.push('Semantic Tableau search was unavailable, so visualizations were matched by keywords.');
+    }
 
     if (discoveryResult.results.length === 0) {
       console.log('⚠️  No Tableau visualizations found');
       return {
         tableauViews: [],
-        insights: [
-          ...(state.insights || []),
-          {
-            type: 'summary',
-            title: 'No Tableau Visualizations Found',
-            content: 'No relevant Tableau visualizations found for your query.',
-            confidence: 1.0,
-          },
-        ],
+        warnings: [...warnings, 'No relevant Tableau visualizations were found for this question.'],
         nextAgent: 'summarizer',
       };
     }
@@ -79,31 +140,19 @@ export async function tableauAgent(state: AgentState): Promise<Partial<AgentStat
       console.log(`📊 Extracting data from best match: "${bestMatch.name}" (relevance: ${Math.round(bestMatch.relevanceScore * 100)}%)`);
 
       try {
-        const viewData = await tableauService.getViewData(bestMatch.id);
+        const viewData = await tableauService.getViewData(bestMatch.id, signal);
         console.log(`✅ Extracted ${viewData.totalRowCount} rows with ${viewData.columns.length} columns`);
 
         // Convert to dataset format for analysis and custom visualization
-        const extractedDataset = {
-          id: bestMatch.id,
-          name: `${bestMatch.workbookName} - ${bestMatch.name}`,
-          type: 'tableau_view' as const,
-          summary: bestMatch.description || `Data from ${bestMatch.name} visualization`,
-          columns: viewData.columns,
-          rowCount: viewData.totalRowCount,
-          sampleRows: viewData.data.slice(0, 100), // First 100 rows for analysis
-          source: 'tableau',
-          metadata: {
-            workbookName: bestMatch.workbookName,
-            viewId: bestMatch.id,
-            relevanceScore: bestMatch.relevanceScore,
-          },
-        };
+        const extractedDataset = viewDataset(bestMatch, viewData, { relevanceScore: bestMatch.relevanceScore });
 
         relevantDatasets = [extractedDataset];
         console.log(`📊 Prepared dataset for custom visualization: ${extractedDataset.name}`);
       } catch (error: any) {
+        if (signal?.aborted) throw error;
         console.error(`❌ Failed to extract data from view: ${error.message}`);
         console.log(`ℹ️  Will show Tableau dashboards instead of custom visualizations`);
+        warnings.push(`Could not extract data from "${bestMatch.name}", so the Tableau dashboards are shown instead of a custom chart.`);
       }
     }
 
@@ -161,40 +210,19 @@ export async function tableauAgent(state: AgentState): Promise<Partial<AgentStat
       return view;
     });
 
-    // Add insights about the discovered visualizations
-    const insights = [
-      ...(state.insights || []),
-      {
-        type: 'summary' as const,
-        title: 'Tableau Visualizations Found',
-        content: discoveryResult.summary,
-        confidence: 0.9,
-      },
-    ];
-
-    // If we have a specific recommendation, add it
-    if (discoveryResult.suggestedVisualization) {
-      insights.push({
-        type: 'summary' as const,
-        title: 'Recommended Visualization',
-        content: `💡 Recommended: "${discoveryResult.suggestedVisualization}" - This visualization best matches your query.`,
-        confidence: 0.95,
-      });
-    }
-
-    // If we extracted data, route to retriever for custom visualization
-    // Otherwise just show Tableau dashboards
-    const nextAgent = relevantDatasets.length > 0 ? 'retriever' : 'summarizer';
+    // If we extracted data, route to the analyzer for custom visualization
+    // (the retriever would replace the extracted data). Otherwise just show Tableau dashboards
+    const nextAgent = relevantDatasets.length > 0 ? 'analyzer' : 'summarizer';
 
     console.log(`➡️  Routing to: ${nextAgent} (${relevantDatasets.length > 0 ? 'with extracted data for custom viz' : 'dashboards only'})`);
 
     const result: Partial<AgentState> = {
-      insights,
+      warnings,
       nextAgent,
     };
 
     if (relevantDatasets.length > 0) {
-      // Route to retriever with extracted data for custom visualization
+      // Route to analyzer with extracted data for custom visualization
       result.relevantDatasets = relevantDatasets;
     } else {
       // No data extraction - show Tableau dashboards
@@ -208,21 +236,14 @@ export async function tableauAgent(state: AgentState): Promise<Partial<AgentStat
     // Check if it's an authentication error
     if (error.message.includes('Not authenticated')) {
       return {
-        insights: [
-          ...(state.insights || []),
-          {
-            type: 'summary' as const,
-            title: 'Tableau Authentication Required',
-            content: '⚠️ Tableau is not authenticated. Please connect to Tableau Cloud first.',
-            confidence: 1.0,
-          },
-        ],
+        warnings: ['Tableau is not authenticated. Connect to Tableau Cloud to include its dashboards.'],
         nextAgent: 'summarizer',
       };
     }
 
+    // Tableau is optional - answer without it
     return {
-      error: `Tableau discovery failed: ${error.message}`,
+      warnings: [`Tableau discovery failed: ${error.message}`],
       nextAgent: 'summarizer',
     };
   }
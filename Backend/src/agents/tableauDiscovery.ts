@@ -1,7 +1,7 @@
-import { ChatOpenAI } from '@langchain/openai';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { embeddings } from '../config/llm.js';
+import { getChatModel } from '../config/providers.js';
 import { tableauService } from '../services/tableau.js';
 import type { TableauWorkbook, TableauView } from '../types/tableau.js';
 
@@ -43,8 +43,8 @@ export interface TableauContentIndex {
 /**
  * Build searchable index of all Tableau content
  */
-export async function buildTableauIndex(): Promise<TableauContentIndex[]> {
-  const workbooks = await tableauService.listWorkbooks();
+export async function buildTableauIndex(signal?: AbortSignal): Promise<TableauContentIndex[]> {
+  const workbooks = await tableauService.listWorkbooks(signal);
   const index: TableauContentIndex[] = [];
 
   for (const workbook of workbooks) {
@@ -74,7 +74,7 @@ export async function buildTableauIndex(): Promise<TableauContentIndex[]> {
 
     // Get views for this workbook
     try {
-      const views = await tableauService.getWorkbookViews(workbook.id);
+      const views = await tableauService.getWorkbookViews(workbook.id, signal);
 
       for (const view of views) {
         const viewDescription = `${view.name} visualization in ${workbook.name}. ` +
@@ -104,6 +104,7 @@ export async function buildTableauIndex(): Promise<TableauContentIndex[]> {
         });
       }
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error(`Failed to get views for workbook ${workbook.name}:`, error);
     }
   }
@@ -221,7 +222,8 @@ export async function semanticSearchTableau(
  */
 export async function tableauDiscoveryAgent(
   userQuery: string,
-  tableauIndex: TableauContentIndex[]
+  tableauIndex: TableauContentIndex[],
+  signal?: AbortSignal
 ): Promise<{
   results: TableauDiscoveryResult[];
   summary: string;
@@ -241,10 +243,7 @@ export async function tableauDiscoveryAgent(
     }
 
     // Step 2: Use LLM to refine and explain results
-    const model = new ChatOpenAI({
-      modelName: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
-      temperature: 0.3,
-    });
+    const model = getChatModel('main', { temperature: 0.3 });
 
     const prompt = ChatPromptTemplate.fromMessages([
       [
@@ -287,10 +286,13 @@ Provide:
 
     const chain = prompt.pipe(model).pipe(new StringOutputParser());
 
-    const analysis = await chain.invoke({
-      query: userQuery,
-      matches,
-    });
+    const analysis = await chain.invoke(
+      {
+        query: userQuery,
+        matches,
+      },
+      signal ? { signal } : {}
+    );
 
     console.log('✅ Discovery completed');
 
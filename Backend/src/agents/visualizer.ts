@@ -1,11 +1,411 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { z } from 'zod';
 import { llm } from '../config/llm.js';
-import type { AgentState } from '../langgraph/state.js';
-import { detectNumericColumns, detectCategoricalColumns, detectDateColumns } from '../utils/dataAggregation.js';
+import type { AgentState, Dataset, PlanMeasure, QueryFilter, QueryPlan, Visualization } from '../langgraph/state.js';
+import { detectNumericColumns, detectCategoricalColumns, detectDateColumns, getTopValues } from '../utils/dataAggregation.js';
+import { executeQueryPlan, planFitsChart, SERIES_CHARTS } from '../utils/queryExecutor.js';
+import { getCombinedRows } from '../services/datasetCombiner.js';
+import { describePreviousTurn } from '../utils/conversation.js';
+import { isTransientError } from '../langgraph/resilience.js';
+import { buildVegaLiteSpec } from '../utils/vegaLite.js';
+import {
+  alternativePlans, describeCandidates, recommendCharts, snapToCandidates, type ChartCandidate,
+} from '../utils/chartRecommender.js';
+
+const FALLBACK_PLAN_WARNING = 'The chart uses a default layout because a query plan for your question could not be generated.';
+const FALLBACK_SET_WARNING = 'The charts use default layouts because plans for your question could not be generated.';
+
+// Overview answers show a few complementary charts rather than a wall of them
+const MAX_CHARTS = 4;
+// Recommended charts listed in the prompt; plans may still use any valid candidate
+const PROMPT_CANDIDATES = 12;
+
+// Schema for the query plan - the LLM only describes the query, the numbers are computed in code
+export const QueryPlanSchema = z.object({
+  chartType: z.enum([
+    'bar', 'stacked_bar', 'grouped_bar', 'line', 'area', 'pie', 'scatter', 'histogram', 'heatmap', 'boxplot', 'table',
+  ]),
+  title: z.string(),
+  description: z.string(),
+  filters: z.array(z.object({
+    column: z.string(),
+    operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'contains']),
+    value: z.string().describe('Comparison value. For "in", a comma-separated list of values'),
+  })),
+  groupBy: z.string().nullable().describe('Category or date column to group by (x-axis)'),
+  timeBucket: z.enum(['day', 'week', 'month', 'quarter', 'year']).nullable()
+    .describe('Bucket for date groupBy columns, null for categorical grouping'),
+  measure: z.string().nullable().describe('Numeric column to aggregate (y-axis), null for count'),
+  operation: z.enum(['sum', 'avg', 'count', 'min', 'max']),
+  xColumn: z.string().nullable().describe('Numeric x column, scatter charts only'),
+  seriesBy: z.string().nullable()
+    .describe('Second category column: one line, area or bar per value (stacked_bar/grouped_bar colours), rows for heatmap'),
+  extraMeasures: z.array(z.object({
+    column: z.string(),
+    operation: z.enum(['sum', 'avg', 'count', 'min', 'max']),
+    axis: z.enum(['left', 'right']).nullable().describe('right for a secondary y-axis, null to pick one from the values'),
+  })).describe('More numeric columns drawn as their own series next to measure (e.g. revenue vs target)'),
+  bins: z.number().nullable().describe('Number of bins, histogram only (null picks one from the row count)'),
+  sortBy: z.enum(['name', 'value']).nullable(),
+  sortDirection: z.enum(['asc', 'desc']).nullable(),
+  limit: z.number().nullable(),
+});
+
+export type RawQueryPlan = z.infer<typeof QueryPlanSchema>;
+
+// Schema for overview questions - a ranked set of plans, each showing the data from another angle
+const ChartSetSchema = z.object({
+  charts: z.array(QueryPlanSchema.extend({
+    role: z.enum(['trend', 'breakdown', 'distribution', 'comparison', 'relationship'])
+      .describe('What the chart adds to the overview'),
+  })).describe(`2 to ${MAX_CHARTS} complementary charts, most informative first`),
+});
+
+type RawChartSet = z.infer<typeof ChartSetSchema>;
+type ChartRole = NonNullable<Visualization['role']>;
 
 /**
- * Visualizer Agent - Generates visualization configurations based on data analysis
+ * Build a sensible plan from column types alone (used when the LLM fails)
  */
-export async function visualizerAgent(state: AgentState): Promise<Partial<AgentState>> {
+export function buildDefaultPlan(
+  datasetId: string,
+  datasetName: string,
+  numericColumns: string[],
+  categoricalColumns: string[],
+  dateColumns: string[]
+): QueryPlan {
+  const measure = numericColumns.find(c => !dateColumns.includes(c));
+  const dateColumn = dateColumns[0];
+  const category = categoricalColumns.find(c => !dateColumns.includes(c));
+  const operation = measure ? 'sum' : 'count';
+
+  if (dateColumn) {
+    return {
+      datasetId,
+      chartType: 'line',
+      title: `${measure ? `${measure} ` : 'Records '}over time`,
+      description: `${operation === 'sum' ? `Total ${measure}` : 'Number of records'} per month in ${datasetName}`,
+      filters: [],
+      groupBy: dateColumn,
+      timeBucket: 'month',
+      ...(measure ? { measure } : {}),
+      operation,
+    };
+  }
+
+  return {
+    datasetId,
+    chartType: 'bar',
+    title: `${measure ? `${measure} ` : 'Records '}by ${category || 'category'}`,
+    description: `${operation === 'sum' ? `Total ${measure}` : 'Number of records'} per ${category || 'category'} in ${datasetName}`,
+    filters: [],
+    ...(category ? { groupBy: category } : {}),
+    ...(measure ? { measure } : {}),
+    operation,
+  };
+}
+
+/**
+ * Default overview from column types alone: the measure over time, by its main category and its distribution
+ */
+export function buildDefaultChartSet(
+  datasetId: string,
+  datasetName: string,
+  numericColumns: string[],
+  categoricalColumns: string[],
+  dateColumns: string[]
+): Array<{ plan: QueryPlan; role: ChartRole }> {
+  const measure = numericColumns.find(c => !dateColumns.includes(c));
+  const category = categoricalColumns.find(c => !dateColumns.includes(c));
+  const set: Array<{ plan: QueryPlan; role: ChartRole }> = [];
+
+  if (dateColumns.length > 0) {
+    set.push({ plan: buildDefaultPlan(datasetId, datasetName, numericColumns, categoricalColumns, dateColumns), role: 'trend' });
+  }
+  if (category) {
+    set.push({ plan: buildDefaultPlan(datasetId, datasetName, numericColumns, categoricalColumns, []), role: 'breakdown' });
+  }
+  if (measure) {
+    set.push({
+      plan: {
+        datasetId,
+        chartType: 'histogram',
+        title: `Distribution of ${measure}`,
+        description: `How ${measure} is spread across the rows of ${datasetName}`,
+        filters: [],
+        measure,
+        operation: 'count',
+      },
+      role: 'distribution',
+    });
+  }
+  return set.length > 0
+    ? set
+    : [{ plan: buildDefaultPlan(datasetId, datasetName, numericColumns, categoricalColumns, dateColumns), role: 'breakdown' }];
+}
+
+/**
+ * Validate the LLM plan against the real columns, dropping anything that does not exist
+ */
+export function validatePlan(raw: RawQueryPlan, datasetId: string, columns: string[], fallback: QueryPlan): QueryPlan {
+  const known = (column: string | null | undefined) => (column && columns.includes(column) ? column : undefined);
+
+  const filters: QueryFilter[] = raw.filters
+    .filter(f => known(f.column))
+    .map(f => ({
+      column: f.column,
+      operator: f.operator,
+      value: f.operator === 'in' ? f.value.split(',').map(v => v.trim()) : f.value,
+    }));
+
+  const measure = known(raw.measure);
+  const groupBy = known(raw.groupBy);
+  const xColumn = known(raw.xColumn);
+  const multiSeries = SERIES_CHARTS.includes(raw.chartType);
+  const seriesBy = multiSeries || raw.chartType === 'heatmap' ? known(raw.seriesBy) : undefined;
+  const operation = measure || raw.operation === 'count' ? raw.operation : 'count';
+  // Extra measures add series next to the main measure; a seriesBy split takes precedence
+  const extraMeasures: PlanMeasure[] = multiSeries && measure && !seriesBy
+    ? (raw.extraMeasures || [])
+      .filter(m => known(m.column) && !(m.column === measure && m.operation === operation))
+      .map(m => ({ column: m.column, operation: m.operation, ...(m.axis ? { axis: m.axis } : {}) }))
+    : [];
+
+  // Charts missing the columns they are drawn from fall back to the default chart
+  if (!planFitsChart({ chartType: raw.chartType, groupBy, measure, xColumn, seriesBy, extraMeasures })) {
+    return { ...fallback, filters };
+  }
+
+  const plan: QueryPlan = {
+    datasetId,
+    chartType: raw.chartType,
+    title: raw.title || fallback.title,
+    description: raw.description,
+    filters,
+    operation,
+  };
+  if (groupBy) plan.groupBy = groupBy;
+  if (groupBy && raw.timeBucket) plan.timeBucket = raw.timeBucket;
+  if (measure) plan.measure = measure;
+  if (xColumn) plan.xColumn = xColumn;
+  if (seriesBy && seriesBy !== groupBy) plan.seriesBy = seriesBy;
+  if (extraMeasures.length > 0) plan.extraMeasures = extraMeasures;
+  if (raw.bins && raw.bins > 0 && raw.chartType === 'histogram') plan.bins = Math.round(raw.bins);
+  if (raw.sortBy) plan.sort = { by: raw.sortBy, direction: raw.sortDirection || 'desc' };
+  if (raw.limit && raw.limit > 0) plan.limit = Math.min(Math.round(raw.limit), 500);
+
+  return plan;
+}
+
+interface ColumnTypes {
+  numericColumns: string[];
+  categoricalColumns: string[];
+  dateColumns: string[];
+  // Charts that suit the data, best first
+  candidates: ChartCandidate[];
+}
+
+/**
+ * Describe the dataset to the LLM: columns by type, common category values, recommended charts,
+ * statistics and sample rows
+ */
+function describeData(state: AgentState, dataset: Dataset, rows: any[], columns: string[], columnTypes: ColumnTypes): string {
+  const { analysisResults } = state;
+  const { numericColumns, categoricalColumns, dateColumns } = columnTypes;
+
+  // Distinct values of categorical columns let the LLM write exact filters
+  const categoryValues = categoricalColumns
+    .map(col => {
+      const top = getTopValues(rows, col, 15);
+      return `- ${col}: ${top.map(t => t.value).join(', ')}`;
+    })
+    .join('\n');
+
+  // Build context about the data
+  const dataContext = `
+Dataset: ${dataset.name}
+Type: ${dataset.type}
+${dataset.combination ? `Combined from: ${dataset.summary}\n` : ''}Total Rows: ${rows.length}
+
+Columns (${columns.length}): ${columns.join(', ')}
+- Numeric: ${numericColumns.join(', ') || 'none'}
+- Categorical: ${categoricalColumns.join(', ') || 'none'}
+- Date/Time: ${dateColumns.join(', ') || 'none'}
+
+Most common values of categorical columns:
+${categoryValues || 'none'}
+
+Recommended charts (ranked by how well they suit the data):
+${describeCandidates(columnTypes.candidates.slice(0, PROMPT_CANDIDATES)) || 'none'}
+
+${(dataset as any).statistics ? `Column Statistics:\n${JSON.stringify((dataset as any).statistics, null, 2)}\n` : ''}
+
+${analysisResults ? `Analysis Plan:\n${typeof analysisResults === 'string' ? analysisResults : JSON.stringify(analysisResults)}\n` : ''}
+
+Sample rows (first 5 of ${rows.length}):
+${JSON.stringify(rows.slice(0, 5), null, 2)}
+`;
+
+  return dataContext;
+}
+
+/**
+ * Ask the LLM for a query plan over the dataset, falling back to a default plan
+ */
+async function generatePlan(
+  state: AgentState,
+  dataset: Dataset,
+  rows: any[],
+  columns: string[],
+  columnTypes: ColumnTypes,
+  config?: RunnableConfig
+): Promise<{ plan: QueryPlan; source: 'llm' | 'fallback' }> {
+  const { userQuery, isFollowUp, previousTurn } = state;
+  const { numericColumns, categoricalColumns, dateColumns } = columnTypes;
+  const dataContext = describeData(state, dataset, rows, columns, columnTypes);
+
+  // For follow-ups, the previous chart is the starting point
+  const followUpContext = isFollowUp && previousTurn ? `
+FOLLOW-UP REQUEST - edit the previous chart rather than starting over:
+${describePreviousTurn(previousTurn)}
+${previousTurn.visualization?.queryPlan ? `Previous query plan: ${JSON.stringify(previousTurn.visualization.queryPlan)}\n` : ''}Keep the previous chart type, grouping, measure and filters unless the user asks to change them.
+` : '';
+
+  const prompt = `You are a data visualization expert. Based on the user's query and dataset, write a QUERY PLAN for a SINGLE chart.
+The plan is executed in code over all ${rows.length} rows, so do NOT compute or invent any numbers yourself.
+
+User Query: "${userQuery}"
+${followUpContext}
+Data Context:
+${dataContext}
+
+Rules:
+1. Only use column names that appear in the column list above
+2. Draw one of the recommended charts: pick the highest ranked one that answers the question and keep its chartType, groupBy, seriesBy and xColumn; measure may be any numeric column
+3. For a date groupBy, set timeBucket (month is a good default)
+4. To compare several measures over the same grouping (e.g. revenue vs target), set measure to the first and list the others in extraMeasures; use axis "right" for a measure on a very different scale
+5. Pick the aggregation operation (sum, avg, count, min, max) that answers the question; use count with measure null to count rows
+6. Add filters only when the user restricts the data (e.g. a region, a year, a threshold); use values exactly as they appear in the data
+7. Use sortBy "value" with desc and a limit for "top N" questions; leave sort null for time series
+8. Title and description describe what the chart shows, without numbers`;
+
+  const fallbackPlan = buildDefaultPlan(dataset.id, dataset.name, numericColumns, categoricalColumns, dateColumns);
+  let plan: QueryPlan;
+  let planSource: 'llm' | 'fallback' = 'llm';
+
+  try {
+    console.log('🔄 Calling LLM for query plan generation...');
+    const structuredLLM = llm.withStructuredOutput<RawQueryPlan>(QueryPlanSchema, { name: 'query_plan' });
+    const rawPlan = await structuredLLM.invoke(prompt, config);
+    plan = validatePlan(rawPlan, dataset.id, columns, fallbackPlan);
+  } catch (planError) {
+    // Transient failures are retried by the node's retry policy
+    if (config?.signal?.aborted || isTransientError(planError)) throw planError;
+    console.error('❌ Failed to generate query plan, using default plan:', planError);
+    plan = fallbackPlan;
+    planSource = 'fallback';
+  }
+
+  return { plan, source: planSource };
+}
+
+/**
+ * Ask the LLM for a ranked set of complementary charts for an overview question,
+ * falling back to a default trend, breakdown and distribution
+ */
+async function generateChartSet(
+  state: AgentState,
+  dataset: Dataset,
+  rows: any[],
+  columns: string[],
+  columnTypes: ColumnTypes,
+  config?: RunnableConfig
+): Promise<{ charts: Array<{ plan: QueryPlan; role: ChartRole }>; source: 'llm' | 'fallback' }> {
+  const { numericColumns, categoricalColumns, dateColumns } = columnTypes;
+  const fallbackSet = buildDefaultChartSet(dataset.id, dataset.name, numericColumns, categoricalColumns, dateColumns);
+
+  const prompt = `You are a data visualization expert. The user asks for an overview of the data.
+Write QUERY PLANS for 2 to ${MAX_CHARTS} charts that each show the data from another angle, most informative first.
+The plans are executed in code over all ${rows.length} rows, so do NOT compute or invent any numbers yourself.
+
+User Query: "${state.userQuery}"
+
+Data Context:
+${describeData(state, dataset, rows, columns, columnTypes)}
+
+Rules:
+1. Only use column names that appear in the column list above
+2. Give each chart a role and do not repeat one: trend (line or area over the date column with a timeBucket), breakdown (bar or pie by a category), distribution (histogram of a measure, or a boxplot across a category), comparison (stacked_bar, grouped_bar or heatmap over two categories, or extraMeasures), relationship (scatter of two numeric columns)
+3. Every chart must be one of the recommended charts; skip roles none of them supports, e.g. no trend without a date column
+4. Add filters only when the user restricts the data; use values exactly as they appear in the data
+5. Titles and descriptions describe what each chart shows, without numbers`;
+
+  try {
+    console.log('🔄 Calling LLM for an overview chart set...');
+    const structuredLLM = llm.withStructuredOutput<RawChartSet>(ChartSetSchema, { name: 'chart_set' });
+    const rawSet = await structuredLLM.invoke(prompt, config);
+
+    // Repeated charts are dropped, and so are later plans that fell back to the default chart
+    const fallbackPlan = buildDefaultPlan(dataset.id, dataset.name, numericColumns, categoricalColumns, dateColumns);
+    const seen = new Set<string>();
+    const charts: Array<{ plan: QueryPlan; role: ChartRole }> = [];
+    for (const { role, ...raw } of rawSet.charts) {
+      const { plan } = snapToCandidates(validatePlan(raw, dataset.id, columns, fallbackPlan), columnTypes.candidates);
+      const key = [plan.chartType, plan.groupBy, plan.seriesBy, plan.measure, plan.xColumn].join('|');
+      if (seen.has(key) || (plan.chartType !== raw.chartType && charts.length > 0)) continue;
+      seen.add(key);
+      charts.push({ plan, role });
+    }
+    if (charts.length === 0) throw new Error('The chart set has no valid chart');
+    return { charts: charts.slice(0, MAX_CHARTS), source: 'llm' };
+  } catch (setError) {
+    // Transient failures are retried by the node's retry policy
+    if (config?.signal?.aborted || isTransientError(setError)) throw setError;
+    console.error('❌ Failed to generate a chart set, using the default overview:', setError);
+    return { charts: fallbackSet, source: 'fallback' };
+  }
+}
+
+/**
+ * Execute a plan over the rows and describe the chart: data, series, axes and Vega-Lite spec.
+ * With candidates, the best other ways to draw it come along as alternatives.
+ */
+function buildVisualization(rows: any[], plan: QueryPlan, candidates: ChartCandidate[] = []): Visualization {
+  const result = executeQueryPlan(rows, plan);
+
+  const visualization: Visualization = {
+    type: plan.chartType,
+    title: plan.title,
+    data: result.data,
+    filters: plan.filters,
+    queryPlan: plan,
+    rowsScanned: result.rowsScanned,
+    rowsMatched: result.rowsMatched,
+  };
+  if (result.series) visualization.series = result.series;
+  if (plan.description) visualization.description = plan.description;
+  // Histograms bin the measure along x and count rows; box plots show the measure itself
+  const xAxis = plan.chartType === 'scatter' ? plan.xColumn
+    : plan.chartType === 'histogram' ? plan.measure
+    : plan.groupBy;
+  if (xAxis) visualization.xAxis = xAxis;
+  visualization.yAxis = plan.chartType === 'histogram' ? 'count'
+    : plan.chartType === 'boxplot' ? plan.measure!
+    : plan.measure ? `${plan.operation}(${plan.measure})` : 'count';
+  const spec = buildVegaLiteSpec(visualization);
+  if (spec) visualization.spec = spec;
+  const alternatives = alternativePlans(plan, candidates).map(alternative => buildVisualization(rows, alternative));
+  if (alternatives.length > 0) visualization.alternatives = alternatives;
+  return visualization;
+}
+
+/**
+ * Visualizer Agent - Asks the LLM for a typed query plan, then computes the chart data in code
+ */
+export async function visualizerAgent(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentState>> {
   console.log('\n╔════════════════════════════════════════╗');
   console.log('║      VISUALIZER AGENT START            ║');
   console.log('╚════════════════════════════════════════╝');
@@ -16,251 +416,139 @@ export async function visualizerAgent(state: AgentState): Promise<Partial<AgentS
   console.log('');
 
   try {
-    const { userQuery, relevantDatasets, analysisResults } = state;
+    const { relevantDatasets, requireConfirmation, planConfirmed, queryPlan } = state;
 
+    // Without a chart the summarizer still answers in text
     if (!relevantDatasets || relevantDatasets.length === 0) {
       return {
-        error: 'No datasets available for visualization',
+        warnings: ['No chart was drawn because no dataset was available.'],
         nextAgent: 'summarizer',
       };
     }
 
-    // Get the first dataset with sample data
-    const dataset = relevantDatasets[0];
+    // Use the first dataset, unless the user confirmed a plan for another one
+    const dataset = (planConfirmed && queryPlan && relevantDatasets.find(d => d.id === queryPlan.datasetId))
+      || relevantDatasets[0];
 
     if (!dataset) {
       return {
-        error: 'Dataset not found',
+        warnings: ['No chart was drawn because the dataset was not found.'],
         nextAgent: 'summarizer',
       };
     }
 
-    // Use aggregatedData if available, otherwise fall back to sampleRows
-    const dataForVisualization = (dataset as any).aggregatedData || (dataset as any).sampleRows || [];
-    const dataPointsAvailable = dataForVisualization.length;
-
-    console.log(`   📊 Data points available for visualization: ${dataPointsAvailable}`);
+    // The plan is executed over every row we have, not just the sample;
+    // combined datasets are rebuilt from their sources
+    const rows = getCombinedRows(dataset, relevantDatasets);
+    console.log(`   📊 Rows available for query execution: ${rows.length}`);
 
     // Detect column types to help with visualization selection
-    const columns = dataset.columns || [];
-    const numericColumns = dataForVisualization.length > 0 ? detectNumericColumns(dataForVisualization, columns) : [];
-    const categoricalColumns = dataForVisualization.length > 0 ? detectCategoricalColumns(dataForVisualization, columns) : [];
-    const dateColumns = dataForVisualization.length > 0 ? detectDateColumns(dataForVisualization, columns) : [];
+    const columns = dataset.columns || (rows[0] ? Object.keys(rows[0]) : []);
+    const numericColumns = rows.length > 0 ? detectNumericColumns(rows, columns) : [];
+    const categoricalColumns = rows.length > 0 ? detectCategoricalColumns(rows, columns) : [];
+    const dateColumns = rows.length > 0 ? detectDateColumns(rows, columns) : [];
 
     console.log(`   📈 Numeric columns: ${numericColumns.join(', ') || 'none'}`);
     console.log(`   🏷️  Categorical columns: ${categoricalColumns.join(', ') || 'none'}`);
     console.log(`   📅 Date columns: ${dateColumns.join(', ') || 'none'}`);
 
-    // Build context about the data
-    const dataContext = `
-Dataset: ${dataset.name}
-Type: ${dataset.type}
-Total Rows in Dataset: ${dataset.rowCount || 'Unknown'}
-Available Data Rows: ${dataPointsAvailable}
-
-Columns (${columns.length}):
-- Numeric: ${numericColumns.join(', ') || 'none'}
-- Categorical: ${categoricalColumns.join(', ') || 'none'}
-- Date/Time: ${dateColumns.join(', ') || 'none'}
+    const candidates = rows.length > 0 ? recommendCharts(rows, columns) : [];
+    console.log(`   🧭 Recommended charts: ${candidates.slice(0, 5).map(c => `${c.chartType} (${c.score})`).join(', ') || 'none'}`);
+    const columnTypes = { numericColumns, categoricalColumns, dateColumns, candidates };
 
-${(dataset as any).statistics ? `Column Statistics:\n${JSON.stringify((dataset as any).statistics, null, 2)}\n` : ''}
+    // Overview questions get a ranked set of charts; plans the user confirms are always a single chart
+    if (state.metadata?.wantsOverview && !requireConfirmation && !planConfirmed) {
+      const { charts, source } = await generateChartSet(state, dataset, rows, columns, columnTypes, config);
+      const visualizations = charts.map(({ plan, role }) => ({ ...buildVisualization(rows, plan), role }));
+      const [first] = visualizations;
 
-${analysisResults ? `Analysis Plan:\n${typeof analysisResults === 'string' ? analysisResults : JSON.stringify(analysisResults)}\n` : ''}
+      console.log('✅ Visualizer Complete!');
+      console.log(`   Charts: ${visualizations.map(v => `${v.type} (${v.role})`).join(', ')}`);
+      console.log('╚════════════════════════════════════════╝\n');
 
-ACTUAL DATA (${dataPointsAvailable} rows):
-${JSON.stringify(dataForVisualization, null, 2)}
-`;
-
-    const prompt = `You are a data visualization expert. Based on the user's query and dataset, generate a SINGLE visualization configuration.
-
-User Query: "${userQuery}"
-
-Data Context:
-${dataContext}
-
-IMPORTANT: You have access to ${dataPointsAvailable} rows of ACTUAL DATA from the dataset. Use this real data to create meaningful visualizations.
-
-Generate ONE JSON visualization config (NOT an array) with this structure:
-
-For BAR, LINE, PIE charts:
-{
-  "type": "bar" | "line" | "pie",
-  "title": "Chart Title",
-  "xAxis": "column_name_for_x_axis",
-  "yAxis": "column_name_for_y_axis",
-  "data": [
-    { "name": "category", "value": actual_number }
-  ],
-  "description": "What this visualization shows"
-}
-
-For SCATTER charts:
-{
-  "type": "scatter",
-  "title": "Chart Title",
-  "xAxis": "column_name_for_x_axis",
-  "yAxis": "column_name_for_y_axis",
-  "data": [
-    { "x": actual_x_value, "y": actual_y_value, "name": "optional_label" }
-  ],
-  "description": "What this visualization shows"
-}
+      return {
+        visualization: first!,
+        visualizations,
+        queryPlan: first!.queryPlan!,
+        filters: first!.filters || [],
+        visualizationProposal: null,
+        nextAgent: 'summarizer',
+        ...(source === 'fallback' ? { warnings: [FALLBACK_SET_WARNING] } : {}),
+        metadata: {
+          ...state.metadata,
+          hasVisualization: true,
+          queryPlanSource: source,
+        },
+      };
+    }
 
-Rules:
-1. MUST use the actual data provided above - do NOT invent mock data
-2. Choose the most appropriate chart type for the query and data
-3. Use actual column names from the dataset columns
-4. Aggregate or summarize the data intelligently based on the query
-5. For time-series: use line charts with date/time on x-axis
-6. For categorical comparisons: use bar charts with categories
-7. For proportions: use pie charts with percentage breakdowns
-8. For correlations/relationships: use scatter plots with x,y coordinates
-9. Include meaningful aggregations (sum, average, count, etc.) when appropriate
-10. Limit visualization to 10-20 most relevant data points if dataset is large
-11. For scatter plots, sample data evenly across the range to show the pattern
-
-Examples of good aggregations:
-- Revenue by Region: use bar chart with Sum revenue grouped by region
-- Sales over Time: use line chart with Sum/count sales grouped by date/month
-- Product Performance: use bar chart comparing metrics across top products
-- Customer Segments: use pie chart with Count or sum by segment
-- Discount vs Profit: use scatter plot with discount on x-axis and profit on y-axis
-
-Return ONLY a single valid JSON object (NOT an array), no markdown or explanation.`;
-
-    console.log('🔄 Calling LLM for visualization generation...');
-    const response = await llm.invoke(prompt);
-    let vizContent = response.content as string;
-
-    // Clean up response - remove markdown code blocks if present
-    vizContent = vizContent.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-
-    console.log('📊 Raw LLM response:', vizContent.substring(0, 200));
-
-    // Try to parse the visualization config
-    let visualization;
-    try {
-      // Try to fix common JSON issues before parsing
-      let cleanedContent = vizContent
-        .replace(/{\s*name"/g, '{ "name"')  // Fix missing opening quote: {name" -> { "name"
-        .replace(/,\s*{name"/g, ', {"name"') // Fix in arrays: ,{name" -> ,{"name"
-        .replace(/"\s*:\s*"([^"]*)"(?=[,}])/g, '": "$1"') // Ensure proper quote closure
-        .replace(/,\s*}/g, '}')  // Remove trailing commas before }
-        .replace(/,\s*]/g, ']'); // Remove trailing commas before ]
-
-      const parsed = JSON.parse(cleanedContent);
-
-      // Handle both array and object responses from LLM
-      if (Array.isArray(parsed)) {
-        // Gemini sometimes returns an array of visualizations
-        visualization = parsed[0]; // Take the first one
-        console.log('📊 LLM returned array of visualizations, using first one');
-      } else {
-        // Single visualization object
-        visualization = parsed;
+    let plan: QueryPlan;
+    let planSource: 'llm' | 'fallback' | 'confirmed';
+    const warnings: string[] = [];
+
+    if (planConfirmed && queryPlan) {
+      // The user already approved (and possibly edited) this plan
+      plan = queryPlan;
+      planSource = 'confirmed';
+    } else {
+      ({ plan, source: planSource } = await generatePlan(state, dataset, rows, columns, columnTypes, config));
+      if (planSource === 'fallback') warnings.push(FALLBACK_PLAN_WARNING);
+
+      // The LLM picks among the recommended charts; anything else is redrawn as the closest one
+      const snap = snapToCandidates(plan, candidates);
+      if (snap.snapped) {
+        warnings.push(`A ${plan.chartType.replace('_', ' ')} chart does not suit these columns, so a ${snap.plan.chartType.replace('_', ' ')} chart is drawn instead.`);
+        plan = snap.plan;
       }
 
-      console.log('✅ Visualizer: Visualization config generated');
-      console.log('   Type:', visualization.type);
-      console.log('   Title:', visualization.title);
-      console.log('   Data points:', visualization.data?.length || 0);
-    } catch (parseError) {
-      console.error('❌ Failed to parse visualization JSON:', parseError);
-      console.error('Response was:', vizContent);
-
-      // Try one more time with more aggressive cleaning
-      try {
-        // Extract just the data array and reconstruct
-        const dataMatch = vizContent.match(/"data"\s*:\s*\[([\s\S]*?)\]/);
-        const titleMatch = vizContent.match(/"title"\s*:\s*"([^"]+)"/);
-        const typeMatch = vizContent.match(/"type"\s*:\s*"([^"]+)"/);
-        const descMatch = vizContent.match(/"description"\s*:\s*"([^"]+)"/);
-        const xAxisMatch = vizContent.match(/"xAxis"\s*:\s*"([^"]+)"/);
-        const yAxisMatch = vizContent.match(/"yAxis"\s*:\s*"([^"]+)"/);
-
-        if (dataMatch && dataMatch[1] && titleMatch && typeMatch) {
-          const dataStr = dataMatch[1];
-          const vizType = typeMatch[1];
-          let data: any[] = [];
-
-          // Check if it's a scatter plot (has x,y format)
-          if (vizType === 'scatter') {
-            // Try to extract x,y pairs
-            const scatterEntries = dataStr.match(/\{\s*"?x"?\s*:\s*([0-9.-]+)\s*,\s*"?y"?\s*:\s*([0-9.-]+)[^}]*\}/g);
-
-            if (scatterEntries) {
-              data = scatterEntries.map(entry => {
-                const xMatch = entry.match(/"?x"?\s*:\s*([0-9.-]+)/);
-                const yMatch = entry.match(/"?y"?\s*:\s*([0-9.-]+)/);
-                const nameMatch = entry.match(/"?name"?\s*:\s*"([^"]+)"/);
-                return {
-                  x: xMatch && xMatch[1] ? parseFloat(xMatch[1]) : 0,
-                  y: yMatch && yMatch[1] ? parseFloat(yMatch[1]) : 0,
-                  name: nameMatch && nameMatch[1] ? nameMatch[1] : undefined
-                };
-              });
-            }
-          } else {
-            // Extract name-value pairs for other chart types
-            const entries = dataStr.match(/\{\s*"?name"?\s*:\s*"([^"]+)"\s*,\s*"?value"?\s*:\s*([0-9.-]+)\s*\}/g);
-
-            if (entries) {
-              data = entries.map(entry => {
-                const nameMatch = entry.match(/"?name"?\s*:\s*"([^"]+)"/);
-                const valueMatch = entry.match(/"?value"?\s*:\s*([0-9.-]+)/);
-                return {
-                  name: nameMatch && nameMatch[1] ? nameMatch[1] : 'Unknown',
-                  value: valueMatch && valueMatch[1] ? parseFloat(valueMatch[1]) : 0
-                };
-              });
-            }
-          }
-
-          visualization = {
-            type: vizType as any,
-            title: titleMatch[1],
-            description: descMatch ? descMatch[1] : undefined,
-            xAxis: xAxisMatch ? xAxisMatch[1] : undefined,
-            yAxis: yAxisMatch ? yAxisMatch[1] : undefined,
-            data
-          };
-
-          console.log('✅ Recovered visualization via regex extraction');
-          console.log('   Type:', vizType);
-          console.log('   Data points:', data.length);
-        } else {
-          throw new Error('Could not extract visualization data');
-        }
-      } catch (fallbackError) {
-        console.error('❌ Fallback parsing also failed:', fallbackError);
-
-        // Final fallback: create a simple default visualization
-        visualization = {
-          type: 'bar',
-          title: 'Data Overview',
-          description: 'Unable to generate custom visualization',
-          data: [],
+      if (requireConfirmation) {
+        console.log('⏸️  Waiting for the user to confirm the query plan');
+        console.log('╚════════════════════════════════════════╝\n');
+        return {
+          queryPlan: plan,
+          visualizationProposal: {
+            plan,
+            datasets: relevantDatasets.map(d => ({ id: d.id, name: d.name, columns: d.columns || [] })),
+            ...(dataset.combination ? { combination: dataset.combination } : {}),
+          },
+          nextAgent: 'confirm_visualization',
+          ...(warnings.length > 0 ? { warnings } : {}),
+          metadata: { ...state.metadata, queryPlanSource: planSource },
         };
       }
     }
 
+    console.log('🧮 Executing query plan:', JSON.stringify(plan));
+    const visualization = buildVisualization(rows, plan, candidates);
+
     console.log('✅ Visualizer Complete!');
+    console.log('   Type:', visualization.type);
+    console.log('   Title:', visualization.title);
+    console.log(`   Data points: ${visualization.data.length} (from ${visualization.rowsMatched}/${visualization.rowsScanned} rows)`);
     console.log('╚════════════════════════════════════════╝\n');
 
     return {
       visualization,
+      visualizations: [visualization],
+      queryPlan: plan,
+      filters: plan.filters,
+      visualizationProposal: null,
       nextAgent: 'summarizer', // Always go to summarizer after visualization
+      ...(warnings.length > 0 ? { warnings } : {}),
       metadata: {
         ...state.metadata,
         hasVisualization: true,
+        queryPlanSource: planSource,
       },
     };
   } catch (error) {
+    // Transient failures are retried by the node's retry policy
+    if (isTransientError(error)) throw error;
     console.error('❌ Visualizer Agent error:', error);
     console.error('Stack:', (error as Error).stack);
     console.log('╚════════════════════════════════════════╝\n');
     return {
-      error: `Visualizer agent failed: ${error}`,
+      warnings: [`No chart was drawn: ${(error as Error).message || error}`],
       nextAgent: 'summarizer',
     };
   }
@@ -1,5 +1,6 @@
 import { ChromaClient } from 'chromadb';
 import dotenv from 'dotenv';
+import { OFFLINE_MODE } from './offline.js';
 
 dotenv.config();
 
@@ -17,6 +18,7 @@ export const COLLECTIONS = {
   DATASETS: 'datasets',
   FILES: 'files',
   CHAT_HISTORY: 'chat_history',
+  CHAT_SCOPES: 'chat_scopes',
   INSIGHTS: 'insights',
   WORKFLOWS: 'workflows',
   WORKFLOW_EXECUTIONS: 'workflow_executions',
@@ -25,11 +27,145 @@ export const COLLECTIONS = {
 // Store collection instances
 let collections: { [key: string]: any } = {};
 
+interface MemoryRecord {
+  embedding?: number[];
+  metadata: Record<string, any>;
+  document?: string;
+}
+
+interface CollectionRecords {
+  ids: string[];
+  embeddings?: number[][];
+  metadatas?: object[];
+  documents?: string[];
+}
+
+/**
+ * Match metadata against a Chroma `where` filter ($eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $and, $or)
+ */
+function matchesWhere(metadata: Record<string, any>, where?: Record<string, any>): boolean {
+  if (!where) {
+    return true;
+  }
+
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === '$and') return condition.every((c: Record<string, any>) => matchesWhere(metadata, c));
+    if (key === '$or') return condition.some((c: Record<string, any>) => matchesWhere(metadata, c));
+
+    const value = metadata[key];
+    if (condition === null || typeof condition !== 'object') {
+      return value === condition;
+    }
+    return Object.entries(condition).every(([op, expected]: [string, any]) => {
+      switch (op) {
+        case '$eq': return value === expected;
+        case '$ne': return value !== expected;
+        case '$gt': return value > expected;
+        case '$gte': return value >= expected;
+        case '$lt': return value < expected;
+        case '$lte': return value <= expected;
+        case '$in': return expected.includes(value);
+        case '$nin': return !expected.includes(value);
+        default: return false;
+      }
+    });
+  });
+}
+
+function cosineDistance(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA && normB ? 1 - dot / Math.sqrt(normA * normB) : 1;
+}
+
+/**
+ * In-memory stand-in for a Chroma collection, used in offline mode.
+ * Implements the subset of the collection API this codebase calls
+ */
+export class InMemoryCollection {
+  private records = new Map<string, MemoryRecord>();
+
+  constructor(public name: string) {}
+
+  async add(records: CollectionRecords) {
+    await this.upsert(records);
+  }
+
+  async upsert({ ids, embeddings, metadatas, documents }: CollectionRecords) {
+    ids.forEach((id, index) => {
+      const record: MemoryRecord = { metadata: { ...(metadatas?.[index] || {}) } };
+      const embedding = embeddings?.[index];
+      const document = documents?.[index];
+      if (embedding) record.embedding = embedding;
+      if (document !== undefined) record.document = document;
+      this.records.set(id, record);
+    });
+  }
+
+  private select(ids?: string[], where?: Record<string, any>): [string, MemoryRecord][] {
+    return Array.from(this.records.entries())
+      .filter(([id, record]) => (!ids || ids.includes(id)) && matchesWhere(record.metadata, where));
+  }
+
+  async get({ ids, where }: { ids?: string[]; where?: Record<string, any> } = {}) {
+    const matches = this.select(ids, where);
+    return {
+      ids: matches.map(([id]) => id),
+      metadatas: matches.map(([, record]) => record.metadata),
+      documents: matches.map(([, record]) => record.document ?? null),
+      embeddings: matches.map(([, record]) => record.embedding ?? null),
+    };
+  }
+
+  async query({ queryEmbeddings, nResults = 10, where }: {
+    queryEmbeddings: number[][];
+    nResults?: number;
+    where?: Record<string, any>;
+  }) {
+    const candidates = this.select(undefined, where).filter(([, record]) => record.embedding);
+    const results = queryEmbeddings.map(query => candidates
+      .map(([id, record]) => ({ id, record, distance: cosineDistance(query, record.embedding!) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, nResults));
+
+    return {
+      ids: results.map(r => r.map(m => m.id)),
+      metadatas: results.map(r => r.map(m => m.record.metadata)),
+      documents: results.map(r => r.map(m => m.record.document ?? null)),
+      distances: results.map(r => r.map(m => m.distance)),
+    };
+  }
+
+  async delete({ ids, where }: { ids?: string[]; where?: Record<string, any> } = {}) {
+    for (const [id] of this.select(ids, where)) {
+      this.records.delete(id);
+    }
+  }
+
+  async count() {
+    return this.records.size;
+  }
+}
+
 /**
  * Initialize ChromaDB collections
  */
 export async function initializeChromaDB() {
   try {
+    if (OFFLINE_MODE) {
+      for (const name of Object.values(COLLECTIONS)) {
+        collections[name] = new InMemoryCollection(name);
+      }
+      console.log('✅ ChromaDB replaced by in-memory collections (offline mode)');
+      return;
+    }
+
     if (!CHROMA_ENABLED) {
       console.log('ℹ️  ChromaDB disabled (optional for Tableau demo)');
       console.log('   Tableau Discovery Agent will work independently');
@@ -59,6 +195,13 @@ export async function initializeChromaDB() {
     });
     console.log('✅ Created/loaded chat history collection');
 
+    // Get or create chat scopes collection
+    collections[COLLECTIONS.CHAT_SCOPES] = await chromaClient.getOrCreateCollection({
+      name: COLLECTIONS.CHAT_SCOPES,
+      metadata: { description: 'Datasets and views pinned to chat sessions' },
+    });
+    console.log('✅ Created/loaded chat scopes collection');
+
     // Get or create insights collection
     collections[COLLECTIONS.INSIGHTS] = await chromaClient.getOrCreateCollection({
       name: COLLECTIONS.INSIGHTS,
@@ -0,0 +1,204 @@
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BindToolsInput,
+} from '@langchain/core/language_models/chat_models';
+import type { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { Embeddings } from '@langchain/core/embeddings';
+import { AIMessage, AIMessageChunk, type BaseMessage, type MessageContent } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+import { ChatGenerationChunk } from '@langchain/core/outputs';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import type { Runnable } from '@langchain/core/runnables';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
+
+/**
+ * A script rule matches when every regex it sets matches (case-insensitive):
+ * `query` is tested against the quoted `User Query: "..."` in the prompt, `prompt` against the whole prompt
+ */
+export interface ScriptRule {
+  query?: string;
+  prompt?: string;
+}
+
+export interface LLMScript {
+  // Text replies, first match wins
+  responses: Array<ScriptRule & { content: string }>;
+  // Tool call arguments per tool name (e.g. classify_intent, query_plan), first match wins.
+  // Arguments are merged over defaults generated from the tool's JSON schema
+  toolCalls?: Record<string, Array<ScriptRule & { args: Record<string, unknown> }>>;
+}
+
+export interface ScriptedChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: BindToolsInput[];
+}
+
+const NO_MATCH_RESPONSE = 'No scripted response matched this prompt.';
+
+function contentToText(content: MessageContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content.map(part => ('text' in part && typeof part.text === 'string' ? part.text : '')).join('');
+}
+
+function matchesRule(rule: ScriptRule, query: string, prompt: string): boolean {
+  return (!rule.query || new RegExp(rule.query, 'i').test(query))
+    && (!rule.prompt || new RegExp(rule.prompt, 'i').test(prompt));
+}
+
+/**
+ * Smallest value that satisfies a JSON schema: first enum value, null when nullable, empty otherwise
+ */
+function sampleFromSchema(schema: Record<string, any> | undefined): unknown {
+  if (!schema) {
+    return null;
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum[0];
+  }
+  const variants: Record<string, any>[] | undefined = schema.anyOf || schema.oneOf;
+  if (variants) {
+    return variants.some(v => v.type === 'null') ? null : sampleFromSchema(variants[0]);
+  }
+  const type = Array.isArray(schema.type)
+    ? (schema.type.includes('null') ? 'null' : schema.type[0])
+    : schema.type;
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value as Record<string, any>)])
+      );
+    case 'array':
+      return [];
+    case 'string':
+      return '';
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Chat model that answers from a script instead of an API.
+ * Supports tool calling, so `withStructuredOutput` works the same way as with the real providers
+ */
+export class ScriptedChatModel extends BaseChatModel<ScriptedChatModelCallOptions> {
+  constructor(private script: LLMScript) {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'scripted';
+  }
+
+  override bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<ScriptedChatModelCallOptions>
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, ScriptedChatModelCallOptions> {
+    return this.withConfig({ ...kwargs, tools });
+  }
+
+  /**
+   * Build the scripted reply for a prompt
+   */
+  private reply(messages: BaseMessage[], options: this['ParsedCallOptions']): AIMessage {
+    const prompt = messages.map(m => contentToText(m.content)).join('\n');
+    const query = prompt.match(/User Query:\s*"?([^"\n]*)/)?.[1] ?? prompt;
+
+    const tool = options.tools?.[0];
+    if (tool) {
+      const { function: fn } = convertToOpenAITool(tool);
+      const rule = this.script.toolCalls?.[fn.name]?.find(r => matchesRule(r, query, prompt));
+      const defaults = sampleFromSchema(fn.parameters as Record<string, any>) as Record<string, unknown>;
+      return new AIMessage({
+        content: '',
+        tool_calls: [{ id: `call_${fn.name}`, name: fn.name, args: { ...defaults, ...rule?.args } }],
+      });
+    }
+
+    const rule = this.script.responses.find(r => matchesRule(r, query, prompt));
+    return new AIMessage(rule?.content ?? NO_MATCH_RESPONSE);
+  }
+
+  async _generate(messages: BaseMessage[], options: this['ParsedCallOptions']): Promise<ChatResult> {
+    const message = this.reply(messages, options);
+    return {
+      generations: [{ text: contentToText(message.content), message }],
+    };
+  }
+
+  // Streams the reply word by word so token streaming can be exercised offline
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.reply(messages, options);
+    if (message.tool_calls?.length) {
+      yield new ChatGenerationChunk({
+        text: '',
+        message: new AIMessageChunk({
+          content: '',
+          tool_call_chunks: message.tool_calls.map((call, index) => ({
+            id: call.id || `call_${call.name}`,
+            name: call.name,
+            args: JSON.stringify(call.args),
+            index,
+          })),
+        }),
+      });
+      return;
+    }
+
+    for (const token of contentToText(message.content).split(/(?<=\s)/)) {
+      const chunk = new ChatGenerationChunk({ text: token, message: new AIMessageChunk(token) });
+      yield chunk;
+      await runManager?.handleLLMNewToken(token, undefined, undefined, undefined, undefined, { chunk });
+    }
+  }
+}
+
+/**
+ * Deterministic embeddings from hashed words: texts that share words get similar vectors,
+ * so semantic search still ranks sensibly without an embedding API
+ */
+export class HashEmbeddings extends Embeddings {
+  constructor(private vectorSize: number = 768) {
+    super({});
+  }
+
+  // FNV-1a
+  private hash(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.vectorSize).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+      const hash = this.hash(word);
+      vector[hash % this.vectorSize]! += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) {
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map(v => v / norm);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embedQuery(text)));
+  }
+}
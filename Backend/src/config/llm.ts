@@ -1,45 +1,32 @@
 import {
-  ChatGoogleGenerativeAI,
-  GoogleGenerativeAIEmbeddings,
-} from "@langchain/google-genai";
-import dotenv from "dotenv";
-
-dotenv.config();
-
-const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || "";
-
-if (!GOOGLE_API_KEY || GOOGLE_API_KEY === "your_google_gemini_api_key_here") {
-  console.warn("⚠️  GOOGLE_API_KEY not set. LLM features will not work.");
-  console.warn("⚠️  Get your API key from: https://aistudio.google.com/apikey");
+  getChatModel,
+  getEmbeddings,
+  getProvider,
+  getChatProviderName,
+  getEmbeddingProviderName,
+} from "./providers.js";
+
+// Warn early when the configured providers cannot work
+for (const name of new Set([getChatProviderName(), getEmbeddingProviderName()])) {
+  const problem = getProvider(name).checkConfig?.();
+  if (problem) {
+    console.warn(`⚠️  ${problem} LLM features will not work.`);
+  }
 }
 
-// LLM instances using Google Gemini
-export const llm = new ChatGoogleGenerativeAI({
-  model: process.env.GEMINI_MODEL || "gemini-2.5-flash",
-  temperature: 0.7,
-  apiKey: GOOGLE_API_KEY,
-  maxRetries: 2,
-});
+console.log(
+  `🤖 LLM provider: ${getProvider(getChatProviderName()).label}, embeddings: ${getProvider(getEmbeddingProviderName()).label}`
+);
+
+// LLM instances from the configured provider (LLM_PROVIDER)
+export const llm = getChatModel("main");
 
-export const fastLLM = new ChatGoogleGenerativeAI({
-  model: "gemini-2.5-flash",
-  temperature: 0.5,
-  apiKey: GOOGLE_API_KEY,
-  maxRetries: 2,
-});
+export const fastLLM = getChatModel("fast");
 
-export const codeLLM = new ChatGoogleGenerativeAI({
-  model: process.env.GEMINI_CODE_MODEL || "gemini-2.5-flash",
-  temperature: 0.2,
-  apiKey: GOOGLE_API_KEY,
-  maxRetries: 2,
-});
+export const codeLLM = getChatModel("code");
 
-// Embeddings using Google Gemini
-export const embeddings = new GoogleGenerativeAIEmbeddings({
-  model: "text-embedding-004",
-  apiKey: GOOGLE_API_KEY,
-});
+// Embeddings from the configured provider (EMBEDDING_PROVIDER, defaults to LLM_PROVIDER)
+export const embeddings = getEmbeddings();
 
 // Model configurations
 export const MODEL_CONFIGS = {
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Offline mode: scripted LLM, hash embeddings, fake search, in-memory ChromaDB and fixture
+// Tableau content, so the backend runs end to end without any network or API keys
+export const OFFLINE_MODE = process.env.OFFLINE_MODE === 'true';
+
+// Offline mode signs every request in without checking anything, so it must never serve real users
+if (OFFLINE_MODE && process.env.NODE_ENV === 'production') {
+  throw new Error('OFFLINE_MODE=true is not allowed when NODE_ENV=production');
+}
+
+export const OFFLINE_FIXTURES_DIR = process.env.OFFLINE_FIXTURES_DIR || path.join(__dirname, '../../fixtures/offline');
+
+// Signed-in user for every request in offline mode
+export const OFFLINE_USER = {
+  id: 'offline-user',
+  email: 'offline@localhost',
+  name: 'Offline User',
+};
+
+const jsonFixtures = new Map<string, unknown>();
+
+/**
+ * Absolute path of a fixture file
+ */
+export function getFixturePath(name: string): string {
+  return path.join(OFFLINE_FIXTURES_DIR, name);
+}
+
+/**
+ * Load (and cache) a JSON fixture
+ */
+export function loadJsonFixture<T>(name: string): T {
+  if (!jsonFixtures.has(name)) {
+    jsonFixtures.set(name, JSON.parse(fs.readFileSync(getFixturePath(name), 'utf-8')));
+  }
+  return jsonFixtures.get(name) as T;
+}
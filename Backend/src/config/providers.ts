@@ -0,0 +1,164 @@
+import { ChatGoogleGenerativeAI, GoogleGenerativeAIEmbeddings } from '@langchain/google-genai';
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { Embeddings } from '@langchain/core/embeddings';
+import dotenv from 'dotenv';
+import { HashEmbeddings, ScriptedChatModel, type LLMScript } from './fakeModels.js';
+import { OFFLINE_MODE, loadJsonFixture } from './offline.js';
+
+dotenv.config();
+
+/**
+ * What a model is used for - each role has its own default model and temperature
+ */
+export type ModelRole = 'main' | 'fast' | 'code';
+
+export interface ChatModelOptions {
+  model?: string;
+  temperature?: number;
+}
+
+export interface LLMProvider {
+  // Shown in the startup log
+  label: string;
+  // Warn at startup when the provider cannot work (e.g. missing API key)
+  checkConfig?: () => string | null;
+  createChatModel: (role: ModelRole, options: ChatModelOptions) => BaseChatModel;
+  createEmbeddings: () => Embeddings;
+}
+
+const ROLE_TEMPERATURES: Record<ModelRole, number> = {
+  main: 0.7,
+  fast: 0.5,
+  code: 0.2,
+};
+
+// Per-role model overrides that work for every provider
+const ROLE_MODEL_ENV: Record<ModelRole, string> = {
+  main: 'LLM_MODEL',
+  fast: 'LLM_FAST_MODEL',
+  code: 'LLM_CODE_MODEL',
+};
+
+const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || '';
+
+const geminiProvider: LLMProvider = {
+  label: 'Google Gemini',
+  checkConfig: () => (!GOOGLE_API_KEY || GOOGLE_API_KEY === 'your_google_gemini_api_key_here'
+    ? 'GOOGLE_API_KEY not set. Get your API key from: https://aistudio.google.com/apikey'
+    : null),
+  createChatModel: (role, { model, temperature }) => new ChatGoogleGenerativeAI({
+    model: model || {
+      main: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+      fast: 'gemini-2.5-flash',
+      code: process.env.GEMINI_CODE_MODEL || 'gemini-2.5-flash',
+    }[role],
+    temperature: temperature ?? ROLE_TEMPERATURES[role],
+    apiKey: GOOGLE_API_KEY,
+    maxRetries: 2,
+  }),
+  createEmbeddings: () => new GoogleGenerativeAIEmbeddings({
+    model: 'text-embedding-004',
+    apiKey: GOOGLE_API_KEY,
+  }),
+};
+
+const openAIProvider: LLMProvider = {
+  label: 'OpenAI',
+  checkConfig: () => (process.env.OPENAI_API_KEY ? null : 'OPENAI_API_KEY not set.'),
+  createChatModel: (role, { model, temperature }) => new ChatOpenAI({
+    model: model || (role === 'main' ? process.env.OPENAI_MODEL : undefined) || 'gpt-4o-mini',
+    temperature: temperature ?? ROLE_TEMPERATURES[role],
+    apiKey: process.env.OPENAI_API_KEY || '',
+    maxRetries: 2,
+  }),
+  createEmbeddings: () => new OpenAIEmbeddings({
+    model: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+    apiKey: process.env.OPENAI_API_KEY || '',
+  }),
+};
+
+// OpenAI-compatible server such as Ollama (default) or llama.cpp
+const LOCAL_BASE_URL = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1';
+
+const localProvider: LLMProvider = {
+  label: `Local (${LOCAL_BASE_URL})`,
+  createChatModel: (role, { model, temperature }) => new ChatOpenAI({
+    model: model || process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    temperature: temperature ?? ROLE_TEMPERATURES[role],
+    // Local servers ignore the key, but the client requires one
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    maxRetries: 2,
+    configuration: { baseURL: LOCAL_BASE_URL },
+  }),
+  createEmbeddings: () => new OpenAIEmbeddings({
+    model: process.env.LOCAL_EMBEDDING_MODEL || 'nomic-embed-text',
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    configuration: { baseURL: LOCAL_BASE_URL },
+  }),
+};
+
+// Deterministic provider that never touches the network: replies come from the
+// fixtures/offline/llm.json script (OFFLINE_FIXTURES_DIR)
+const fakeProvider: LLMProvider = {
+  label: 'Fake (scripted)',
+  createChatModel: () => new ScriptedChatModel(loadJsonFixture<LLMScript>('llm.json')),
+  createEmbeddings: () => new HashEmbeddings(768),
+};
+
+const providers = new Map<string, LLMProvider>([
+  ['gemini', geminiProvider],
+  ['openai', openAIProvider],
+  ['local', localProvider],
+  ['fake', fakeProvider],
+]);
+
+/**
+ * Add or replace a provider (e.g. a scripted model for tests)
+ */
+export function registerProvider(name: string, provider: LLMProvider) {
+  providers.set(name, provider);
+}
+
+/**
+ * Get a provider by name, failing loudly on typos in LLM_PROVIDER / EMBEDDING_PROVIDER
+ */
+export function getProvider(name: string): LLMProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider "${name}". Available: ${Array.from(providers.keys()).join(', ')}`);
+  }
+  return provider;
+}
+
+/**
+ * Name of the configured chat provider (always fake in offline mode)
+ */
+export function getChatProviderName(): string {
+  return OFFLINE_MODE ? 'fake' : process.env.LLM_PROVIDER || 'gemini';
+}
+
+/**
+ * Name of the configured embedding provider (defaults to the chat provider)
+ */
+export function getEmbeddingProviderName(): string {
+  return OFFLINE_MODE ? 'fake' : process.env.EMBEDDING_PROVIDER || getChatProviderName();
+}
+
+/**
+ * Create a chat model for a role from the configured provider
+ */
+export function getChatModel(role: ModelRole = 'main', options: ChatModelOptions = {}): BaseChatModel {
+  const model = options.model || process.env[ROLE_MODEL_ENV[role]];
+  return getProvider(getChatProviderName()).createChatModel(role, {
+    ...options,
+    ...(model ? { model } : {}),
+  });
+}
+
+/**
+ * Create the embeddings model from the configured provider
+ */
+export function getEmbeddings(): Embeddings {
+  return getProvider(getEmbeddingProviderName()).createEmbeddings();
+}
@@ -9,12 +9,16 @@ import driveRoutes from "./routes/drive.js";
 import ingestRoutes from "./routes/ingest.js";
 import chatRoutes from "./routes/chat.js";
 import explorerRoutes from "./routes/explorer.js";
+import queryRoutes from "./routes/query.js";
 // import workflowRoutes from "./routes/workflows.js"; // Commented out - not needed for Tableau hackathon
 import insightsRoutes from "./routes/insights.js";
 import tableauRoutes from "./routes/tableau.js";
 import uploadRoutes from "./routes/upload.js";
 import { initializeChromaDB } from "./config/chromadb.js";
 import { validateTableauConfig } from "./config/tableau.js";
+import { OFFLINE_MODE } from "./config/offline.js";
+import { offlineSession, seedOfflineFixtures } from "./services/offlineFixtures.js";
+import { getActiveRun, cancelRun } from "./services/runRegistry.js";
 // import { workflowScheduler } from "./services/workflowScheduler.js"; // Commented out - not needed for Tableau hackathon
 
 dotenv.config();
@@ -80,6 +84,11 @@ app.use(
   })
 );
 
+// Offline mode: every request is signed in to Google and Tableau as the offline user
+if (OFFLINE_MODE) {
+  app.use(offlineSession);
+}
+
 // Routes
 app.get("/", (req, res) => {
   res.json({
@@ -103,6 +112,7 @@ app.use("/api/drive", driveRoutes);
 app.use("/api/ingest", ingestRoutes);
 app.use("/api/chat", chatRoutes);
 app.use("/api/explorer", explorerRoutes);
+app.use("/api/query", queryRoutes);
 // app.use("/api/workflows", workflowRoutes); // Commented out - not needed for Tableau hackathon
 app.use("/api/insights", insightsRoutes);
 app.use("/api/tableau", tableauRoutes);
@@ -116,6 +126,14 @@ io.on("connection", (socket) => {
     console.log(`🔌 Client disconnected: ${socket.id}`);
   });
 
+  // Cancel an in-flight analysis started from this socket
+  socket.on("chat:cancel", ({ runId }: { runId?: string } = {}) => {
+    const run = runId ? getActiveRun(runId) : undefined;
+    if (run && run.socketId === socket.id) {
+      cancelRun(run.runId);
+    }
+  });
+
   // Chat events (to be implemented)
   socket.on("chat:message", async (data) => {
     console.log("Chat message received:", data);
@@ -133,6 +151,11 @@ async function startServer() {
     console.log("🔧 Initializing ChromaDB...");
     await initializeChromaDB();
 
+    if (OFFLINE_MODE) {
+      console.log("🧪 Offline mode: loading fixture datasets...");
+      await seedOfflineFixtures();
+    }
+
     // Validate Tableau configuration
     console.log("🔧 Validating Tableau configuration...");
     const tableauValidation = validateTableauConfig();
@@ -0,0 +1,62 @@
+import type { RetryPolicy } from '@langchain/langgraph';
+
+/**
+ * Retry and degradation rules for the workflow.
+ *
+ * Agents catch their own errors. Optional steps (web search, Tableau) degrade:
+ * their failures become `warnings` and the run continues without them.
+ * Steps the answer depends on re-throw transient failures (rate limits, timeouts, 5xx)
+ * so LangGraph retries the node instead of ending the run.
+ */
+
+// Network error codes worth retrying
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+const TRANSIENT_MESSAGE = /rate limit|too many requests|timed? ?out|overloaded|temporarily unavailable|socket hang up|fetch failed/i;
+
+/**
+ * Whether an error is likely to go away on retry. Follows `error.cause`,
+ * so wrapped errors keep the status of the original failure.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const err = error as any;
+  if (err.name === 'AbortError' || err.name === 'GraphInterrupt') {
+    return false;
+  }
+
+  const status = Number(err.status ?? err.response?.status);
+  if (status === 429 || status >= 500) {
+    return true;
+  }
+  if (TRANSIENT_CODES.includes(err.code ?? err.cause?.code)) {
+    return true;
+  }
+  if (typeof err.message === 'string' && TRANSIENT_MESSAGE.test(err.message)) {
+    return true;
+  }
+  return err.cause ? isTransientError(err.cause) : false;
+}
+
+const retryTransient = (maxAttempts: number, initialInterval: number): RetryPolicy => ({
+  maxAttempts,
+  initialInterval,
+  backoffFactor: 2,
+  maxInterval: 10000,
+  jitter: true,
+  retryOn: isTransientError,
+});
+
+/**
+ * Retry policy per workflow node. Only nodes that would otherwise end the run are retried;
+ * the others have a fallback (keyword search, default chart, canned reply) or are optional.
+ */
+export const NODE_RETRY_POLICIES = {
+  router: retryTransient(3, 500),
+  retriever: retryTransient(3, 500),
+  analyzer: retryTransient(3, 500),
+  visualizer: retryTransient(2, 500),
+  forecaster: retryTransient(2, 500),
+  summarizer: retryTransient(3, 1000),
+} satisfies Record<string, RetryPolicy>;
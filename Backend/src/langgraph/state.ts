@@ -1,4 +1,5 @@
 import { Annotation } from '@langchain/langgraph';
+import type { TopLevelSpec } from 'vega-lite';
 
 export interface Dataset {
   id: string;
@@ -9,6 +10,47 @@ export interface Dataset {
   summary?: string;
   rowCount?: number;
   sampleRows?: any[];
+  // Set on virtual datasets built from other datasets; their rows are rebuilt on demand
+  combination?: DatasetCombination;
+  // Set on datasets computed by a sandboxed transform; their rows are carried as aggregatedData
+  transform?: DataTransform;
+}
+
+/**
+ * Generated JavaScript that derived a dataset from the rows of others
+ */
+export interface DataTransform {
+  // Body of transform(rows), returning the new rows
+  code: string;
+  description: string;
+  sourceDatasetIds: string[];
+  // Rows the transform returned, before the row cap
+  rowCount: number;
+  truncated: boolean;
+}
+
+/**
+ * Pair of columns that link two datasets in a join
+ */
+export interface JoinKey {
+  left: string; // column of the rows combined so far
+  right: string; // column of the dataset being joined
+}
+
+/**
+ * How several datasets are combined into one table before the query plan runs
+ */
+export interface DatasetCombination {
+  type: 'join' | 'union';
+  datasetIds: string[];
+  // Join only: joinKeys[i] joins datasetIds[i + 1] onto the rows combined so far
+  joinKeys?: JoinKey[][];
+  joinType?: 'inner' | 'left' | 'full';
+  // Join only: 'key' totals every source per join key first, so measures recorded at
+  // different granularity (e.g. orders and quarterly targets) are not duplicated
+  grain?: 'row' | 'key';
+  // Whether the join keys were inferred from the data or chosen by the user
+  keySource?: 'inferred' | 'user';
 }
 
 export interface Message {
@@ -17,19 +59,180 @@ export interface Message {
   timestamp?: Date;
 }
 
+export interface QueryFilter {
+  column: string;
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains';
+  value: any;
+}
+
+export type ChartType =
+  | 'bar' | 'stacked_bar' | 'grouped_bar' | 'line' | 'area' | 'pie'
+  | 'scatter' | 'histogram' | 'heatmap' | 'boxplot' | 'table';
+
+/**
+ * A measure drawn as its own series next to the plan's main measure
+ */
+export interface PlanMeasure {
+  column: string;
+  operation: 'sum' | 'avg' | 'count' | 'min' | 'max';
+  axis?: 'left' | 'right';
+}
+
+/**
+ * Typed query plan produced by the LLM and executed deterministically over the full dataset
+ */
+export interface QueryPlan {
+  datasetId: string;
+  chartType: ChartType;
+  title: string;
+  description?: string;
+  filters: QueryFilter[];
+  groupBy?: string;
+  timeBucket?: 'day' | 'week' | 'month' | 'quarter' | 'year';
+  measure?: string;
+  operation: 'sum' | 'avg' | 'count' | 'min' | 'max';
+  xColumn?: string; // scatter only
+  // Second category: one series per value (lines, areas, bars), or the rows of a heatmap
+  seriesBy?: string;
+  // More measures over the same grouping, one series each (e.g. revenue vs target)
+  extraMeasures?: PlanMeasure[];
+  bins?: number; // histogram only
+  sort?: {
+    by: 'name' | 'value';
+    direction: 'asc' | 'desc';
+  };
+  limit?: number;
+}
+
+export type ForecastModel = 'holt_winters' | 'seasonal_naive' | 'linear';
+
+export interface ForecastPoint {
+  name: string; // period label, continuing the chart's x-axis
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Projection of a time series past its last period, drawn as a band after the line
+ */
+export interface Forecast {
+  model: ForecastModel;
+  horizon: number;
+  timeBucket: NonNullable<QueryPlan['timeBucket']>;
+  // Coverage of lower/upper, e.g. 0.95
+  interval: number;
+  points: ForecastPoint[];
+  // Mean absolute error of the chosen model on the most recent periods it was not fitted on
+  holdoutMAE: number;
+}
+
+/**
+ * A named series of a multi-series chart; its values are `data[i][key]`
+ */
+export interface ChartSeries {
+  key: string;
+  name: string;
+  color: string;
+  axis: 'left' | 'right';
+}
+
+/**
+ * Chart computed from a query plan. The rows of `data` depend on the type:
+ * - bar, line, area, pie: { name, value }
+ * - multi-series line, area and bar charts (with `series`): { name, [series key]: value }
+ * - heatmap: { name, series, value }
+ * - histogram: { name, start, end, value } with value the number of rows in [start, end)
+ * - boxplot: { name, value, min, q1, median, q3, max, count } with value the median
+ * - scatter: { x, y, name? }
+ */
 export interface Visualization {
-  type: 'bar' | 'line' | 'pie' | 'scatter' | 'table';
+  type: ChartType;
+  // What the chart shows within a set of charts answering an overview question
+  role?: 'trend' | 'breakdown' | 'distribution' | 'comparison' | 'relationship';
   data: any[];
-  spec?: any; // Vega-Lite spec
+  // Set for multi-series charts; stacked and grouped bars always have it
+  series?: ChartSeries[];
+  // Vega-Lite spec bound to data, for clients that render it instead of their own charts
+  spec?: TopLevelSpec;
   title?: string;
   description?: string;
+  xAxis?: string;
+  yAxis?: string;
+  filters?: QueryFilter[];
+  queryPlan?: QueryPlan;
+  rowsScanned?: number;
+  rowsMatched?: number;
+  forecast?: Forecast;
+  // Other recommended ways to draw the same question, offered as "try as" options
+  alternatives?: Visualization[];
+}
+
+/**
+ * The computed statistic an insight rests on
+ */
+export interface InsightStatistic {
+  test: 'pearson_correlation' | 'linear_trend' | 'outlier_zscore' | 'skewness';
+  columns: string[];
+  // r, slope per day, z-score of the most extreme value, or skewness
+  value: number;
+  pValue?: number;
+  sampleSize: number;
+  // Short readable form, e.g. "r = 0.82, p < 0.001, n = 48"
+  label: string;
 }
 
 export interface Insight {
-  type: 'trend' | 'anomaly' | 'correlation' | 'summary';
+  type: 'trend' | 'anomaly' | 'correlation' | 'summary' | 'recommendation';
   title: string;
   content: string;
+  // Derived from the statistic's p-value
   confidence: number;
+  statistic: InsightStatistic;
+}
+
+/**
+ * A figure quoted in the summary and whether it matches a computed value
+ */
+export interface NumericClaim {
+  // The figure as it reads in the final summary
+  text: string;
+  value: number;
+  status: 'verified' | 'corrected' | 'unverified';
+  // What it matched, e.g. "chart total" or "share of chart total"
+  source?: string;
+  // The figure as originally written, when it was corrected
+  original?: string;
+}
+
+/**
+ * Where a statement of the summary comes from; the summary refers to it as [id]
+ */
+export interface Citation {
+  id: number;
+  kind: 'dataset' | 'tableau' | 'web';
+  label: string;
+  // dataset: the columns and filters behind the cited figures
+  datasetId?: string;
+  columns?: string[];
+  filters?: QueryFilter[];
+  // tableau: id of a view in tableauViews
+  viewId?: string;
+  // tableau embed URL or web page
+  url?: string;
+}
+
+/**
+ * SQL written for the question and its result, shown so the user can edit and re-run it
+ */
+export interface SqlQuery {
+  sql: string;
+  columns: string[];
+  rows: Record<string, any>[];
+  rowCount: number;
+  truncated: boolean;
+  // The engine's message when the query could not run
+  error?: string;
 }
 
 export interface TableauView {
@@ -45,6 +248,53 @@ export interface TableauView {
   fullEmbedUrl?: string;
 }
 
+/**
+ * Snapshot of the previous turn in a chat session, used to resolve follow-ups
+ */
+export interface PreviousTurn {
+  userQuery: string;
+  summary: string;
+  intent?: AgentState['intent'];
+  datasets: Dataset[];
+  visualization: Visualization | null;
+  filters: QueryFilter[];
+}
+
+/**
+ * Data a chat session is pinned to. When anything is pinned, retrieval is limited to it
+ * instead of searching every dataset.
+ */
+export interface ChatScope {
+  datasetIds: string[];
+  tableauViews: Array<{ id: string; name: string; workbookName?: string }>;
+}
+
+/**
+ * Chart proposal sent to the user for approval before the visualizer runs
+ */
+export interface VisualizationProposal {
+  plan: QueryPlan;
+  datasets: Array<{ id: string; name: string; columns: string[] }>;
+  // Set when the plan runs over combined datasets, so the user can change the join keys
+  combination?: DatasetCombination;
+}
+
+/**
+ * The user's answer to a visualization proposal, with any edits to the plan
+ */
+export interface VisualizationConfirmation {
+  approved: boolean;
+  plan?: {
+    datasetId?: string;
+    chartType?: QueryPlan['chartType'];
+    groupBy?: string | null; // null removes the grouping
+    measure?: string | null; // null counts rows
+    operation?: QueryPlan['operation'];
+  };
+  // Replacement join keys for a combined dataset, one list per joined dataset
+  joinKeys?: JoinKey[][];
+}
+
 // Define the state annotation for LangGraph
 export const StateAnnotation = Annotation.Root({
   // User input
@@ -56,8 +306,16 @@ export const StateAnnotation = Annotation.Root({
     default: () => [],
   }),
 
+  // Previous turn of the chat session (null for the first message)
+  previousTurn: Annotation<PreviousTurn | null>,
+  isFollowUp: Annotation<boolean>,
+  // Datasets and Tableau views pinned to the chat session (null when nothing is pinned)
+  scope: Annotation<ChatScope | null>,
+  // Who asked; pinned datasets of other users are not loaded
+  userId: Annotation<string | null>,
+
   // Query understanding
-  intent: Annotation<'query' | 'visualization' | 'summary' | 'comparison' | 'analysis'>,
+  intent: Annotation<'query' | 'visualization' | 'summary' | 'comparison' | 'analysis' | 'forecast'>,
   queryType: Annotation<string>,
 
   // Retrieved datasets
@@ -69,9 +327,24 @@ export const StateAnnotation = Annotation.Root({
   // Analysis results
   analysisResults: Annotation<any>,
   queryCode: Annotation<string>,
+  queryPlan: Annotation<QueryPlan | null>,
+  sqlQuery: Annotation<SqlQuery | null>,
 
   // Visualization
   visualization: Annotation<Visualization | null>,
+  // Every chart of the answer, most informative first; the first one is also `visualization`
+  visualizations: Annotation<Visualization[]>({
+    reducer: (current, update) => update,
+    default: () => [],
+  }),
+  // Human-in-the-loop: pause for approval of the query plan before drawing the chart
+  requireConfirmation: Annotation<boolean>,
+  visualizationProposal: Annotation<VisualizationProposal | null>,
+  planConfirmed: Annotation<boolean>,
+  filters: Annotation<QueryFilter[]>({
+    reducer: (current, update) => update,
+    default: () => [],
+  }),
 
   // Insights
   insights: Annotation<Insight[]>({
@@ -91,6 +364,21 @@ export const StateAnnotation = Annotation.Root({
 
   // Summary
   summary: Annotation<string>,
+  // Figures quoted in the summary, checked against the computed data
+  claims: Annotation<NumericClaim[]>({
+    reducer: (current, update) => update,
+    default: () => [],
+  }),
+  // Sources the summary cites, numbered as in its [n] markers
+  citations: Annotation<Citation[]>({
+    reducer: (current, update) => update,
+    default: () => [],
+  }),
+  // Follow-up questions offered with the answer
+  suggestions: Annotation<string[]>({
+    reducer: (current, update) => update,
+    default: () => [],
+  }),
 
   // Routing
   nextAgent: Annotation<string | null>,
@@ -101,8 +389,13 @@ export const StateAnnotation = Annotation.Root({
     default: () => ({}),
   }),
 
-  // Error handling
+  // Error handling - an error ends the run
   error: Annotation<string | null>,
+  // Non-fatal problems (a step was skipped or degraded); the run continues and they are shown with the answer
+  warnings: Annotation<string[]>({
+    reducer: (current, update) => [...current, ...update],
+    default: () => [],
+  }),
 });
 
 export type AgentState = typeof StateAnnotation.State;
@@ -1,14 +1,101 @@
-import { StateGraph, START, END } from '@langchain/langgraph';
-import { StateAnnotation, type AgentState } from './state.js';
+import { StateGraph, START, END, Command, type BaseCheckpointSaver } from '@langchain/langgraph';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { randomUUID } from 'crypto';
+import {
+  StateAnnotation,
+  type AgentState,
+  type VisualizationConfirmation,
+  type VisualizationProposal,
+} from './state.js';
 import { routerAgent } from '../agents/router.js';
 import { retrieverAgent } from '../agents/retriever.js';
 import { analyzerAgent } from '../agents/analyzer.js';
 import { summarizerAgent } from '../agents/summarizer.js';
 import { conversationalBrainAgent } from '../agents/conversational.js';
 import { visualizerAgent } from '../agents/visualizer.js';
+import { forecasterAgent } from '../agents/forecaster.js';
+import { confirmationAgent } from '../agents/confirmation.js';
+import { clarificationAgent } from '../agents/clarification.js';
 import { tableauAgent } from '../agents/tableauAgent.js';
 // import { queryGeneratorAgent } from '../agents/queryGenerator.js'; // Commented out - not needed for Tableau hackathon
 import { searchAgent } from '../agents/search.js';
+import { suggesterAgent } from '../agents/suggester.js';
+import { NODE_RETRY_POLICIES } from './resilience.js';
+import type { ConversationContext } from '../services/chatMemory.js';
+import { checkpointer, getThreadId, parseThreadId } from '../services/checkpointStore.js';
+import { startRunTrace, type RunTraceStatus } from '../services/traceStore.js';
+
+/**
+ * Nodes whose LLM output is the final answer and is streamed to the client token by token
+ */
+const STREAMED_NODES = ['summarizer', 'conversational_brain'];
+
+export interface ExecuteWorkflowOptions {
+  // Earlier turns of the chat session
+  context?: ConversationContext;
+  // Called with each token of the final answer as it is generated
+  onToken?: (token: string, node: string) => void;
+  // Called when a node is retried after some of its tokens were sent; they are streamed again
+  onTokenReset?: (node: string) => void;
+  // Aborts the graph, pending LLM calls and Tableau requests
+  signal?: AbortSignal;
+  // Checkpoints are stored per session and run so the run can be retried later
+  sessionId?: string;
+  runId?: string;
+  // Pause for the user to approve the query plan before the chart is drawn
+  requireConfirmation?: boolean;
+}
+
+/**
+ * A checkpoint to continue a run from, and the node that runs next
+ */
+export interface RetryPoint {
+  threadId: string;
+  node: string;
+  userQuery: string;
+  config: RunnableConfig;
+}
+
+/**
+ * Summary of one checkpoint of a run
+ */
+export interface RunCheckpoint {
+  checkpointId: string;
+  step: number;
+  next: string[];
+  createdAt?: string;
+  error: string | null;
+}
+
+export const CANCELLED_MESSAGE = 'Analysis cancelled.';
+
+/**
+ * Build the clean state returned when a run is cancelled mid-way
+ */
+function cancelledState(state: AgentState | undefined, userQuery: string): AgentState {
+  return {
+    ...(state || { userQuery, messages: [], relevantDatasets: [], insights: [], tableauViews: [] }),
+    summary: CANCELLED_MESSAGE,
+    nextAgent: null,
+    error: null,
+    metadata: { ...(state?.metadata || {}), cancelled: true },
+  } as AgentState;
+}
+
+/**
+ * Extract the text of a streamed message chunk
+ */
+function chunkText(content: any): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (typeof part === 'string' ? part : part?.type === 'text' ? part.text : ''))
+      .join('');
+  }
+  return '';
+}
 
 /**
  * Routing function - determines next step in workflow
@@ -31,17 +118,21 @@ function routeNext(state: AgentState): string {
 /**
  * Create the LangGraph workflow
  */
-export function createWorkflow() {
+export function createWorkflow(saver?: BaseCheckpointSaver) {
   const workflow = new StateGraph(StateAnnotation)
-    // Add all agent nodes
-    .addNode('router', routerAgent)
-    .addNode('retriever', retrieverAgent)
+    // Add all agent nodes; transient failures are retried per node (see resilience.ts)
+    .addNode('router', routerAgent, { retryPolicy: NODE_RETRY_POLICIES.router })
+    .addNode('retriever', retrieverAgent, { retryPolicy: NODE_RETRY_POLICIES.retriever })
     .addNode('search', searchAgent)
-    .addNode('analyzer', analyzerAgent)
-    .addNode('summarizer', summarizerAgent)
+    .addNode('analyzer', analyzerAgent, { retryPolicy: NODE_RETRY_POLICIES.analyzer })
+    .addNode('summarizer', summarizerAgent, { retryPolicy: NODE_RETRY_POLICIES.summarizer })
     .addNode('conversational_brain', conversationalBrainAgent)
-    .addNode('visualizer', visualizerAgent)
+    .addNode('visualizer', visualizerAgent, { retryPolicy: NODE_RETRY_POLICIES.visualizer })
+    .addNode('forecaster', forecasterAgent, { retryPolicy: NODE_RETRY_POLICIES.forecaster })
+    .addNode('confirm_visualization', confirmationAgent)
+    .addNode('clarification', clarificationAgent)
     .addNode('tableau', tableauAgent)
+    .addNode('suggester', suggesterAgent)
     // .addNode('query_generator', queryGeneratorAgent) // Commented out - not needed for Tableau hackathon
 
     // Define edges
@@ -53,6 +144,7 @@ export function createWorkflow() {
       analyzer: 'analyzer',
       summarizer: 'summarizer',
       conversational_brain: 'conversational_brain',
+      clarification: 'clarification',
       [END]: END,
     })
     .addConditionalEdges('retriever', routeNext, {
@@ -69,14 +161,27 @@ export function createWorkflow() {
     .addConditionalEdges('analyzer', routeNext, {
       summarizer: 'summarizer',
       visualizer: 'visualizer',
+      forecaster: 'forecaster',
       // query_generator: 'query_generator', // Commented out - not needed for Tableau hackathon
       [END]: END,
     })
+    .addConditionalEdges('forecaster', routeNext, {
+      summarizer: 'summarizer',
+      visualizer: 'visualizer',
+      [END]: END,
+    })
     .addConditionalEdges('visualizer', routeNext, {
+      summarizer: 'summarizer',
+      confirm_visualization: 'confirm_visualization',
+      [END]: END,
+    })
+    .addConditionalEdges('confirm_visualization', routeNext, {
+      visualizer: 'visualizer',
       summarizer: 'summarizer',
       [END]: END,
     })
     .addConditionalEdges('tableau', routeNext, {
+      analyzer: 'analyzer',
       summarizer: 'summarizer',
       [END]: END,
     })
@@ -85,73 +190,321 @@ export function createWorkflow() {
     //   [END]: END,
     // })
     .addConditionalEdges('summarizer', routeNext, {
+      suggester: 'suggester',
+      [END]: END,
+    })
+    .addConditionalEdges('suggester', routeNext, {
       [END]: END,
     })
     .addConditionalEdges('conversational_brain', routeNext, {
       [END]: END,
+    })
+    .addConditionalEdges('clarification', routeNext, {
+      [END]: END,
     });
 
-  return workflow.compile();
+  return workflow.compile(saver ? { checkpointer: saver } : {});
+}
+
+/**
+ * Stream a workflow run, reporting progress and answer tokens, and return the final state
+ */
+async function streamWorkflow(
+  app: ReturnType<typeof createWorkflow>,
+  input: Partial<AgentState> | Command | null,
+  config: RunnableConfig,
+  userQuery: string,
+  onUpdate?: (state: AgentState) => void,
+  options: ExecuteWorkflowOptions = {}
+): Promise<AgentState> {
+  const { onToken, onTokenReset, signal } = options;
+  let finalState: AgentState | undefined;
+  let interrupted = false;
+  // The LLM message each streamed node sent tokens of. Those nodes make one LLM call per
+  // attempt, so tokens of another message mean the node was retried.
+  const streamedMessages = new Map<string, string | undefined>();
+
+  const { sessionId, runId } = parseThreadId(config.configurable?.thread_id);
+  const tracer = startRunTrace(sessionId, runId, userQuery);
+  let traceStatus: RunTraceStatus = 'failed';
+  let traceError: string | undefined;
+  // Reading the run's checkpoints (e.g. GET /runs/:runId) must not unload it mid-run
+  checkpointer.holdThread(config.configurable?.thread_id);
+
+  try {
+    // Stream node updates for progress reporting, LLM messages for answer tokens,
+    // and full values for the final state
+    const stream = await app.stream(input as any, {
+      ...config,
+      callbacks: [tracer],
+      streamMode: ['updates', 'values', 'messages'],
+      ...(signal ? { signal } : {}),
+    });
+    for await (const [mode, chunk] of stream as any) {
+      if (mode === 'values') {
+        // An interrupt is also reported as a values chunk; keep the last real state
+        if (!('__interrupt__' in chunk)) {
+          finalState = chunk as AgentState;
+        }
+        continue;
+      }
+
+      if (mode === 'messages') {
+        const [message, meta] = chunk;
+        const node = meta?.langgraph_node;
+        const token = chunkText(message?.content);
+        if (onToken && token && STREAMED_NODES.includes(node)) {
+          if (streamedMessages.has(node) && streamedMessages.get(node) !== message?.id) {
+            onTokenReset?.(node);
+          }
+          streamedMessages.set(node, message?.id);
+          onToken(token, node);
+        }
+        continue;
+      }
+
+      const entries = Object.entries(chunk);
+      if (entries.length === 0) continue;
+
+      const [nodeName, nodeState] = entries[0] as [string, any];
+      if (nodeName === '__interrupt__') {
+        interrupted = true;
+        continue;
+      }
+      console.log(`\n📍 Step: ${nodeName}`);
+
+      // Call update callback if provided
+      if (onUpdate && nodeState) {
+        onUpdate(nodeState as AgentState);
+      }
+    }
+
+    // Agents catch their own errors, so an abort can also end the stream normally
+    if (signal?.aborted) {
+      console.log('\n🛑 Workflow cancelled\n');
+      traceStatus = 'cancelled';
+      return cancelledState(finalState, userQuery);
+    }
+
+    if (!finalState) {
+      throw new Error('Workflow did not produce a final state');
+    }
+
+    if (interrupted) {
+      console.log('\n⏸️  Workflow paused for user confirmation\n');
+      traceStatus = 'interrupted';
+      return { ...finalState, metadata: { ...finalState.metadata, interrupted: true } };
+    }
+
+    console.log('\n✅ Workflow completed successfully\n');
+    if (finalState.error) {
+      traceError = finalState.error;
+    } else {
+      traceStatus = 'completed';
+    }
+    return finalState;
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log('\n🛑 Workflow cancelled\n');
+      traceStatus = 'cancelled';
+      return cancelledState(finalState, userQuery);
+    }
+    console.error('\n❌ Workflow failed:', error);
+    traceError = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    tracer.finish(traceStatus, traceError);
+    // Checkpoints stay on disk; free the in-memory copy
+    checkpointer.releaseThread(config.configurable?.thread_id);
+  }
 }
 
 /**
  * Execute the workflow with a user query
+ * Pass the session's conversation context so follow-ups can build on earlier turns
  */
 export async function executeWorkflow(
   userQuery: string,
-  onUpdate?: (state: AgentState) => void
+  onUpdate?: (state: AgentState) => void,
+  options: ExecuteWorkflowOptions = {}
 ): Promise<AgentState> {
+  const { context, sessionId = 'default', runId = randomUUID(), requireConfirmation = false } = options;
   console.log(`\n🚀 Starting workflow for query: "${userQuery}"\n`);
+  if (context?.previousTurn) {
+    console.log(`   💬 Continuing conversation (${context.messages.length} earlier messages)`);
+  }
 
-  const app = createWorkflow();
+  const app = createWorkflow(checkpointer);
 
   // Initial state
   const initialState: Partial<AgentState> = {
     userQuery,
     messages: [
+      ...(context?.messages || []),
       {
         role: 'user',
         content: userQuery,
         timestamp: new Date(),
       },
     ],
+    previousTurn: context?.previousTurn || null,
+    scope: context?.scope || null,
+    userId: context?.userId || null,
+    isFollowUp: false,
+    requireConfirmation,
+    planConfirmed: false,
     relevantDatasets: [],
     insights: [],
     metadata: {},
   };
 
-  try {
-    let finalState: AgentState | undefined;
+  const config = { configurable: { thread_id: getThreadId(sessionId, runId) } };
+  return streamWorkflow(app, initialState, config, userQuery, onUpdate, options);
+}
 
-    // Stream through the workflow
-    const stream = await app.stream(initialState as any);
-    for await (const step of stream as any) {
-      const entries = Object.entries(step);
-      if (entries.length === 0) continue;
+/**
+ * List the checkpoints of a run, newest first
+ */
+export async function getRunCheckpoints(sessionId: string, runId: string): Promise<RunCheckpoint[]> {
+  const app = createWorkflow(checkpointer);
+  const threadId = getThreadId(sessionId, runId);
+  const checkpoints: RunCheckpoint[] = [];
 
-      const [nodeName, nodeState] = entries[0] as [string, any];
-      console.log(`\n📍 Step: ${nodeName}`);
+  try {
+    for await (const snapshot of app.getStateHistory({ configurable: { thread_id: threadId } })) {
+      const checkpoint: RunCheckpoint = {
+        checkpointId: snapshot.config.configurable?.checkpoint_id,
+        step: snapshot.metadata?.step ?? -1,
+        next: [...snapshot.next],
+        error: (snapshot.values as AgentState).error || null,
+      };
+      if (snapshot.createdAt) checkpoint.createdAt = snapshot.createdAt;
+      checkpoints.push(checkpoint);
+    }
+  } finally {
+    checkpointer.unloadThread(threadId);
+  }
 
-      // Call update callback if provided
-      if (onUpdate && nodeState) {
-        onUpdate(nodeState as AgentState);
-      }
+  return checkpoints;
+}
 
-      finalState = nodeState as AgentState;
+/**
+ * Find where to continue a run.
+ * With a node, use the latest checkpoint right before that node ran (e.g. "visualizer"
+ * regenerates the chart from the retrieved datasets and analysis plan).
+ * Without one, resume a failed or interrupted run at the node that did not finish.
+ * Returns null when there is nothing to continue from.
+ */
+export async function findRetryPoint(
+  sessionId: string,
+  runId: string,
+  fromNode?: string
+): Promise<RetryPoint | null> {
+  const app = createWorkflow(checkpointer);
+  const threadId = getThreadId(sessionId, runId);
+  const history = [];
+  try {
+    for await (const snapshot of app.getStateHistory({ configurable: { thread_id: threadId } })) {
+      history.push(snapshot);
     }
+  } finally {
+    checkpointer.unloadThread(threadId);
+  }
 
-    if (!finalState) {
-      throw new Error('Workflow did not produce a final state');
-    }
+  const latest = history[0];
+  if (!latest) {
+    return null;
+  }
 
-    console.log('\n✅ Workflow completed successfully\n');
-    return finalState;
-  } catch (error) {
-    console.error('\n❌ Workflow failed:', error);
-    throw error;
+  let target;
+  if (fromNode) {
+    target = history.find(snapshot => snapshot.next.includes(fromNode));
+  } else if (latest.next.length > 0) {
+    // Interrupted (crashed or cancelled) - continue where it stopped
+    target = latest;
+  } else if ((latest.values as AgentState).error) {
+    // Agents report failures through state.error, which ends the graph;
+    // the last checkpoint before the error was set is right before the failing node
+    target = history.find(snapshot => !(snapshot.values as AgentState).error && snapshot.next.length > 0);
+  }
+
+  const node = fromNode || target?.next[0];
+  if (!target || !node) {
+    return null;
+  }
+
+  return {
+    threadId,
+    node,
+    userQuery: (target.values as AgentState).userQuery || (latest.values as AgentState).userQuery,
+    config: target.config,
+  };
+}
+
+/**
+ * Continue a run from a retry point, reusing the state checkpointed before that node
+ */
+export async function retryWorkflow(
+  retryPoint: RetryPoint,
+  onUpdate?: (state: AgentState) => void,
+  options: ExecuteWorkflowOptions = {}
+): Promise<AgentState> {
+  console.log(`\n🔁 Retrying workflow from "${retryPoint.node}" for query: "${retryPoint.userQuery}"\n`);
+
+  const app = createWorkflow(checkpointer);
+  return streamWorkflow(app, null, retryPoint.config, retryPoint.userQuery, onUpdate, options);
+}
+
+/**
+ * Get the user who started a run, or null if the run is unknown
+ */
+export async function getRunOwner(sessionId: string, runId: string): Promise<string | null> {
+  const app = createWorkflow(checkpointer);
+  const threadId = getThreadId(sessionId, runId);
+  try {
+    const snapshot = await app.getState({ configurable: { thread_id: threadId } });
+    return (snapshot.values as Partial<AgentState>).userId || null;
+  } finally {
+    checkpointer.unloadThread(threadId);
   }
 }
 
+/**
+ * Get the proposal a paused run is waiting on, or null if it is not waiting
+ */
+export async function getPendingProposal(sessionId: string, runId: string): Promise<VisualizationProposal | null> {
+  const app = createWorkflow(checkpointer);
+  const threadId = getThreadId(sessionId, runId);
+  try {
+    const snapshot = await app.getState({ configurable: { thread_id: threadId } });
+    if (!snapshot.next.includes('confirm_visualization')) {
+      return null;
+    }
+    return (snapshot.values as AgentState).visualizationProposal || null;
+  } finally {
+    checkpointer.unloadThread(threadId);
+  }
+}
+
+/**
+ * Resume a paused run with the user's answer to the visualization proposal
+ */
+export async function resumeWithConfirmation(
+  sessionId: string,
+  runId: string,
+  confirmation: VisualizationConfirmation,
+  onUpdate?: (state: AgentState) => void,
+  options: ExecuteWorkflowOptions = {}
+): Promise<AgentState> {
+  const app = createWorkflow(checkpointer);
+  const config = { configurable: { thread_id: getThreadId(sessionId, runId) } };
+  const snapshot = await app.getState(config);
+  const userQuery = (snapshot.values as AgentState).userQuery;
+  console.log(`\n▶️  Resuming workflow (${confirmation.approved ? 'approved' : 'declined'}) for query: "${userQuery}"\n`);
+
+  return streamWorkflow(app, new Command({ resume: confirmation }), config, userQuery, onUpdate, options);
+}
+
 /**
  * Simple test function
  */
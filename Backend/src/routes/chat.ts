@@ -1,8 +1,22 @@
 import express, { type Request, type Response } from 'express';
-import { executeWorkflow } from '../langgraph/workflow.js';
-import { COLLECTIONS, addDocuments, getCollection } from '../config/chromadb.js';
+import { randomUUID } from 'crypto';
+import {
+  executeWorkflow,
+  findRetryPoint,
+  getPendingProposal,
+  getRunCheckpoints,
+  getRunOwner,
+  resumeWithConfirmation,
+  retryWorkflow,
+} from '../langgraph/workflow.js';
+import { COLLECTIONS, addDocuments, getCollection, getDocument } from '../config/chromadb.js';
 import { tableauService } from '../services/tableau.js';
-import type { AgentState } from '../langgraph/state.js';
+import { getConversationContext, getSessionScope, recordTurn, setSessionScope } from '../services/chatMemory.js';
+import { getUploadedDatasets } from '../services/csvProcessor.js';
+import { registerRun, completeRun, getActiveRun, cancelRun } from '../services/runRegistry.js';
+import { getRunTrace } from '../services/traceStore.js';
+import { isValidRunId } from '../services/checkpointStore.js';
+import type { AgentState, ChatScope } from '../langgraph/state.js';
 
 const router = express.Router();
 
@@ -23,6 +37,115 @@ const optionalAuth = (req: Request, res: Response, next: Function) => {
   next();
 };
 
+/**
+ * Send 404 or 403 unless the run exists and was started by the requesting user.
+ * Returns whether the request may go on.
+ */
+async function checkRunOwner(req: Request, res: Response, sessionId: string, runId: string): Promise<boolean> {
+  const activeRun = getActiveRun(runId);
+  const owner = activeRun?.sessionId === sessionId ? activeRun.userId : await getRunOwner(sessionId, runId);
+  if (!owner) {
+    res.status(404).json({ error: 'Run not found' });
+    return false;
+  }
+
+  const userId = req.session!.user?.id || 'anonymous';
+  if (owner !== userId) {
+    res.status(403).json({ error: 'Access denied' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Progress callback that forwards agent updates to the client's socket
+ */
+const progressReporter = (io: any, socketId?: string) => (state: AgentState) => {
+  // Send progress updates via WebSocket
+  if (io && socketId) {
+    io.to(socketId).emit('agent:progress', {
+      agent: state.nextAgent,
+      hasDatasets: state.relevantDatasets?.length > 0 || false,
+      hasResults: !!state.analysisResults,
+      hasVisualization: !!state.visualization,
+    });
+  }
+};
+
+/**
+ * Token callback that streams the final answer to the client's socket as it is generated
+ */
+const tokenStreamer = (io: any, socketId: string | undefined, messageId: string) => (token: string, agent: string) => {
+  if (io && socketId) {
+    io.to(socketId).emit('chat:token', { messageId, token, agent });
+  }
+};
+
+/**
+ * Tells the client to drop the tokens it has of a message because the answer is generated again
+ */
+const tokenResetter = (io: any, socketId: string | undefined, messageId: string) => (agent: string) => {
+  if (io && socketId) {
+    io.to(socketId).emit('chat:reset', { messageId, agent });
+  }
+};
+
+/**
+ * Shape a workflow result into the chat response sent to the client
+ */
+function buildChatResponse(result: AgentState, ids: { runId: string; messageId: string; sessionId: string }) {
+  return {
+    ...ids,
+    message: result.summary || 'Analysis complete',
+    claims: result.claims || [],
+    citations: result.citations || [],
+    suggestions: result.suggestions || [],
+    intent: result.intent,
+    isFollowUp: !!result.isFollowUp,
+    needsClarification: !!result.metadata?.needsClarification,
+    datasets: result.relevantDatasets?.map(d => ({
+      id: d.id,
+      name: d.name,
+      type: d.type,
+    })) || [],
+    insights: result.insights || [],
+    visualization: result.visualization,
+    visualizations: result.visualizations?.length ? result.visualizations : result.visualization ? [result.visualization] : [],
+    queryPlan: result.queryPlan || null,
+    sqlQuery: result.sqlQuery || null,
+    tableauViews: result.tableauViews || [],
+    warnings: result.warnings || [],
+    // The pins the answer was limited to, so the client shows what was actually used
+    scope: result.scope || null,
+    error: result.error || null,
+  };
+}
+
+/**
+ * Ask the client to approve the proposed chart of a paused run
+ */
+function sendConfirmationRequest(
+  req: Request,
+  res: Response,
+  result: AgentState,
+  ids: { runId: string; messageId: string; sessionId: string; socketId?: string }
+) {
+  const { socketId, ...responseIds } = ids;
+  const response = {
+    ...responseIds,
+    awaitingConfirmation: true,
+    message: 'Please confirm the chart before it is drawn.',
+    proposal: result.visualizationProposal,
+    datasets: result.relevantDatasets?.map(d => ({ id: d.id, name: d.name, type: d.type })) || [],
+  };
+
+  const io = req.app.get('io');
+  if (io && socketId) {
+    io.to(socketId).emit('chat:confirm', response);
+  }
+  return res.json(response);
+}
+
 /**
  * Send a chat message and get AI response
  * Note: Google auth is optional - Tableau queries work with just Tableau auth
@@ -36,7 +159,8 @@ router.post('/message', optionalAuth, async (req: Request, res: Response) => {
     }
 
     const userId = req.session!.user?.id || 'anonymous';
-    const actualSessionId = sessionId || `session-${Date.now()}`;
+    // New chats get an unguessable id from the server
+    const actualSessionId = sessionId || randomUUID();
 
     console.log(`💬 Chat message from ${userId}: "${message}"`);
 
@@ -52,22 +176,65 @@ router.post('/message', optionalAuth, async (req: Request, res: Response) => {
     // Get Socket.IO instance from app
     const io = req.app.get('io');
     const socketId = req.body.socketId; // Client should send their socket ID
+    // Tokens and the final response share this id so the client can merge them
+    const messageId = req.body.messageId || randomUUID();
+
+    // Load earlier turns so follow-up questions have context
+    const conversationContext = await getConversationContext(userId, actualSessionId);
+
+    // Register the run so it can be cancelled (chat:cancel or DELETE /message/:runId)
+    const runId = req.body.runId || randomUUID();
+    if (!isValidRunId(runId)) {
+      return res.status(400).json({ error: 'Run ID must be a UUID' });
+    }
+    // A run id names one run; reusing a finished one would mix its checkpoints with this run's
+    if (getActiveRun(runId) || await getRunOwner(actualSessionId, runId)) {
+      return res.status(409).json({ error: 'Run ID is already in use' });
+    }
+    const signal = registerRun({ runId, sessionId: actualSessionId, userId, socketId });
+    if (!signal) {
+      return res.status(409).json({ error: 'Run ID is already in use' });
+    }
+    if (io && socketId) {
+      io.to(socketId).emit('chat:run', { runId, messageId });
+    }
 
     // Execute LangGraph workflow with progress updates
     const result = await executeWorkflow(
       message,
-      (state: AgentState) => {
-        // Send progress updates via WebSocket
-        if (io && socketId) {
-          io.to(socketId).emit('agent:progress', {
-            agent: state.nextAgent,
-            hasDatasets: state.relevantDatasets?.length > 0 || false,
-            hasResults: !!state.analysisResults,
-            hasVisualization: !!state.visualization,
-          });
-        }
+      progressReporter(io, socketId),
+      {
+        context: conversationContext,
+        onToken: tokenStreamer(io, socketId, messageId),
+        onTokenReset: tokenResetter(io, socketId, messageId),
+        signal,
+        // Checkpoints are keyed by session and run so the run can be retried
+        sessionId: actualSessionId,
+        runId,
+        requireConfirmation: !!req.body.requireConfirmation,
       }
-    );
+    ).finally(() => completeRun(runId));
+
+    // Paused before the visualizer - the client resumes via POST /runs/:runId/confirm
+    if (result.metadata?.interrupted && result.visualizationProposal) {
+      return sendConfirmationRequest(req, res, result, { runId, messageId, sessionId: actualSessionId, socketId });
+    }
+
+    if (result.metadata?.cancelled) {
+      const response = {
+        runId,
+        messageId,
+        cancelled: true,
+        message: result.summary,
+        sessionId: actualSessionId,
+      };
+      if (io && socketId) {
+        io.to(socketId).emit('chat:cancelled', response);
+      }
+      return res.json(response);
+    }
+
+    recordTurn(userId, actualSessionId, message, result);
 
     // Store chat history in ChromaDB (optional)
     if (process.env.CHROMA_ENABLED === 'true') {
@@ -106,19 +273,7 @@ router.post('/message', optionalAuth, async (req: Request, res: Response) => {
     }
 
     // Send final response
-    const response = {
-      message: result.summary || 'Analysis complete',
-      intent: result.intent,
-      datasets: result.relevantDatasets?.map(d => ({
-        id: d.id,
-        name: d.name,
-        type: d.type,
-      })) || [],
-      insights: result.insights || [],
-      visualization: result.visualization,
-      tableauViews: result.tableauViews || [],
-      sessionId: actualSessionId,
-    };
+    const response = buildChatResponse(result, { runId, messageId, sessionId: actualSessionId });
 
     console.log('📤 Sending response to frontend:');
     console.log('   - Message length:', response.message.length);
@@ -142,6 +297,373 @@ router.post('/message', optionalAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Cancel an in-flight chat run
+ */
+router.delete('/message/:runId', optionalAuth, (req: Request, res: Response) => {
+  const { runId } = req.params;
+  const run = runId ? getActiveRun(runId) : undefined;
+
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found or already finished' });
+  }
+
+  const userId = req.session!.user?.id || 'anonymous';
+  if (run.userId !== userId) {
+    return res.status(403).json({ error: 'Access denied' });
+  }
+
+  cancelRun(run.runId);
+  res.json({ success: true, runId: run.runId, cancelled: true });
+});
+
+/**
+ * List the checkpoints of a run (to pick a node to re-run from)
+ */
+router.get('/runs/:runId', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const sessionId = req.query.sessionId as string | undefined;
+
+    if (!runId || !sessionId) {
+      return res.status(400).json({ error: 'Run ID and sessionId are required' });
+    }
+
+    if (!isValidRunId(runId)) {
+      return res.status(400).json({ error: 'Run ID must be a UUID' });
+    }
+
+    if (!(await checkRunOwner(req, res, sessionId, runId))) {
+      return;
+    }
+
+    const checkpoints = await getRunCheckpoints(sessionId, runId);
+    if (checkpoints.length === 0) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    res.json({
+      runId,
+      sessionId,
+      active: !!getActiveRun(runId),
+      checkpoints,
+    });
+  } catch (error: any) {
+    console.error('Error fetching run checkpoints:', error);
+    res.status(500).json({
+      error: 'Failed to fetch run',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * Get the agent trace of a run: nodes visited with timings, prompts, LLM responses,
+ * token counts, state diffs and errors
+ */
+router.get('/runs/:runId/trace', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const sessionId = req.query.sessionId as string | undefined;
+
+    if (!runId || !sessionId) {
+      return res.status(400).json({ error: 'Run ID and sessionId are required' });
+    }
+
+    if (!isValidRunId(runId)) {
+      return res.status(400).json({ error: 'Run ID must be a UUID' });
+    }
+
+    if (!(await checkRunOwner(req, res, sessionId, runId))) {
+      return;
+    }
+
+    const trace = getRunTrace(sessionId, runId);
+    if (!trace) {
+      return res.status(404).json({ error: 'Trace not found' });
+    }
+
+    res.json({ trace });
+  } catch (error: any) {
+    console.error('Error fetching run trace:', error);
+    res.status(500).json({
+      error: 'Failed to fetch run trace',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * Resume a failed run, or re-run it from a chosen node (e.g. "visualizer" to
+ * regenerate only the chart) reusing the checkpointed state before that node
+ */
+router.post('/runs/:runId/retry', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const { sessionId, fromNode, socketId } = req.body;
+
+    if (!runId || !sessionId) {
+      return res.status(400).json({ error: 'Run ID and sessionId are required' });
+    }
+
+    if (!isValidRunId(runId)) {
+      return res.status(400).json({ error: 'Run ID must be a UUID' });
+    }
+
+    if (!(await checkRunOwner(req, res, sessionId, runId))) {
+      return;
+    }
+
+    if (getActiveRun(runId)) {
+      return res.status(409).json({ error: 'Run is still in progress' });
+    }
+
+    const retryPoint = await findRetryPoint(sessionId, runId, fromNode);
+    if (!retryPoint) {
+      return res.status(404).json({
+        error: fromNode
+          ? `No checkpoint found before node "${fromNode}"`
+          : 'Nothing to resume - run not found or completed without errors',
+      });
+    }
+
+    const userId = req.session!.user?.id || 'anonymous';
+    const io = req.app.get('io');
+    const messageId = req.body.messageId || randomUUID();
+
+    const signal = registerRun({ runId, sessionId, userId, socketId });
+    if (!signal) {
+      return res.status(409).json({ error: 'Run is still in progress' });
+    }
+    if (io && socketId) {
+      io.to(socketId).emit('chat:run', { runId, messageId });
+    }
+
+    const result = await retryWorkflow(
+      retryPoint,
+      progressReporter(io, socketId),
+      {
+        onToken: tokenStreamer(io, socketId, messageId),
+        onTokenReset: tokenResetter(io, socketId, messageId),
+        signal,
+      }
+    ).finally(() => completeRun(runId));
+
+    if (result.metadata?.cancelled) {
+      const response = { runId, messageId, cancelled: true, message: result.summary, sessionId };
+      if (io && socketId) {
+        io.to(socketId).emit('chat:cancelled', response);
+      }
+      return res.json(response);
+    }
+
+    if (result.metadata?.interrupted && result.visualizationProposal) {
+      return sendConfirmationRequest(req, res, result, { runId, messageId, sessionId, socketId });
+    }
+
+    recordTurn(userId, sessionId, result.userQuery, result);
+
+    const response = {
+      ...buildChatResponse(result, { runId, messageId, sessionId }),
+      retriedFrom: retryPoint.node,
+    };
+
+    if (io && socketId) {
+      io.to(socketId).emit('chat:complete', response);
+    }
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('❌ Retry error:', error);
+    res.status(500).json({
+      error: 'Failed to retry run',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * Approve (optionally with edits) or decline the proposed chart of a paused run
+ */
+router.post('/runs/:runId/confirm', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { runId } = req.params;
+    const { sessionId, approved, plan, joinKeys, socketId } = req.body;
+
+    if (!runId || !sessionId) {
+      return res.status(400).json({ error: 'Run ID and sessionId are required' });
+    }
+
+    if (!isValidRunId(runId)) {
+      return res.status(400).json({ error: 'Run ID must be a UUID' });
+    }
+
+    if (!(await checkRunOwner(req, res, sessionId, runId))) {
+      return;
+    }
+
+    if (getActiveRun(runId)) {
+      return res.status(409).json({ error: 'Run is still in progress' });
+    }
+
+    const proposal = await getPendingProposal(sessionId, runId);
+    if (!proposal) {
+      return res.status(404).json({ error: 'Run not found or not waiting for confirmation' });
+    }
+
+    const userId = req.session!.user?.id || 'anonymous';
+    const io = req.app.get('io');
+    const messageId = req.body.messageId || randomUUID();
+
+    const signal = registerRun({ runId, sessionId, userId, socketId });
+    if (!signal) {
+      return res.status(409).json({ error: 'Run is still in progress' });
+    }
+    if (io && socketId) {
+      io.to(socketId).emit('chat:run', { runId, messageId });
+    }
+
+    const result = await resumeWithConfirmation(
+      sessionId,
+      runId,
+      { approved: !!approved, ...(plan ? { plan } : {}), ...(Array.isArray(joinKeys) ? { joinKeys } : {}) },
+      progressReporter(io, socketId),
+      {
+        onToken: tokenStreamer(io, socketId, messageId),
+        onTokenReset: tokenResetter(io, socketId, messageId),
+        signal,
+      }
+    ).finally(() => completeRun(runId));
+
+    if (result.metadata?.cancelled) {
+      const response = { runId, messageId, cancelled: true, message: result.summary, sessionId };
+      if (io && socketId) {
+        io.to(socketId).emit('chat:cancelled', response);
+      }
+      return res.json(response);
+    }
+
+    recordTurn(userId, sessionId, result.userQuery, result);
+
+    const response = buildChatResponse(result, { runId, messageId, sessionId });
+    if (io && socketId) {
+      io.to(socketId).emit('chat:complete', response);
+    }
+
+    res.json(response);
+  } catch (error: any) {
+    console.error('❌ Confirmation error:', error);
+    res.status(500).json({
+      error: 'Failed to resume run',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * Start a chat session; its id is generated here so it cannot be guessed
+ */
+router.post('/sessions', optionalAuth, (req: Request, res: Response) => {
+  res.json({ sessionId: randomUUID() });
+});
+
+/**
+ * Datasets a chat can be pinned to: uploaded CSVs and the user's ingested datasets
+ */
+async function pinnableDatasets(userId: string) {
+  const datasets = getUploadedDatasets().map(d => ({ id: d.id, name: d.name, type: d.type, rowCount: d.rowCount }));
+  try {
+    const result = await getCollection(COLLECTIONS.DATASETS).get({ where: { userId } });
+    (result.ids || []).forEach((id: string, index: number) => {
+      const metadata: any = result.metadatas?.[index] || {};
+      if (!datasets.some(d => d.id === id)) {
+        datasets.push({ id, name: metadata.name || id, type: metadata.type || 'unknown', rowCount: metadata.rowCount });
+      }
+    });
+  } catch (error) {
+    console.log('ℹ️  Skipping ingested datasets (ChromaDB unavailable)');
+  }
+  return datasets;
+}
+
+/**
+ * Get the datasets and Tableau views the caller pinned to a session, with the datasets they can pin.
+ * Pins are stored per user, so another user's pins on the same session id are never read or changed.
+ */
+router.get('/sessions/:sessionId/scope', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.session!.user?.id || 'anonymous';
+    res.json({
+      scope: await getSessionScope(userId, req.params.sessionId!),
+      datasets: await pinnableDatasets(userId),
+    });
+  } catch (error: any) {
+    console.error('❌ Error fetching chat scope:', error);
+    res.status(500).json({
+      error: 'Failed to fetch chat scope',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * Pin datasets and Tableau views to a session. Retrieval is limited to them until they are unpinned
+ * (an empty scope, or DELETE).
+ */
+router.put('/sessions/:sessionId/scope', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { datasetIds = [], tableauViews = [] } = req.body;
+
+    if (!Array.isArray(datasetIds) || !Array.isArray(tableauViews)
+      || datasetIds.some((id: unknown) => typeof id !== 'string')
+      || tableauViews.some((view: any) => typeof view?.id !== 'string' || typeof view?.name !== 'string')) {
+      return res.status(400).json({ error: 'datasetIds must be a list of ids and tableauViews a list of { id, name }' });
+    }
+
+    // Pins must point at data that exists; Tableau views are checked when they are used
+    const userId = req.session!.user?.id || 'anonymous';
+    const uploadedIds = new Set(getUploadedDatasets().map(d => d.id));
+    for (const id of datasetIds as string[]) {
+      const stored = uploadedIds.has(id) ? null : await getDocument(COLLECTIONS.DATASETS, id).catch(() => null);
+      if (!uploadedIds.has(id) && (!stored || (stored.userId && stored.userId !== userId))) {
+        return res.status(404).json({ error: `Dataset not found: ${id}` });
+      }
+    }
+
+    const scope: ChatScope = {
+      datasetIds: [...new Set(datasetIds as string[])],
+      tableauViews: tableauViews.map((view: any) => ({
+        id: view.id,
+        name: view.name,
+        ...(typeof view.workbookName === 'string' ? { workbookName: view.workbookName } : {}),
+      })),
+    };
+    res.json({ scope: await setSessionScope(userId, req.params.sessionId!, scope) });
+  } catch (error: any) {
+    console.error('❌ Error pinning chat scope:', error);
+    res.status(500).json({
+      error: 'Failed to pin chat scope',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * Unpin everything from a session, so datasets are searched again
+ */
+router.delete('/sessions/:sessionId/scope', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.session!.user?.id || 'anonymous';
+    res.json({ scope: await setSessionScope(userId, req.params.sessionId!, { datasetIds: [], tableauViews: [] }) });
+  } catch (error: any) {
+    console.error('❌ Error unpinning chat scope:', error);
+    res.status(500).json({
+      error: 'Failed to unpin chat scope',
+      details: error.message,
+    });
+  }
+});
+
 /**
  * Get chat history for a session
  */
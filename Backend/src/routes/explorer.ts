@@ -3,7 +3,9 @@ import { COLLECTIONS, getCollection, getDocument } from '../config/chromadb.js';
 import { datasetExplorerAgent } from '../agents/datasetExplorer.js';
 import { insightsGeneratorAgent } from '../agents/insightsGenerator.js';
 import { visualizerAgent } from '../agents/visualizer.js';
-import type { AgentState } from '../langgraph/state.js';
+import type { AgentState, Dataset } from '../langgraph/state.js';
+import { getAllRows } from '../services/csvProcessor.js';
+import { buildCombinedDataset, getCombinedRows, planCombination, rankJoinKeys } from '../services/datasetCombiner.js';
 
 const router = express.Router();
 
@@ -54,6 +56,86 @@ router.get('/datasets', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Combine datasets with a join or union and get the overview of the combined table.
+ * Join keys are inferred unless given as `joinKeys` (one list per joined dataset) or `joinOn` column names.
+ */
+router.post('/datasets/combine', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { datasetIds, type, joinKeys, joinOn, joinType, grain } = req.body;
+    const userId = req.session!.user?.id || 'anonymous';
+
+    if (!Array.isArray(datasetIds) || datasetIds.length < 2) {
+      return res.status(400).json({ error: 'At least two datasetIds are required' });
+    }
+
+    console.log(`🔗 Combining datasets: ${datasetIds.join(', ')}`);
+
+    const datasets: Dataset[] = [];
+    for (const datasetId of datasetIds) {
+      const dataset = await getDocument(COLLECTIONS.DATASETS, datasetId);
+      if (!dataset) {
+        return res.status(404).json({ error: 'Dataset not found', details: datasetId });
+      }
+      if (dataset.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      datasets.push({
+        id: datasetId,
+        name: dataset.name,
+        type: dataset.type,
+        columns: dataset.columns || [],
+        rowCount: dataset.rowCount,
+        sampleRows: dataset.sampleRows || [],
+        aggregatedData: dataset.aggregatedData,
+      } as Dataset);
+    }
+
+    const combination = planCombination(datasets, {
+      ...(type === 'join' || type === 'union' ? { type } : {}),
+      ...(Array.isArray(joinKeys) ? { joinKeys } : {}),
+      ...(Array.isArray(joinOn) ? { joinOn } : {}),
+      ...(joinType ? { joinType } : {}),
+      ...(grain ? { grain } : {}),
+    });
+    if (!combination) {
+      return res.status(422).json({ error: 'No matching columns found to combine these datasets' });
+    }
+
+    const combined = buildCombinedDataset(combination, datasets);
+    const rows = getCombinedRows(combined, datasets);
+    const overview = await datasetExplorerAgent(
+      { id: combined.id, name: combined.name, type: combined.type, rowCount: rows.length, columns: combined.columns || [] },
+      rows
+    );
+
+    // Alternative keys for the first join, so the client can offer them as overrides
+    const [first, second] = datasets.map(d => ({ columns: d.columns || [], rows: getCombinedRows(d, datasets) }));
+    const candidates = combination.type === 'join' && first && second ? rankJoinKeys(first, second).slice(0, 5) : [];
+
+    res.json({
+      dataset: {
+        id: combined.id,
+        name: combined.name,
+        type: combined.type,
+        summary: combined.summary,
+        columns: combined.columns,
+        rowCount: rows.length,
+      },
+      combination,
+      candidates,
+      overview,
+      preview: rows.slice(0, 10),
+    });
+  } catch (error: any) {
+    console.error('❌ Error combining datasets:', error);
+    res.status(500).json({
+      error: 'Failed to combine datasets',
+      details: error.message,
+    });
+  }
+});
+
 /**
  * Get detailed dataset overview and statistics
  */
@@ -135,10 +217,10 @@ router.post('/datasets/:datasetId/insights', requireAuth, async (req: Request, r
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    // Use stored sample data
-    const sampleData = dataset.sampleRows || dataset.aggregatedData || [];
+    // Statistics run on every row, not just the stored sample
+    const rows = getAllRows(datasetId!, dataset.sampleRows || dataset.aggregatedData || []);
 
-    console.log(`   Analyzing ${sampleData.length} rows`);
+    console.log(`   Analyzing ${rows.length} rows`);
 
     // Generate insights
     const insights = await insightsGeneratorAgent(
@@ -149,8 +231,7 @@ router.post('/datasets/:datasetId/insights', requireAuth, async (req: Request, r
         rowCount: dataset.rowCount,
         columns: dataset.columns || [],
       },
-      sampleData,
-      dataset.statistics
+      rows
     );
 
     res.json({ insights });
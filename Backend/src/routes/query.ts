@@ -0,0 +1,76 @@
+import express, { type Request, type Response } from 'express';
+import { listSqlTables, runUserSqlQuery, SqlQueryError } from '../services/sqlEngine.js';
+
+const router = express.Router();
+
+// Middleware to check authentication
+const requireAuth = (req: Request, res: Response, next: Function) => {
+  if (!req.session || !req.session.tokens || !req.session.tokens.access_token) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  next();
+};
+
+const ERROR_STATUS: Record<SqlQueryError['reason'], number> = {
+  read_only: 400,
+  invalid: 400,
+  timeout: 504,
+  memory: 422,
+  failed: 500,
+};
+
+const ERROR_MESSAGE: Partial<Record<SqlQueryError['reason'], string>> = {
+  timeout: 'Query timed out',
+  memory: 'Query used too much memory',
+};
+
+/**
+ * List the tables SQL queries can use: one per uploaded or ingested tabular dataset
+ */
+router.get('/schema', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.session!.user?.id || 'anonymous';
+    res.json({ tables: await listSqlTables(userId) });
+  } catch (error: any) {
+    console.error('❌ Error listing SQL tables:', error);
+    res.status(500).json({
+      error: 'Failed to list tables',
+      details: error.message,
+    });
+  }
+});
+
+/**
+ * Run a read-only SQL query over the user's datasets
+ */
+router.post('/sql', requireAuth, async (req: Request, res: Response) => {
+  const { sql, maxRows } = req.body || {};
+
+  if (typeof sql !== 'string' || !sql.trim()) {
+    return res.status(400).json({ error: 'sql is required' });
+  }
+  if (maxRows !== undefined && (typeof maxRows !== 'number' || maxRows < 1)) {
+    return res.status(400).json({ error: 'maxRows must be a positive number' });
+  }
+
+  try {
+    const userId = req.session!.user?.id || 'anonymous';
+    console.log(`🗄️  Running SQL: ${sql}`);
+    res.json(await runUserSqlQuery(sql, userId, maxRows !== undefined ? { limit: maxRows } : {}));
+  } catch (error: any) {
+    if (error instanceof SqlQueryError) {
+      return res.status(ERROR_STATUS[error.reason]).json({
+        error: ERROR_MESSAGE[error.reason] || 'Query failed',
+        reason: error.reason,
+        details: error.message,
+      });
+    }
+    console.error('❌ Error running SQL query:', error);
+    res.status(500).json({
+      error: 'Query failed',
+      details: error.message,
+    });
+  }
+});
+
+export default router;
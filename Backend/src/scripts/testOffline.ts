@@ -0,0 +1,705 @@
+/**
+ * Offline End-to-End Check
+ *
+ * Runs the chat workflow, the explorer, SQL query and chat scope routes and Tableau discovery against the
+ * scripted LLM, hash embeddings, fake search and fixture data - no network or API keys.
+ *
+ * Usage: npm run test:offline
+ */
+
+import assert from 'assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+
+// Must be set before any module reads the environment
+process.env.OFFLINE_MODE = 'true';
+const checkpointDir = await fs.mkdtemp(path.join(os.tmpdir(), 'offline-checkpoints-'));
+process.env.CHECKPOINT_DIR = checkpointDir;
+
+const { default: express } = await import('express');
+const { default: session } = await import('express-session');
+const { COLLECTIONS, getCollection, initializeChromaDB, upsertDocuments } = await import('../config/chromadb.js');
+const { offlineSession, seedOfflineFixtures } = await import('../services/offlineFixtures.js');
+const { getFixturePath } = await import('../config/offline.js');
+const { processTableauCSV } = await import('../services/csvProcessor.js');
+const { executeWorkflow, getRunCheckpoints, getRunOwner } = await import('../langgraph/workflow.js');
+const { llm } = await import('../config/llm.js');
+const { getRunTrace } = await import('../services/traceStore.js');
+const { cancelRun, registerRun } = await import('../services/runRegistry.js');
+const { visualizerAgent } = await import('../agents/visualizer.js');
+const { forecasterAgent } = await import('../agents/forecaster.js');
+const { viewDataset } = await import('../agents/tableauAgent.js');
+const { runTransform } = await import('../services/transformSandbox.js');
+const { datasetTableSources, runSqlQuery } = await import('../services/sqlEngine.js');
+const { collectReferenceValues, verifyNumericClaims } = await import('../utils/claimVerifier.js');
+const { isFollowUpQuery } = await import('../utils/conversation.js');
+const { computeStatisticalFindings } = await import('../utils/statistics.js');
+const { aggregateData } = await import('../utils/dataAggregation.js');
+const { getConversationContext, getSessionScope, recordTurn } = await import('../services/chatMemory.js');
+const { default: explorerRoutes } = await import('../routes/explorer.js');
+const { default: queryRoutes } = await import('../routes/query.js');
+const { default: chatRoutes } = await import('../routes/chat.js');
+const { buildTableauIndex, generateTableauEmbeddings, tableauDiscoveryAgent } = await import('../agents/tableauDiscovery.js');
+
+let failures = 0;
+
+async function check(name: string, fn: () => Promise<void>) {
+  try {
+    await fn();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failures++;
+    console.error(`❌ ${name}:`, error);
+  }
+}
+
+async function testWorkflow() {
+  await check('visualization query draws a chart from the fixture data', async () => {
+    const result = await executeWorkflow('Show total sales by region');
+    assert.equal(result.error ?? null, null);
+    assert.equal(result.visualization?.type, 'bar');
+    assert.equal(result.visualization?.data.length, 4);
+    assert.ok(result.summary);
+  });
+
+  await check('charts come with a Vega-Lite spec bound to the computed data', async () => {
+    const bar = await executeWorkflow('Show total sales by region');
+    const spec: any = bar.visualization?.spec;
+    assert.equal(spec?.mark?.type, 'bar');
+    assert.deepEqual(spec?.data?.values, bar.visualization?.data);
+    const forecast = await executeWorkflow('What will sales look like next quarter?');
+    // History, forecast and interval band are layered in one spec
+    assert.deepEqual((forecast.visualization?.spec as any)?.layer.map((l: any) => l.mark.type), ['area', 'line']);
+  });
+
+  await check('two-category and distribution charts get their own data shapes', async () => {
+    const stacked = await executeWorkflow('Show a stacked chart of sales by region and category');
+    assert.equal(stacked.visualization?.type, 'stacked_bar');
+    // One bar per region with a value per category
+    const categories = stacked.visualization?.series?.map(s => s.key) || [];
+    assert.ok(categories.length > 1);
+    assert.ok((stacked.visualization?.data || []).every((row: any) => row.name && categories.some(key => typeof row[key] === 'number')));
+    assert.equal((stacked.visualization?.spec as any)?.encoding?.y?.stack, 'zero');
+    const histogram = await executeWorkflow('Plot the distribution of order sales');
+    const bins = histogram.visualization?.data || [];
+    assert.equal(histogram.visualization?.type, 'histogram');
+    assert.equal(bins.length, 6);
+    // Every order falls in exactly one bin
+    assert.equal(bins.reduce((sum: number, b: any) => sum + b.value, 0), 48);
+    assert.equal((histogram.visualization?.spec as any)?.encoding?.x?.bin, 'binned');
+  });
+
+  await check('charts draw one series per category or per extra measure', async () => {
+    const regions = await executeWorkflow('Show sales by region over time');
+    assert.equal(regions.visualization?.type, 'line');
+    assert.deepEqual(regions.visualization?.series?.map(s => s.name).sort(), ['Central', 'East', 'South', 'West']);
+    const versus = await executeWorkflow('Show sales vs target by region');
+    const [sales, target] = versus.visualization?.series || [];
+    assert.deepEqual([sales?.name, target?.name], ['Sales', 'Target']);
+    assert.notEqual(sales?.color, target?.color);
+    // Each region row carries both measures
+    assert.ok((versus.visualization?.data || []).every((row: any) => typeof row.Sales === 'number' && typeof row.Target === 'number'));
+    // Sales and targets are on the same scale, so they share the axis as bars side by side
+    assert.equal(target?.axis, 'left');
+    assert.equal((versus.visualization?.spec as any)?.encoding?.xOffset?.field, 'series');
+  });
+
+  await check('charts are picked among recommended candidates with alternatives to try', async () => {
+    const result = await executeWorkflow('Show total sales by region');
+    // The same regions as a pie or box plot come first, then the best chart of other columns
+    assert.deepEqual(result.visualization?.alternatives?.map(a => [a.type, a.xAxis]), [
+      ['pie', 'Region'], ['boxplot', 'Region'], ['line', 'Order Date'],
+    ]);
+    assert.equal(result.visualization?.alternatives?.[0]?.data.length, 4);
+    // A line over a category is not a candidate, so it is redrawn as the closest one
+    const snapped = await executeWorkflow('Show sales by region as a line');
+    assert.equal(snapped.visualization?.type, 'bar');
+    assert.equal(snapped.visualization?.xAxis, 'Region');
+    assert.ok(snapped.warnings.some(w => w.includes('does not suit these columns')));
+  });
+
+  await check('overview questions get a ranked set of complementary charts', async () => {
+    const overview = await executeWorkflow('Give me an overview of sales');
+    // The repeated breakdown is dropped
+    assert.deepEqual(overview.visualizations.map(v => [v.type, v.role]), [
+      ['line', 'trend'], ['bar', 'breakdown'], ['histogram', 'distribution'],
+    ]);
+    assert.equal(overview.visualization, overview.visualizations[0]);
+    assert.equal(overview.visualizations[1]?.data.length, 4);
+    // Without a usable chart set the overview falls back to the default trend, breakdown and distribution
+    const glance = await executeWorkflow('Sales at a glance');
+    assert.deepEqual(glance.visualizations.map(v => v.role), ['trend', 'breakdown', 'distribution']);
+    assert.ok(glance.warnings.some(w => w.includes('default layouts')));
+  });
+
+  await check('figures in the summary are checked against the chart data', async () => {
+    const result = await executeWorkflow('Show total sales by region');
+    const status = (text: string) => result.claims.find(c => c.text === text)?.status;
+    assert.equal(status('$28,154'), 'verified');
+    assert.equal(status('29.4%'), 'verified');
+    assert.equal(status('$95,770'), 'verified');
+    assert.equal(status('$19,646'), 'corrected');
+    assert.equal(result.claims.find(c => c.status === 'corrected')?.original, '$19,900');
+    assert.equal(status('7.5%'), 'unverified');
+    assert.ok(result.summary.includes('East trails at $19,646'));
+  });
+
+  await check('figures are only verified against the values their sentence names', async () => {
+    // Two years of monthly sales, 1,000 rising by 50 a month
+    const data = Array.from({ length: 24 }, (_, i) => ({
+      name: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`,
+      value: 1000 + 50 * i,
+    }));
+    const references = collectReferenceValues({
+      userQuery: 'Show monthly sales',
+      visualization: { type: 'line', data, xAxis: 'Order Date', yAxis: 'Sales' },
+      relevantDatasets: [],
+      searchResults: null,
+      sqlQuery: null,
+    } as any);
+    const { claims } = verifyNumericClaims(
+      'Sales grew 37% over the period. December hit 61% of the total. Churn hit 8.3%. March came in at $1,530. '
+        + 'December 2024 reached $2,150, up 115% on January 2023.',
+      references
+    );
+    const status = (text: string) => claims.find(c => c.text === text)?.status;
+    assert.deepEqual(['37%', '61%', '8.3%', '$1,530'].map(status), ['unverified', 'unverified', 'unverified', 'unverified']);
+    assert.equal(status('$2,150'), 'verified');
+    assert.equal(claims.find(c => c.text === '115%')?.source, 'change between chart values');
+  });
+
+  await check('summary sentences cite the data behind them', async () => {
+    const result = await executeWorkflow('Show total sales by region');
+    assert.deepEqual(result.citations.map(c => [c.kind, c.datasetId, c.columns]), [['dataset', 'fixture_sales', ['Region', 'Sales']]]);
+    // Scripted markers pointing at no source are dropped; unmarked sentences are traced to their source
+    assert.match(result.summary, /about 43% more than East \[1\]\./);
+    assert.match(result.summary, /close behind South \[1\]\./);
+    assert.match(result.summary, /grow 7\.5% next year\.$/m);
+  });
+
+  await check('answers come with follow-up questions on real columns', async () => {
+    const result = await executeWorkflow('Show total sales by region');
+    // The repeated question and the one about no column of the data are dropped; templates fill up
+    assert.equal(result.suggestions[0], 'Which Category sells best in the South?');
+    assert.ok(!result.suggestions.includes('Show total sales by region'));
+    assert.ok(!result.suggestions.some(s => s.includes('weather')));
+    assert.ok(result.suggestions.length >= 3 && result.suggestions.length <= 5);
+  });
+
+  await check('follow-ups are told apart from fresh questions', async () => {
+    const previous = await executeWorkflow('Show total sales by region');
+    recordTurn('offline-user', 'offline-memory', 'Show total sales by region', previous);
+    const { previousTurn } = await getConversationContext('offline-user', 'offline-memory');
+    for (const query of ['now break that down by category', 'show it as a pie chart', 'why is that?', 'do the same for profit']) {
+      assert.equal(isFollowUpQuery(query, previousTurn), true, query);
+    }
+    // "this" and "it" in a question of its own do not refer back
+    for (const query of ['what is the profit margin in this dataset', 'show sales for this year', 'is it possible to see profit per region']) {
+      assert.equal(isFollowUpQuery(query, previousTurn), false, query);
+    }
+    // Another user with the same session id does not see the conversation
+    assert.equal((await getConversationContext('someone-else', 'offline-memory')).previousTurn, null);
+  });
+
+  await check('aggregates skip blank cells and scale to large uploads', async () => {
+    const blanks = [{ Region: 'East', Sales: 10 }, { Region: 'East', Sales: '' }, { Region: 'East', Sales: 'n/a' }];
+    assert.equal(aggregateData(blanks, { groupBy: 'Region', aggregateBy: 'Sales', operation: 'avg' })[0]?.value, 10);
+    const large = Array.from({ length: 200_000 }, (_, i) => ({ Region: 'East', Sales: i }));
+    assert.equal(aggregateData(large, { groupBy: 'Region', aggregateBy: 'Sales', operation: 'max' })[0]?.value, 199_999);
+  });
+
+  await check('statistics skip identifier columns and chance correlations', async () => {
+    // Independent random measures beside a row number and a postal code
+    let seed = 2;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const measures = Array.from({ length: 11 }, (_, i) => `Measure ${i + 1}`);
+    const rows = Array.from({ length: 40 }, (_, i) => ({
+      'Row ID': i + 1,
+      'Order Date': new Date(Date.UTC(2024, 0, 1 + i)).toISOString().substring(0, 10),
+      'Postal Code': 10000 + ((i * 37) % 13) * 10,
+      ...Object.fromEntries(measures.map(m => [m, Math.round(random() * 1000)])),
+    }));
+    // Uncorrected, three of the 55 pairs correlate at the 5% level
+    const findings = computeStatisticalFindings(rows, ['Row ID', 'Order Date', 'Postal Code', ...measures], 20);
+    assert.deepEqual(findings, []);
+  });
+
+  await check('runs record a trace of nodes and LLM calls', async () => {
+    const runId = randomUUID();
+    await executeWorkflow('Show total sales by region', undefined, { sessionId: 'offline', runId });
+    const trace = getRunTrace('offline', runId);
+    assert.equal(trace?.status, 'completed');
+    assert.deepEqual(trace?.nodes.map(n => n.node), ['router', 'retriever', 'analyzer', 'visualizer', 'summarizer', 'suggester']);
+    const visualizer = trace?.nodes.find(n => n.node === 'visualizer');
+    assert.equal(visualizer?.llmCalls[0]?.toolCalls?.[0]?.name, 'query_plan');
+    assert.ok(visualizer?.stateDiff.visualization);
+  });
+
+  await check('a retried answer is streamed again after a reset', async () => {
+    const stream = async () => {
+      let text = '';
+      let resets = 0;
+      await executeWorkflow('Show total sales by region', undefined, {
+        onToken: token => { text += token; },
+        onTokenReset: () => { text = ''; resets++; },
+      });
+      return { text, resets };
+    };
+    const clean = await stream();
+
+    // Fail the summary once, after its first tokens were sent
+    const streamChunks = llm._streamResponseChunks;
+    let failed = false;
+    llm._streamResponseChunks = async function* (...args: Parameters<typeof streamChunks>) {
+      const summarizing = JSON.stringify(args[0]).includes('Generate a helpful, professional response');
+      let sent = 0;
+      for await (const chunk of streamChunks.apply(llm, args)) {
+        yield chunk;
+        if (summarizing && !failed && chunk.text && ++sent === 3) {
+          failed = true;
+          throw Object.assign(new Error('Service overloaded'), { status: 529 });
+        }
+      }
+    };
+    try {
+      const retried = await stream();
+      assert.ok(failed);
+      assert.equal(retried.resets, 1);
+      assert.equal(retried.text, clean.text);
+    } finally {
+      llm._streamResponseChunks = streamChunks;
+    }
+  });
+
+  await check('reading a run while it runs keeps its checkpoints', async () => {
+    const clean = randomUUID();
+    await executeWorkflow('Show total sales by region', undefined, { sessionId: 'offline', runId: clean });
+
+    const runId = randomUUID();
+    let running = true;
+    const reader = (async () => {
+      while (running) {
+        await getRunOwner('offline', runId);
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    })();
+    await executeWorkflow('Show total sales by region', undefined, { sessionId: 'offline', runId }).finally(() => { running = false; });
+    await reader;
+    assert.equal((await getRunCheckpoints('offline', runId)).length, (await getRunCheckpoints('offline', clean)).length);
+  });
+
+  await check('sessions never share a checkpoint file', async () => {
+    const runId = randomUUID();
+    for (const [sessionId, userId] of [['offline/a', 'offline-user'], ['offline_a', 'someone-else']] as const) {
+      const context = await getConversationContext(userId, sessionId);
+      await executeWorkflow('Show total sales by region', undefined, { context, sessionId, runId });
+    }
+    assert.equal(await getRunOwner('offline/a', runId), 'offline-user');
+    assert.equal(await getRunOwner('offline_a', runId), 'someone-else');
+  });
+
+  await check('a chart plan that hits a transient error is retried instead of falling back', async () => {
+    const streamChunks = llm._streamResponseChunks;
+    let failed = false;
+    llm._streamResponseChunks = async function* (...args: Parameters<typeof streamChunks>) {
+      if (!failed && JSON.stringify(args[0]).includes('You are a data visualization expert')) {
+        failed = true;
+        throw Object.assign(new Error('Too many requests'), { status: 429 });
+      }
+      yield* streamChunks.apply(llm, args);
+    };
+    try {
+      const result = await executeWorkflow('Show total sales by region as a line');
+      assert.ok(failed);
+      assert.equal(result.visualization?.title, 'Sales by region');
+      assert.ok(!result.warnings.some(w => w.includes('default layout')));
+    } finally {
+      llm._streamResponseChunks = streamChunks;
+    }
+  });
+
+  await check('an in-flight run cannot be replaced by one with the same id', async () => {
+    const runId = randomUUID();
+    const signal = registerRun({ runId, sessionId: 'offline', userId: 'offline-user' });
+    assert.ok(signal);
+    assert.equal(registerRun({ runId, sessionId: 'offline', userId: 'someone-else' }), null);
+    assert.ok(cancelRun(runId));
+    assert.ok(signal.aborted);
+  });
+
+  await check('a chart that cannot be drawn becomes a warning instead of ending the run', async () => {
+    const update = await visualizerAgent({ userQuery: 'Show sales', relevantDatasets: [], metadata: {} } as any);
+    assert.equal(update.error, undefined);
+    assert.equal(update.nextAgent, 'summarizer');
+    assert.equal(update.warnings?.length, 1);
+  });
+
+  await check('Tableau view data is charted from its values', async () => {
+    const view = viewDataset({ id: 'view-regions', name: 'Regions' }, {
+      viewId: 'view-regions', columns: ['Region', 'Sales'], data: [['East', '100'], ['West', '250'], ['South', '75']], totalRowCount: 3,
+    });
+    const update = await visualizerAgent({ userQuery: 'Show total sales by region as a line', relevantDatasets: [view], metadata: {} } as any);
+    // View rows arrive as arrays of text cells
+    assert.equal(update.visualization?.type, 'bar');
+    assert.deepEqual(update.visualization?.data, [{ name: 'West', value: 250 }, { name: 'East', value: 100 }, { name: 'South', value: 75 }]);
+  });
+
+  await check('runs are deterministic', async () => {
+    const first = await executeWorkflow('Show monthly sales trend');
+    const second = await executeWorkflow('Show monthly sales trend');
+    assert.equal(first.visualization?.type, 'line');
+    assert.deepEqual(first.visualization?.data, second.visualization?.data);
+    assert.equal(first.summary, second.summary);
+  });
+
+  await check('forecast questions project the series with prediction intervals', async () => {
+    const result = await executeWorkflow('What will sales look like next quarter?');
+    const forecast = result.visualization?.forecast;
+    assert.equal(result.visualization?.type, 'line');
+    assert.equal(result.visualization?.data.length, 12);
+    assert.deepEqual(forecast?.points.map(p => p.name), ['2025-01', '2025-02', '2025-03']);
+    assert.ok(forecast?.points.every(p => p.lower <= p.value && p.value <= p.upper));
+  });
+
+  await check('forecasts on a Tableau view use the whole view, not its sample', async () => {
+    const sample = { columns: ['Month', 'Sales'], data: [['2024-01-01', '6076']], totalRowCount: 3 };
+    const view = viewDataset({ id: 'view-sales-dashboard', name: 'Sales Overview dashboard' }, { viewId: 'view-sales-dashboard', ...sample });
+    const full = await forecasterAgent({ userQuery: 'What will sales look like next quarter?', relevantDatasets: [view], metadata: {} } as any);
+    assert.equal(full.visualization?.rowsScanned, 3);
+    assert.deepEqual(full.warnings, []);
+
+    // A view that cannot be fetched again is forecast from its sample, with a warning
+    const missing = viewDataset({ id: 'view-missing', name: 'Missing' }, { viewId: 'view-missing', ...sample });
+    const partial = await forecasterAgent({ userQuery: 'What will sales look like next quarter?', relevantDatasets: [missing], metadata: {} } as any);
+    assert.ok(partial.warnings?.some(w => w.startsWith('The forecast uses only the first 1 of 3 rows of Missing')));
+  });
+
+  await check('lookup questions are answered with generated SQL', async () => {
+    const result = await executeWorkflow('List the 3 largest orders in the West');
+    assert.match(result.sqlQuery?.sql || '', /^SELECT "Order Date", "Product", "Sales" FROM sales/);
+    assert.deepEqual(result.sqlQuery?.rows.map(r => r.Sales), [2417, 2295, 2173]);
+    assert.ok(result.claims.length === 3 && result.claims.every(c => c.status === 'verified' && c.source === 'SQL result'));
+  });
+
+  await check('custom calculations run as a sandboxed transform that feeds the chart', async () => {
+    const result = await executeWorkflow('Show average sales per unit by region');
+    const [derived] = result.relevantDatasets;
+    assert.equal(derived?.transform?.rowCount, 48);
+    assert.equal(result.visualization?.queryPlan?.measure, 'Sales per Unit');
+    assert.deepEqual(result.visualization?.data.map(d => d.name), ['South', 'Central', 'West', 'East']);
+    // The chart is cited to the dataset the transform read from
+    assert.equal(result.citations[0]?.datasetId, 'fixture_sales');
+  });
+
+  await check('transforms cannot reach the server or run forever', async () => {
+    await assert.rejects(runTransform('return [process.env];', []), { reason: 'failed' });
+    await assert.rejects(runTransform('return [{ x: rows.constructor.constructor("return 1")() }];', []), { reason: 'failed' });
+    await assert.rejects(runTransform('while (true) {}', [], { timeoutMs: 200 }), { reason: 'timeout' });
+  });
+
+  await check('greetings go to the conversational agent', async () => {
+    const result = await executeWorkflow('hello');
+    assert.equal(result.visualization ?? null, null);
+    assert.match(result.summary || '', /analytics copilot/);
+  });
+
+  await check('vague queries ask for clarification', async () => {
+    const result = await executeWorkflow('show me the numbers');
+    assert.equal(result.metadata.needsClarification, true);
+  });
+
+  await check('benchmark queries use the fake search tool', async () => {
+    const result = await executeWorkflow('How do our sales compare with industry benchmarks?');
+    assert.equal(result.error ?? null, null);
+    assert.ok(result.searchResults);
+    const [web] = result.citations;
+    assert.equal(web?.kind, 'web');
+    assert.equal(web?.url, 'https://example.com/retail-benchmarks-2024');
+    assert.match(result.summary, /about 4% in 2024 \[1\]\./);
+  });
+
+  await check('questions spanning datasets join them on inferred keys', async () => {
+    const result = await executeWorkflow('Compare sales with targets by region');
+    const combination = result.relevantDatasets[0]?.combination;
+    assert.equal(combination?.type, 'join');
+    assert.deepEqual(combination?.joinKeys, [[{ left: 'Region', right: 'Region' }]]);
+    // Quarterly targets are totalled per region instead of repeated on every order
+    assert.equal(combination?.grain, 'key');
+    assert.deepEqual(result.visualization?.data.map(d => d.value), [25000, 21000, 29000, 23000]);
+  });
+
+  await check('data pinned to the chat is the only data retrieved', async () => {
+    const scoped = (scope: { datasetIds: string[]; tableauViews: Array<{ id: string; name: string; workbookName?: string }> }) => ({
+      context: { userId: 'offline', messages: [], previousTurn: null, scope },
+    });
+    const targets = await executeWorkflow('Compare sales with targets by region', undefined, scoped({ datasetIds: ['fixture_targets'], tableauViews: [] }));
+    assert.deepEqual(targets.relevantDatasets.map(d => d.id), ['fixture_targets']);
+    assert.equal(targets.metadata?.scopedToPins, true);
+    // A pinned view is used even for dashboard questions, instead of Tableau discovery
+    const view = await executeWorkflow('Find the shipping dashboard in Tableau', undefined, scoped({
+      datasetIds: [], tableauViews: [{ id: 'view-sales-region', name: 'Sales by Region', workbookName: 'Regional Sales' }],
+    }));
+    assert.deepEqual(view.relevantDatasets.map(d => d.name), ['Regional Sales - Sales by Region']);
+    const missing = await executeWorkflow('Show total sales by region', undefined, scoped({ datasetIds: ['no_such_dataset'], tableauViews: [] }));
+    assert.ok(missing.error?.includes('pinned'));
+    assert.ok(!missing.visualization);
+    // Pinned datasets ingested by another user are not loaded, with a warning
+    await upsertDocuments(COLLECTIONS.DATASETS, ['offline_private'], [[0]], [{ name: 'private.csv', userId: 'someone-else' }]);
+    const foreign = await executeWorkflow('Show total sales by region', undefined, scoped({ datasetIds: ['fixture_sales', 'offline_private'], tableauViews: [] }));
+    assert.deepEqual(foreign.relevantDatasets.map(d => d.id), ['fixture_sales']);
+    assert.ok(foreign.warnings.some(w => w.includes('"offline_private" is no longer available')));
+  });
+
+  await check('a pinned Tableau view is analysed from its values', async () => {
+    const result = await executeWorkflow('Show total sales by region', undefined, {
+      context: {
+        userId: 'offline', messages: [], previousTurn: null,
+        scope: { datasetIds: [], tableauViews: [{ id: 'view-sales-region', name: 'Sales by Region', workbookName: 'Regional Sales' }] },
+      },
+    });
+    assert.deepEqual(result.relevantDatasets.map(d => d.id), ['view-sales-region']);
+    assert.deepEqual(result.visualization?.data.map(d => d.value), [29764, 26880, 24226, 20904]);
+    // SQL sees the view as a table with typed columns
+    const [table] = datasetTableSources(result.relevantDatasets);
+    assert.deepEqual(table?.columns, [{ name: 'Region', type: 'TEXT' }, { name: 'Sales', type: 'INTEGER' }]);
+    const { rows } = await runSqlQuery(`SELECT "Sales" FROM ${table!.table} WHERE "Region" = 'West'`, [table!]);
+    assert.deepEqual(rows, [{ Sales: 24226 }]);
+  });
+
+  await check('Tableau queries chart data extracted from a fixture view', async () => {
+    const result = await executeWorkflow('Find the sales dashboard in Tableau');
+    assert.equal(result.error ?? null, null);
+    assert.match(result.relevantDatasets[0]?.name || '', /^Regional Sales/);
+    assert.ok(result.visualization);
+  });
+}
+
+async function testTableauDiscovery() {
+  await check('Tableau discovery ranks the matching view first', async () => {
+    const index = await generateTableauEmbeddings(await buildTableauIndex());
+    const result = await tableauDiscoveryAgent('sales by region', index);
+    assert.equal(result.results[0]?.name, 'Sales by Region');
+  });
+}
+
+async function testExplorerRoutes(datasetId: string) {
+  const app = express();
+  app.use(express.json());
+  app.use(session({ secret: 'offline', resave: false, saveUninitialized: false }));
+  app.use(offlineSession);
+  app.use('/api/explorer', explorerRoutes);
+
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  const request = async (method: string, url: string, body?: unknown) => {
+    const response = await fetch(`http://127.0.0.1:${port}/api/explorer${url}`, {
+      method,
+      ...(body ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {}),
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+
+  try {
+    await check('explorer lists the fixture datasets', async () => {
+      const { status, body } = await request('GET', '/datasets');
+      assert.equal(status, 200);
+      assert.ok(body.datasets.some((d: any) => d.id === datasetId));
+    });
+
+    await check('explorer builds a dataset overview', async () => {
+      const { status, body } = await request('GET', `/datasets/${datasetId}/overview`);
+      assert.equal(status, 200);
+      assert.equal(body.overview.totalColumns, 7);
+    });
+
+    await check('explorer generates insights', async () => {
+      const { status, body } = await request('POST', `/datasets/${datasetId}/insights`);
+      assert.equal(status, 200);
+      assert.equal(body.insights.length, 3);
+      // Confidence and statistic come from the computed findings, not the LLM
+      assert.equal(body.insights[0].statistic.test, 'linear_trend');
+      assert.equal(body.insights[0].statistic.sampleSize, 48);
+      assert.ok(body.insights.every((i: any) => i.confidence > 0.95 && i.statistic.label));
+    });
+
+    await check('explorer combines datasets', async () => {
+      const { status, body } = await request('POST', '/datasets/combine', { datasetIds: [datasetId, 'fixture_targets'] });
+      assert.equal(status, 200);
+      assert.equal(body.combination.type, 'join');
+      assert.equal(body.candidates[0]?.left, 'Region');
+    });
+
+    await check('explorer returns column details', async () => {
+      const { status, body } = await request('GET', `/datasets/${datasetId}/columns/Region`);
+      assert.equal(status, 200);
+      assert.ok(body.uniqueValues > 0);
+    });
+  } finally {
+    server.close();
+  }
+}
+
+function startQueryServer() {
+  const app = express();
+  app.use(express.json());
+  app.use(session({ secret: 'offline', resave: false, saveUninitialized: false }));
+  app.use(offlineSession);
+  app.use('/api/query', queryRoutes);
+
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  const request = async (method: string, url: string, body?: unknown) => {
+    const response = await fetch(`http://127.0.0.1:${port}/api/query${url}`, {
+      method,
+      ...(body ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {}),
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+  return { server, request };
+}
+
+// Runs before ChromaDB is initialized, as when CHROMA_ENABLED is off
+async function testQueryRoutesWithoutChromaDB() {
+  await processTableauCSV(getFixturePath('datasets/sales.csv'), 'sales.csv', 'fixture_sales');
+  const { server, request } = startQueryServer();
+
+  try {
+    await check('uploads stay queryable without ChromaDB', async () => {
+      const schema = await request('GET', '/schema');
+      assert.equal(schema.status, 200);
+      assert.deepEqual(schema.body.tables.map((t: any) => t.table), ['sales']);
+
+      const { status, body } = await request('POST', '/sql', { sql: 'SELECT COUNT(*) AS orders FROM sales' });
+      assert.equal(status, 200);
+      assert.ok(body.rows[0].orders > 0);
+    });
+  } finally {
+    server.close();
+  }
+}
+
+async function testQueryRoutes() {
+  const { server, request } = startQueryServer();
+
+  try {
+    await check('SQL schema lists a table per dataset', async () => {
+      const { status, body } = await request('GET', '/schema');
+      assert.equal(status, 200);
+      assert.deepEqual(body.tables.map((t: any) => t.table), ['sales', 'targets']);
+      assert.equal(body.tables[0].columns.find((c: any) => c.name === 'Sales')?.type, 'INTEGER');
+    });
+
+    await check('SQL queries run with a row limit', async () => {
+      const { status, body } = await request('POST', '/sql', {
+        sql: 'SELECT "Region", SUM("Sales") AS total FROM sales GROUP BY "Region" ORDER BY total DESC',
+        maxRows: 2,
+      });
+      assert.equal(status, 200);
+      assert.deepEqual(body.rows, [{ Region: 'South', total: 28154 }, { Region: 'Central', total: 25318 }]);
+      assert.equal(body.truncated, true);
+    });
+
+    await check('SQL queries are read-only', async () => {
+      for (const sql of ['DELETE FROM sales', 'SELECT 1; DROP TABLE sales']) {
+        const { status, body } = await request('POST', '/sql', { sql });
+        assert.equal(status, 400, sql);
+        assert.ok(['read_only', 'invalid'].includes(body.reason));
+      }
+    });
+
+    await check('SQL queries are stopped when they run too long or use too much memory', async () => {
+      const endless = 'WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n) SELECT COUNT(*) FROM n';
+      await assert.rejects(runSqlQuery(endless, [], { timeoutMs: 500 }), { reason: 'timeout' });
+      await assert.rejects(runSqlQuery('SELECT LENGTH(randomblob(200000000))', [], { memoryMb: 64 }), { reason: 'memory' });
+    });
+  } finally {
+    server.close();
+  }
+}
+
+async function testChatScopeRoutes(datasetId: string) {
+  const app = express();
+  app.use(express.json());
+  app.use(session({ secret: 'offline', resave: false, saveUninitialized: false }));
+  app.use(offlineSession);
+  app.use('/api/chat', chatRoutes);
+
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  const request = async (method: string, url: string, body?: unknown) => {
+    const response = await fetch(`http://127.0.0.1:${port}/api/chat${url}`, {
+      method,
+      ...(body ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {}),
+    });
+    return { status: response.status, body: await response.json() as any };
+  };
+
+  try {
+    await check('datasets are pinned to and unpinned from a chat session', async () => {
+      const listed = await request('GET', '/sessions/offline-scope/scope');
+      assert.equal(listed.body.scope, null);
+      assert.ok(listed.body.datasets.some((d: any) => d.id === datasetId));
+
+      const unknown = await request('PUT', '/sessions/offline-scope/scope', { datasetIds: ['no_such_dataset'] });
+      assert.equal(unknown.status, 404);
+
+      const pinned = await request('PUT', '/sessions/offline-scope/scope', {
+        datasetIds: [datasetId, datasetId], tableauViews: [{ id: 'view-shipping', name: 'Shipping Times' }],
+      });
+      assert.equal(pinned.status, 200);
+      assert.deepEqual(pinned.body.scope.datasetIds, [datasetId]);
+      assert.equal((await request('GET', '/sessions/offline-scope/scope')).body.scope.tableauViews[0].id, 'view-shipping');
+      // Pins are stored with the chat history, for the user who set them only
+      const stored = await getCollection(COLLECTIONS.CHAT_SCOPES).get({ where: { sessionId: 'offline-scope' } });
+      assert.equal(stored.ids.length, 1);
+      assert.equal(await getSessionScope('someone-else', 'offline-scope'), null);
+
+      const cleared = await request('DELETE', '/sessions/offline-scope/scope');
+      assert.equal(cleared.body.scope, null);
+      assert.equal((await getCollection(COLLECTIONS.CHAT_SCOPES).get({ where: { sessionId: 'offline-scope' } })).ids.length, 0);
+    });
+
+    await check('runs can only be read and retried by the user who started them', async () => {
+      const [ownRun, otherRun] = [randomUUID(), randomUUID()];
+      for (const [runId, userId] of [[ownRun, 'offline-user'], [otherRun, 'someone-else']] as const) {
+        const context = await getConversationContext(userId, 'offline-runs');
+        await executeWorkflow('Show total sales by region', undefined, { context, sessionId: 'offline-runs', runId });
+      }
+
+      assert.equal((await request('GET', `/runs/${ownRun}/trace?sessionId=offline-runs`)).status, 200);
+      assert.equal((await request('GET', `/runs/${otherRun}/trace?sessionId=offline-runs`)).status, 403);
+      assert.equal((await request('POST', `/runs/${otherRun}/retry`, { sessionId: 'offline-runs', fromNode: 'summarizer' })).status, 403);
+      assert.equal((await request('GET', '/runs/not-a-uuid?sessionId=offline-runs')).status, 400);
+      // Run ids are chosen by the client, so one cannot start a second run under an existing id
+      assert.equal((await request('POST', '/message', { message: 'Show total sales', sessionId: 'offline-runs', runId: ownRun })).status, 409);
+
+      const retried = await request('POST', `/runs/${ownRun}/retry`, { sessionId: 'offline-runs', fromNode: 'summarizer' });
+      assert.equal(retried.status, 200);
+      // The retried answer is what follow-ups build on
+      assert.ok((await getConversationContext('offline-user', 'offline-runs')).previousTurn);
+    });
+  } finally {
+    server.close();
+  }
+}
+
+try {
+  await testQueryRoutesWithoutChromaDB();
+  await initializeChromaDB();
+  const [datasetId] = await seedOfflineFixtures();
+  assert.ok(datasetId, 'no fixture datasets found');
+
+  await testWorkflow();
+  await testTableauDiscovery();
+  await testExplorerRoutes(datasetId);
+  await testQueryRoutes();
+  await testChatScopeRoutes(datasetId);
+} finally {
+  await fs.rm(checkpointDir, { recursive: true, force: true });
+}
+
+console.log(failures === 0 ? '\n✅ All offline checks passed' : `\n❌ ${failures} offline check(s) failed`);
+process.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,140 @@
+import { COLLECTIONS, deleteDocument, getCollection, getDocument, upsertDocuments } from '../config/chromadb.js';
+import type { AgentState, ChatScope, Message, PreviousTurn } from '../langgraph/state.js';
+
+/**
+ * Chat Memory - Keeps the recent turns of each chat session in memory so the
+ * workflow can resolve follow-up questions ("now break that down by region")
+ */
+
+export interface ConversationContext {
+  userId: string;
+  messages: Message[];
+  previousTurn: PreviousTurn | null;
+  scope: ChatScope | null;
+}
+
+interface SessionMemory {
+  messages: Message[];
+  lastTurn: PreviousTurn | null;
+  updatedAt: number;
+}
+
+// Only the most recent messages are replayed into the workflow
+const MAX_HISTORY_MESSAGES = 20;
+const SESSION_TTL = 24 * 60 * 60 * 1000; // 24 hours, same as the session cookie
+
+// Keyed by user and session, so a session id alone never reaches another user's conversation
+const sessions = new Map<string, SessionMemory>();
+
+const memoryKey = (userId: string, sessionId: string) => JSON.stringify([userId, sessionId]);
+
+// Pins without ChromaDB; unlike the turns they do not expire
+const scopes = new Map<string, ChatScope>();
+
+/**
+ * Drop sessions that have not been used within the TTL
+ */
+function pruneExpiredSessions() {
+  const now = Date.now();
+  for (const [key, memory] of sessions) {
+    if (now - memory.updatedAt > SESSION_TTL) {
+      sessions.delete(key);
+    }
+  }
+}
+
+/**
+ * Get the earlier turns and the pins of a session to seed the workflow state
+ */
+export async function getConversationContext(userId: string, sessionId: string): Promise<ConversationContext> {
+  pruneExpiredSessions();
+
+  const memory = sessions.get(memoryKey(userId, sessionId));
+  return {
+    userId,
+    messages: memory?.messages.slice(-MAX_HISTORY_MESSAGES) || [],
+    previousTurn: memory?.lastTurn || null,
+    scope: await getSessionScope(userId, sessionId),
+  };
+}
+
+/**
+ * Datasets and Tableau views pinned to a user's session, null when nothing is pinned.
+ * Pins are stored in ChromaDB with the chat history so they outlive restarts and the memory TTL.
+ */
+export async function getSessionScope(userId: string, sessionId: string): Promise<ChatScope | null> {
+  if (!getCollection(COLLECTIONS.CHAT_SCOPES)) {
+    return scopes.get(memoryKey(userId, sessionId)) || null;
+  }
+
+  const stored: any = await getDocument(COLLECTIONS.CHAT_SCOPES, memoryKey(userId, sessionId));
+  if (!stored || stored.userId !== userId || stored.sessionId !== sessionId) {
+    return null;
+  }
+  return {
+    datasetIds: JSON.parse(stored.datasetIds || '[]'),
+    tableauViews: JSON.parse(stored.tableauViews || '[]'),
+  };
+}
+
+/**
+ * Pin datasets and Tableau views to a user's session; an empty scope unpins everything
+ */
+export async function setSessionScope(userId: string, sessionId: string, scope: ChatScope): Promise<ChatScope | null> {
+  const key = memoryKey(userId, sessionId);
+  const pinned = scope.datasetIds.length > 0 || scope.tableauViews.length > 0 ? scope : null;
+
+  if (!getCollection(COLLECTIONS.CHAT_SCOPES)) {
+    console.log('ℹ️  ChromaDB disabled - chat pins are kept in memory until the server restarts');
+    if (pinned) scopes.set(key, pinned);
+    else scopes.delete(key);
+    return pinned;
+  }
+
+  if (!pinned) {
+    await deleteDocument(COLLECTIONS.CHAT_SCOPES, key);
+    return null;
+  }
+  // Metadata values must be scalars, so the lists are stored as JSON
+  await upsertDocuments(COLLECTIONS.CHAT_SCOPES, [key], [[0]], [{
+    userId,
+    sessionId,
+    datasetIds: JSON.stringify(pinned.datasetIds),
+    tableauViews: JSON.stringify(pinned.tableauViews),
+    updatedAt: new Date().toISOString(),
+  }]);
+  return pinned;
+}
+
+/**
+ * Record a completed turn (user query + final workflow state) for a user's session
+ */
+export function recordTurn(userId: string, sessionId: string, userQuery: string, result: AgentState) {
+  const memory = sessions.get(memoryKey(userId, sessionId)) || { messages: [], lastTurn: null, updatedAt: 0 };
+  const summary = result.summary || 'No response generated';
+
+  memory.messages = [
+    ...memory.messages,
+    { role: 'user' as const, content: userQuery, timestamp: new Date() },
+    { role: 'assistant' as const, content: summary, timestamp: new Date() },
+  ].slice(-MAX_HISTORY_MESSAGES);
+
+  // Keep the previous datasets when the turn did not retrieve new ones
+  // (e.g. a conversational reply in the middle of an analysis)
+  const datasets = result.relevantDatasets?.length > 0
+    ? result.relevantDatasets
+    : memory.lastTurn?.datasets || [];
+
+  memory.lastTurn = {
+    userQuery,
+    summary,
+    intent: result.intent,
+    datasets,
+    visualization: result.visualization || memory.lastTurn?.visualization || null,
+    filters: result.filters || [],
+  };
+  memory.updatedAt = Date.now();
+
+  sessions.set(memoryKey(userId, sessionId), memory);
+}
+
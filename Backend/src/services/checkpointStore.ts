@@ -0,0 +1,273 @@
+/**
+ * Checkpoint Store - File-backed LangGraph checkpointer
+ * Each workflow run is a thread (`<sessionId>:<runId>`) persisted to its own JSON file,
+ * so a failed run can be resumed or re-run from any node after a restart
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { MemorySaver, type Checkpoint, type CheckpointMetadata, type CheckpointTuple } from '@langchain/langgraph';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const checkpointDir = process.env.CHECKPOINT_DIR || path.join(__dirname, '../../data/checkpoints');
+// Runs older than this can no longer be retried; their files are deleted
+const RETENTION_MS = Number(process.env.CHECKPOINT_RETENTION_DAYS || 7) * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// On-disk layout of a thread: the MemorySaver maps with bytes base64-encoded
+interface ThreadFile {
+  storage: Record<string, Record<string, [string, string, string | undefined]>>;
+  writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+const encode = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+const decode = (text: string) => new Uint8Array(Buffer.from(text, 'base64'));
+
+type CheckpointListOptions = Parameters<MemorySaver['list']>[1];
+type PendingWrite = Parameters<MemorySaver['putWrites']>[1][number];
+
+/**
+ * Whether a run id from a client is well-formed (a UUID)
+ */
+export function isValidRunId(runId: unknown): runId is string {
+  return typeof runId === 'string' && RUN_ID_PATTERN.test(runId);
+}
+
+/**
+ * Thread id for a workflow run
+ */
+export function getThreadId(sessionId: string, runId: string): string {
+  if (!isValidRunId(runId)) {
+    throw new Error(`Invalid run id: ${runId}`);
+  }
+  return `${sessionId}:${runId}`;
+}
+
+/**
+ * Split a thread id back into its session and run (run ids are UUIDs, so never contain ':')
+ */
+export function parseThreadId(threadId: string): { sessionId: string; runId: string } {
+  const separator = threadId.lastIndexOf(':');
+  return { sessionId: threadId.slice(0, separator), runId: threadId.slice(separator + 1) };
+}
+
+export class FileCheckpointSaver extends MemorySaver {
+  private loadedThreads = new Set<string>();
+  // The last write of each thread; the next one waits for it so writes never interleave
+  private pendingWrites = new Map<string, Promise<void>>();
+  // Threads of running workflows, with how many runs hold them; these stay in memory
+  private heldThreads = new Map<string, number>();
+  private lastPrune = 0;
+
+  constructor(private directory: string = checkpointDir) {
+    super();
+  }
+
+  // Session ids come from clients, so file names are hashes: safe and never shared by two threads
+  private threadFile(threadId: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(threadId).digest('hex')}.json`);
+  }
+
+  // Writes are keyed by JSON.stringify([threadId, checkpointNs, checkpointId])
+  private threadWriteKeys(threadId: string): string[] {
+    return Object.keys(this.writes).filter(key => JSON.parse(key)[0] === threadId);
+  }
+
+  /**
+   * Load a thread from disk the first time it is accessed
+   */
+  private async loadThread(threadId: string | undefined) {
+    if (!threadId || this.loadedThreads.has(threadId)) {
+      return;
+    }
+    this.loadedThreads.add(threadId);
+
+    let file: ThreadFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.threadFile(threadId), 'utf-8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`❌ Failed to load checkpoints for ${threadId}:`, error);
+      }
+      return;
+    }
+
+    this.storage[threadId] = Object.fromEntries(
+      Object.entries(file.storage).map(([ns, checkpoints]) => [
+        ns,
+        Object.fromEntries(
+          Object.entries(checkpoints).map(([id, [checkpoint, metadata, parentId]]) => [
+            id,
+            [decode(checkpoint), decode(metadata), parentId] as [Uint8Array, Uint8Array, string | undefined],
+          ])
+        ),
+      ])
+    );
+    for (const [key, writes] of Object.entries(file.writes)) {
+      this.writes[key] = Object.fromEntries(
+        Object.entries(writes).map(([innerKey, [taskId, channel, value]]) => [
+          innerKey,
+          [taskId, channel, decode(value)] as [string, string, Uint8Array],
+        ])
+      );
+    }
+  }
+
+  /**
+   * Write a thread back to disk, after any write of the same thread still in progress
+   */
+  private async persistThread(threadId: string | undefined) {
+    if (!threadId) {
+      return;
+    }
+
+    // Serialize now: the thread can change (or be unloaded) while earlier writes finish
+    const contents = JSON.stringify(this.threadContents(threadId));
+    const previous = this.pendingWrites.get(threadId) || Promise.resolve();
+    const write = previous.catch(() => undefined).then(() => this.writeThreadFile(threadId, contents));
+    this.pendingWrites.set(threadId, write);
+    try {
+      await write;
+    } finally {
+      if (this.pendingWrites.get(threadId) === write) {
+        this.pendingWrites.delete(threadId);
+      }
+    }
+    await this.pruneExpiredThreads();
+  }
+
+  /**
+   * The current state of a thread in its on-disk layout
+   */
+  private threadContents(threadId: string): ThreadFile {
+    const file: ThreadFile = { storage: {}, writes: {} };
+    for (const [ns, checkpoints] of Object.entries(this.storage[threadId] || {})) {
+      file.storage[ns] = Object.fromEntries(
+        Object.entries(checkpoints).map(([id, [checkpoint, metadata, parentId]]) => [
+          id,
+          [encode(checkpoint), encode(metadata), parentId] as [string, string, string | undefined],
+        ])
+      );
+    }
+    for (const key of this.threadWriteKeys(threadId)) {
+      file.writes[key] = Object.fromEntries(
+        Object.entries(this.writes[key] || {}).map(([innerKey, [taskId, channel, value]]) => [
+          innerKey,
+          [taskId, channel, encode(value)] as [string, string, string],
+        ])
+      );
+    }
+    return file;
+  }
+
+  /**
+   * Write a serialized thread to a temporary file and move it into place,
+   * so a crash mid-write never leaves a truncated file
+   */
+  private async writeThreadFile(threadId: string, contents: string) {
+    const target = this.threadFile(threadId);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temporary, contents);
+    await fs.rename(temporary, target);
+  }
+
+  /**
+   * Delete thread files not written to within the retention period (at most once an hour)
+   */
+  private async pruneExpiredThreads() {
+    const now = Date.now();
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrune = now;
+
+    try {
+      for (const name of await fs.readdir(this.directory)) {
+        const file = path.join(this.directory, name);
+        const { mtimeMs } = await fs.stat(file);
+        if (now - mtimeMs > RETENTION_MS) {
+          await fs.rm(file, { force: true });
+        }
+      }
+    } catch (error) {
+      console.error('❌ Failed to prune expired checkpoints:', error);
+    }
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    await this.loadThread(config.configurable?.thread_id);
+    return super.getTuple(config);
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    await this.loadThread(config.configurable?.thread_id);
+    yield* super.list(config, options);
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    await this.loadThread(config.configurable?.thread_id);
+    const result = await super.put(config, checkpoint, metadata);
+    await this.persistThread(config.configurable?.thread_id);
+    return result;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    await this.loadThread(config.configurable?.thread_id);
+    await super.putWrites(config, writes, taskId);
+    await this.persistThread(config.configurable?.thread_id);
+  }
+
+  /**
+   * Keep a thread in memory while a workflow runs on it, until releaseThread
+   */
+  holdThread(threadId: string) {
+    this.heldThreads.set(threadId, (this.heldThreads.get(threadId) || 0) + 1);
+  }
+
+  /**
+   * End a hold from holdThread; the last one unloads the thread
+   */
+  releaseThread(threadId: string) {
+    const holds = (this.heldThreads.get(threadId) || 0) - 1;
+    if (holds > 0) {
+      this.heldThreads.set(threadId, holds);
+      return;
+    }
+    this.heldThreads.delete(threadId);
+    this.unloadThread(threadId);
+  }
+
+  /**
+   * Drop a finished thread from memory; it is reloaded from disk when accessed again.
+   * Threads held by a running workflow stay loaded.
+   */
+  unloadThread(threadId: string) {
+    if (this.heldThreads.has(threadId)) {
+      return;
+    }
+    delete this.storage[threadId];
+    for (const key of this.threadWriteKeys(threadId)) {
+      delete this.writes[key];
+    }
+    this.loadedThreads.delete(threadId);
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.pendingWrites.get(threadId)?.catch(() => undefined);
+    await super.deleteThread(threadId);
+    this.loadedThreads.delete(threadId);
+    await fs.rm(this.threadFile(threadId), { force: true });
+  }
+}
+
+// Shared checkpointer for all workflow runs
+export const checkpointer = new FileCheckpointSaver();
@@ -75,7 +75,8 @@ async function generateDatasetSummary(
  */
 export async function processTableauCSV(
   filePath: string,
-  originalName: string
+  originalName: string,
+  id: string = `tableau_csv_${Date.now()}`
 ): Promise<TableauDataset> {
   console.log('📊 Processing Tableau CSV:', originalName);
 
@@ -92,7 +93,7 @@ export async function processTableauCSV(
 
   // Create dataset object
   const dataset: TableauDataset = {
-    id: `tableau_csv_${Date.now()}`,
+    id,
     name: originalName.replace('.csv', ''),
     type: 'tableau_csv',
     summary,
@@ -152,6 +153,15 @@ export function getDatasetById(id: string): any {
   return global.uploadedDatasets.get(id);
 }
 
+/**
+ * Get every row of a dataset - the full in-memory rows for uploaded CSVs,
+ * otherwise the rows carried on the dataset itself
+ */
+export function getAllRows(datasetId: string, fallbackRows: any[] = []): any[] {
+  const fullDataset = getDatasetById(datasetId);
+  return fullDataset?.allRows || fallbackRows;
+}
+
 /**
  * Search for relevant datasets based on query
  */
@@ -0,0 +1,455 @@
+/**
+ * Dataset Combiner - Joins datasets on matching keys and unions similarly shaped files,
+ * so one query plan can aggregate across several sources.
+ * Join keys are inferred from column names and overlapping values unless the user sets them.
+ */
+
+import type { Dataset, DatasetCombination, JoinKey } from '../langgraph/state.js';
+import { detectNumericColumns, parseNumeric } from '../utils/dataAggregation.js';
+import { getAllRows } from './csvProcessor.js';
+
+export interface CombinedTable {
+  columns: string[];
+  rows: any[];
+}
+
+export interface JoinKeyCandidate extends JoinKey {
+  nameScore: number;
+  valueOverlap: number;
+  score: number;
+}
+
+interface Source {
+  dataset: Dataset;
+  columns: string[];
+  rows: any[];
+}
+
+// Column added to unioned rows so each row can still be traced to its file
+export const UNION_SOURCE_COLUMN = 'Source';
+
+// Share of columns two datasets must have in common to be unioned
+const UNION_COLUMN_OVERLAP = 0.8;
+// Minimum share of distinct key values found on both sides
+const MIN_VALUE_OVERLAP = 0.3;
+const MIN_KEY_SCORE = 0.5;
+// Values sampled per column when inferring keys
+const KEY_SAMPLE_SIZE = 1000;
+// Words that only describe the role of an id column ("Customer ID" ~ "Customer")
+const KEY_SUFFIXES = /(id|key|code|name|no|number)$/;
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Comparable form of a key cell: trimmed and case-insensitive, numbers in canonical form
+ */
+function normalizeValue(value: any): string {
+  const text = String(value ?? '').trim().toLowerCase();
+  const number = parseNumeric(value);
+  return text !== '' && !isNaN(number) ? String(number) : text;
+}
+
+/**
+ * Every row of a dataset: full in-memory rows for uploads, the stored rows otherwise
+ */
+export function getDatasetRows(dataset: Dataset): any[] {
+  return getAllRows(dataset.id, (dataset as any).aggregatedData || dataset.sampleRows || []);
+}
+
+function toSource(dataset: Dataset): Source {
+  const rows = getDatasetRows(dataset);
+  return { dataset, rows, columns: dataset.columns || (rows[0] ? Object.keys(rows[0]) : []) };
+}
+
+/**
+ * How alike two column names are: 1 for the same name, less for shared words or id suffixes
+ */
+function columnNameScore(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.replace(KEY_SUFFIXES, '') === right.replace(KEY_SUFFIXES, '')) return 0.8;
+
+  const leftWords = new Set(a.toLowerCase().match(/[a-z0-9]+/g) || []);
+  const rightWords = new Set(b.toLowerCase().match(/[a-z0-9]+/g) || []);
+  const shared = [...leftWords].filter(word => rightWords.has(word)).length;
+  return shared === 0 ? 0 : (0.6 * shared) / new Set([...leftWords, ...rightWords]).size;
+}
+
+function distinctValues(rows: any[], column: string): Set<string> {
+  const values = new Set<string>();
+  for (const row of rows.slice(0, KEY_SAMPLE_SIZE)) {
+    const value = normalizeValue(row[column]);
+    if (value) values.add(value);
+  }
+  return values;
+}
+
+/**
+ * Share of the smaller column's distinct values that also appear in the other column
+ */
+function valueOverlap(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 || right.size === 0) return 0;
+  const [small, large] = left.size <= right.size ? [left, right] : [right, left];
+  let shared = 0;
+  small.forEach(value => {
+    if (large.has(value)) shared++;
+  });
+  return shared / small.size;
+}
+
+/**
+ * Whether a column looks like a measure (continuous numbers) rather than an identifier
+ */
+function isMeasureColumn(rows: any[], column: string): boolean {
+  if (normalizeName(column).match(KEY_SUFFIXES)) return false;
+  const sample = rows.slice(0, 50).map(row => parseNumeric(row[column])).filter(n => !isNaN(n));
+  return sample.length > 0 && sample.some(n => !Number.isInteger(n) || Math.abs(n) >= 1000);
+}
+
+/**
+ * Score every column pair of two tables as a join key, best first
+ */
+export function rankJoinKeys(left: CombinedTable, right: CombinedTable): JoinKeyCandidate[] {
+  const candidates: JoinKeyCandidate[] = [];
+
+  for (const leftColumn of left.columns) {
+    if (isMeasureColumn(left.rows, leftColumn)) continue;
+    const leftValues = distinctValues(left.rows, leftColumn);
+
+    for (const rightColumn of right.columns) {
+      if (isMeasureColumn(right.rows, rightColumn)) continue;
+
+      const nameScore = columnNameScore(leftColumn, rightColumn);
+      const overlap = valueOverlap(leftValues, distinctValues(right.rows, rightColumn));
+      if (overlap < MIN_VALUE_OVERLAP) continue;
+
+      const score = 0.5 * nameScore + 0.5 * overlap;
+      if (score >= MIN_KEY_SCORE) {
+        candidates.push({ left: leftColumn, right: rightColumn, nameScore, valueOverlap: overlap, score });
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick the join keys for two tables: the best candidate, plus any other column pair
+ * with the same name and overlapping values (composite keys such as Region + Category)
+ */
+export function inferJoinKeys(left: CombinedTable, right: CombinedTable): JoinKey[] {
+  const ranked = rankJoinKeys(left, right);
+  const best = ranked[0];
+  if (!best) return [];
+
+  const keys: JoinKey[] = [{ left: best.left, right: best.right }];
+  for (const candidate of ranked.slice(1)) {
+    const unused = keys.every(key => key.left !== candidate.left && key.right !== candidate.right);
+    if (unused && candidate.nameScore === 1 && candidate.valueOverlap >= 0.5) {
+      keys.push({ left: candidate.left, right: candidate.right });
+    }
+  }
+  return keys;
+}
+
+/**
+ * Whether two datasets have (nearly) the same columns and can be stacked
+ */
+export function canUnion(left: string[], right: string[]): boolean {
+  const leftNames = new Set(left.map(normalizeName));
+  const rightNames = new Set(right.map(normalizeName));
+  const shared = [...leftNames].filter(name => rightNames.has(name)).length;
+  const total = new Set([...leftNames, ...rightNames]).size;
+  return total > 0 && shared / total >= UNION_COLUMN_OVERLAP;
+}
+
+/**
+ * Stack rows of similarly shaped datasets, matching columns by normalized name.
+ * Column names come from the first dataset that has them.
+ */
+function unionSources(sources: Source[]): CombinedTable {
+  const columns: string[] = [];
+  const byName = new Map<string, string>();
+  for (const source of sources) {
+    for (const column of source.columns) {
+      const name = normalizeName(column);
+      if (!byName.has(name)) {
+        byName.set(name, column);
+        columns.push(column);
+      }
+    }
+  }
+
+  const rows = sources.flatMap(source => source.rows.map(row => {
+    const combined: Record<string, any> = { [UNION_SOURCE_COLUMN]: source.dataset.name };
+    for (const column of source.columns) {
+      combined[byName.get(normalizeName(column)) || column] = row[column];
+    }
+    return combined;
+  }));
+
+  return { columns: [UNION_SOURCE_COLUMN, ...columns], rows };
+}
+
+/**
+ * Total the numeric columns of a table per key; other columns are dropped
+ * since they have no single value per key
+ */
+function totalByKeys(table: CombinedTable, keyColumns: string[]): CombinedTable {
+  const measures = detectNumericColumns(table.rows, table.columns).filter(c => !keyColumns.includes(c));
+  const groups = new Map<string, Record<string, any>>();
+
+  for (const row of table.rows) {
+    const groupKey = keyColumns.map(c => normalizeValue(row[c])).join('\u0000');
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = Object.fromEntries(keyColumns.map(c => [c, row[c]]));
+      measures.forEach(m => (group![m] = 0));
+      groups.set(groupKey, group);
+    }
+    for (const measure of measures) {
+      const value = parseNumeric(row[measure]);
+      if (!isNaN(value)) group[measure] += value;
+    }
+  }
+
+  return { columns: [...keyColumns, ...measures], rows: Array.from(groups.values()) };
+}
+
+/**
+ * Hash join `right` onto `left`. Right key columns merge into the left ones; other
+ * right columns that clash with a left column get the right dataset's name appended.
+ */
+function joinTables(
+  left: CombinedTable,
+  right: CombinedTable,
+  keys: JoinKey[],
+  joinType: NonNullable<DatasetCombination['joinType']>,
+  rightName: string
+): CombinedTable {
+  const rightKeyColumns = keys.map(k => k.right);
+  const renamed = new Map<string, string>();
+  for (const column of right.columns) {
+    if (rightKeyColumns.includes(column)) continue;
+    renamed.set(column, left.columns.includes(column) ? `${column} (${rightName})` : column);
+  }
+
+  const keyOf = (row: any, columns: string[]) => columns.map(c => normalizeValue(row[c])).join('\u0000');
+  const index = new Map<string, any[]>();
+  for (const row of right.rows) {
+    const key = keyOf(row, rightKeyColumns);
+    const matches = index.get(key);
+    if (matches) matches.push(row);
+    else index.set(key, [row]);
+  }
+
+  const rightValues = (row: any) =>
+    Object.fromEntries([...renamed].map(([column, name]) => [name, row[column]]));
+
+  const rows: any[] = [];
+  const matchedKeys = new Set<string>();
+  for (const leftRow of left.rows) {
+    const key = keyOf(leftRow, keys.map(k => k.left));
+    const matches = index.get(key);
+    if (matches) {
+      matchedKeys.add(key);
+      matches.forEach(rightRow => rows.push({ ...leftRow, ...rightValues(rightRow) }));
+    } else if (joinType !== 'inner') {
+      rows.push({ ...leftRow });
+    }
+  }
+
+  // Full joins keep right rows without a match, with their key values under the left key columns
+  if (joinType === 'full') {
+    for (const [key, matches] of index) {
+      if (matchedKeys.has(key)) continue;
+      for (const rightRow of matches) {
+        const keyValues = Object.fromEntries(keys.map(k => [k.left, rightRow[k.right]]));
+        rows.push({ ...keyValues, ...rightValues(rightRow) });
+      }
+    }
+  }
+
+  return { columns: [...left.columns, ...renamed.values()], rows };
+}
+
+/**
+ * Build the combined table of a combination from its source datasets
+ */
+export function combineDatasets(combination: DatasetCombination, datasets: Dataset[]): CombinedTable {
+  const sources = combination.datasetIds.map(id => {
+    const dataset = datasets.find(d => d.id === id);
+    if (!dataset) {
+      throw new Error(`Dataset ${id} is not available to combine`);
+    }
+    return toSource(dataset);
+  });
+
+  if (combination.type === 'union') {
+    return unionSources(sources);
+  }
+
+  const [first, ...rest] = sources;
+  if (!first) {
+    return { columns: [], rows: [] };
+  }
+
+  const joinType = combination.joinType || 'left';
+  const byKey = combination.grain === 'key';
+  // Keep every column a later join needs as a key of the first table
+  const firstKeys = [...new Set((combination.joinKeys || []).flat().map(k => k.left))]
+    .filter(column => first.columns.includes(column));
+  let table: CombinedTable = byKey ? totalByKeys(first, firstKeys) : first;
+
+  rest.forEach((source, i) => {
+    const keys = combination.joinKeys?.[i] || [];
+    if (keys.length === 0) {
+      throw new Error(`No join keys for ${source.dataset.name}`);
+    }
+    const right = byKey ? totalByKeys(source, keys.map(k => k.right)) : source;
+    table = joinTables(table, right, keys, joinType, source.dataset.name);
+  });
+
+  return table;
+}
+
+/**
+ * Whether any key value occurs more than once in a table
+ */
+function hasDuplicateKeys(rows: any[], columns: string[]): boolean {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const key = columns.map(c => normalizeValue(row[c])).join('\u0000');
+    if (seen.has(key)) return true;
+    seen.add(key);
+  }
+  return false;
+}
+
+export interface CombinationRequest {
+  type?: 'join' | 'union';
+  // Columns the user asked to join on: a shared name ("Region") or a pair ("Order Region=Region")
+  joinOn?: string[];
+  joinKeys?: JoinKey[][];
+  joinType?: DatasetCombination['joinType'];
+  grain?: DatasetCombination['grain'];
+}
+
+/**
+ * Resolve the keys the user named against the columns of both sides
+ */
+function resolveUserKeys(joinOn: string[], left: string[], right: string[]): JoinKey[] {
+  const find = (columns: string[], name: string) =>
+    columns.find(c => normalizeName(c) === normalizeName(name));
+
+  return joinOn.flatMap(spec => {
+    const [leftName, rightName = leftName] = spec.split('=').map(part => part.trim());
+    const leftColumn = leftName ? find(left, leftName) : undefined;
+    const rightColumn = rightName ? find(right, rightName) : undefined;
+    return leftColumn && rightColumn ? [{ left: leftColumn, right: rightColumn }] : [];
+  });
+}
+
+/**
+ * Decide how to combine datasets: union when they share their columns, otherwise join
+ * on the keys the user gave or on inferred ones. Returns null when they cannot be combined.
+ */
+export function planCombination(
+  datasets: Dataset[],
+  request: CombinationRequest = {}
+): DatasetCombination | null {
+  const sources = datasets.map(toSource);
+  if (sources.length < 2) return null;
+
+  const unionable = sources.every(source => canUnion(sources[0]!.columns, source.columns));
+  if (request.type !== 'join' && unionable && !request.joinOn?.length && !request.joinKeys) {
+    return { type: 'union', datasetIds: datasets.map(d => d.id) };
+  }
+  if (request.type === 'union') return null;
+
+  let table: CombinedTable = sources[0]!;
+  const joinKeys: JoinKey[][] = [];
+  let inferred = false;
+  let totalPerKey = false;
+
+  for (const [i, source] of sources.slice(1).entries()) {
+    let keys = request.joinKeys?.[i]?.filter(k => table.columns.includes(k.left) && source.columns.includes(k.right)) || [];
+    if (keys.length === 0 && request.joinOn?.length) {
+      keys = resolveUserKeys(request.joinOn, table.columns, source.columns);
+    }
+    if (keys.length === 0) {
+      keys = inferJoinKeys(table, source);
+      inferred = true;
+    }
+    if (keys.length === 0) return null;
+
+    // Measures of a dataset that is not one row per key would repeat on every matching row
+    const rightKeys = keys.map(k => k.right);
+    const hasMeasures = detectNumericColumns(source.rows, source.columns).some(c => !rightKeys.includes(c));
+    totalPerKey ||= hasDuplicateKeys(source.rows, rightKeys)
+      || (hasMeasures && hasDuplicateKeys(table.rows, keys.map(k => k.left)));
+
+    joinKeys.push(keys);
+    table = joinTables(table, source, keys, 'left', source.dataset.name);
+  }
+
+  return {
+    type: 'join',
+    datasetIds: datasets.map(d => d.id),
+    joinKeys,
+    joinType: request.joinType || 'left',
+    // Repeated measures (e.g. a region's target on each of its orders) would be double counted,
+    // so both sides are totalled per key instead
+    grain: request.grain || (totalPerKey ? 'key' : 'row'),
+    keySource: inferred ? 'inferred' : 'user',
+  };
+}
+
+/**
+ * Describe a combination in a few words, e.g. "Orders joined with Targets on Region"
+ */
+export function describeCombination(combination: DatasetCombination, datasets: Dataset[]): string {
+  const names = combination.datasetIds.map(id => datasets.find(d => d.id === id)?.name || id);
+  if (combination.type === 'union') {
+    return `${names.join(', ')} stacked into one table`;
+  }
+  const joins = names.slice(1).map((name, i) => {
+    const keys = (combination.joinKeys?.[i] || [])
+      .map(k => (k.left === k.right ? k.left : `${k.left} = ${k.right}`))
+      .join(' and ');
+    return `${name} on ${keys}`;
+  });
+  const grain = combination.grain === 'key' ? ' (totals per key)' : '';
+  return `${names[0]} joined with ${joins.join(', ')}${grain}`;
+}
+
+/**
+ * Build the virtual dataset for a combination, carrying a sample of the combined rows.
+ * The full rows are rebuilt from the sources when the query plan runs (see getCombinedRows).
+ */
+export function buildCombinedDataset(combination: DatasetCombination, datasets: Dataset[]): Dataset {
+  const table = combineDatasets(combination, datasets);
+  const names = combination.datasetIds.map(id => datasets.find(d => d.id === id)?.name || id);
+
+  return {
+    id: `combined:${combination.datasetIds.join('+')}`,
+    name: names.join(combination.type === 'union' ? ' + ' : ' ⋈ '),
+    type: 'combined',
+    columns: table.columns,
+    summary: describeCombination(combination, datasets),
+    rowCount: table.rows.length,
+    sampleRows: table.rows.slice(0, 20),
+    combination,
+  };
+}
+
+/**
+ * Every row of a dataset, rebuilding combined datasets from their sources
+ */
+export function getCombinedRows(dataset: Dataset, datasets: Dataset[]): any[] {
+  return dataset.combination
+    ? combineDatasets(dataset.combination, datasets).rows
+    : getDatasetRows(dataset);
+}
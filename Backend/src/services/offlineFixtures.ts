@@ -0,0 +1,115 @@
+/**
+ * Offline Fixtures - Fake web search and fixture datasets for OFFLINE_MODE
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { NextFunction, Request, Response } from 'express';
+import { Tool } from '@langchain/core/tools';
+import { COLLECTIONS, upsertDocuments } from '../config/chromadb.js';
+import { embeddings } from '../config/llm.js';
+import { OFFLINE_USER, getFixturePath, loadJsonFixture } from '../config/offline.js';
+import { processTableauCSV } from './csvProcessor.js';
+import { calculateStatistics, extractSample, parseFile } from './parser.js';
+
+interface SearchFixtureResult {
+  title: string;
+  url: string;
+  content: string;
+}
+
+// Fixture datasets share a fixed timestamp so repeated runs produce identical output
+const FIXTURE_CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+const tokenize = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9]+/g) || []);
+
+/**
+ * Search tool that answers from fixtures/offline/search.json, ranked by word overlap with the query.
+ * Returns a JSON string in the same shape as TavilySearchResults
+ */
+export class FixtureSearchTool extends Tool {
+  name = 'fixture_search';
+
+  description = 'Offline web search over fixture results';
+
+  constructor(private maxResults: number = 5) {
+    super();
+  }
+
+  async _call(query: string): Promise<string> {
+    const { results } = loadJsonFixture<{ results: SearchFixtureResult[] }>('search.json');
+    const queryWords = tokenize(query);
+
+    const ranked = results
+      .map(result => {
+        const words = tokenize(`${result.title} ${result.content}`);
+        const overlap = Array.from(queryWords).filter(word => words.has(word)).length;
+        return { ...result, score: queryWords.size ? overlap / queryWords.size : 0 };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.maxResults);
+
+    return JSON.stringify(ranked);
+  }
+}
+
+/**
+ * Middleware that signs every request in to Google and Tableau as the offline user
+ */
+export function offlineSession(req: Request, _res: Response, next: NextFunction) {
+  req.session.user ??= OFFLINE_USER;
+  req.session.tokens ??= { access_token: 'offline' };
+  req.session.tableauAuth ??= {
+    token: 'offline',
+    siteId: 'offline-site',
+    userId: OFFLINE_USER.id,
+  };
+  next();
+}
+
+/**
+ * Load every CSV in fixtures/offline/datasets as an uploaded dataset (chat workflow)
+ * and as an explorer dataset owned by the offline user (in-memory ChromaDB)
+ */
+export async function seedOfflineFixtures(): Promise<string[]> {
+  const directory = getFixturePath('datasets');
+  const files = (await fs.readdir(directory)).filter(file => file.endsWith('.csv')).sort();
+  const ids: string[] = [];
+
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    const id = `fixture_${path.basename(file, '.csv')}`;
+
+    await processTableauCSV(filePath, file, id);
+
+    const parsed = await parseFile(await fs.readFile(filePath), 'text/csv');
+    const columns: string[] = parsed.metadata.columns || [];
+    const summary = `${file} is a tabular dataset with ${parsed.metadata.rowCount} rows and ${columns.length} columns.\n\nColumns: ${columns.join(', ')}`;
+
+    await upsertDocuments(
+      COLLECTIONS.DATASETS,
+      [id],
+      [await embeddings.embedQuery(summary)],
+      [{
+        id,
+        userId: OFFLINE_USER.id,
+        name: file,
+        source: 'fixture',
+        type: 'csv',
+        summary,
+        rowCount: parsed.metadata.rowCount,
+        columnCount: columns.length,
+        columns,
+        sampleRows: extractSample(parsed.content, 5),
+        statistics: calculateStatistics(parsed.content, columns),
+        aggregatedData: extractSample(parsed.content, 100),
+        createdAt: FIXTURE_CREATED_AT,
+      }],
+      [summary]
+    );
+    ids.push(id);
+  }
+
+  console.log(`🧪 Loaded ${ids.length} offline fixture dataset(s)`);
+  return ids;
+}
@@ -0,0 +1,63 @@
+/**
+ * Run Registry - Tracks in-flight workflow runs so they can be cancelled
+ * from the REST API or over the socket
+ */
+
+export interface ActiveRun {
+  runId: string;
+  sessionId: string;
+  userId: string;
+  socketId?: string;
+  controller: AbortController;
+  startedAt: string;
+}
+
+const activeRuns = new Map<string, ActiveRun>();
+
+/**
+ * Register a new run and get the signal that aborts it.
+ * Returns null if a run with the same id is still in flight, since replacing it
+ * would leave that run impossible to cancel.
+ */
+export function registerRun(run: Omit<ActiveRun, 'controller' | 'startedAt'>): AbortSignal | null {
+  if (activeRuns.has(run.runId)) {
+    return null;
+  }
+
+  const controller = new AbortController();
+  activeRuns.set(run.runId, {
+    ...run,
+    controller,
+    startedAt: new Date().toISOString(),
+  });
+  return controller.signal;
+}
+
+/**
+ * Remove a finished run
+ */
+export function completeRun(runId: string) {
+  activeRuns.delete(runId);
+}
+
+/**
+ * Get an in-flight run
+ */
+export function getActiveRun(runId: string): ActiveRun | undefined {
+  return activeRuns.get(runId);
+}
+
+/**
+ * Abort an in-flight run. Returns false if the run is unknown or already finished.
+ */
+export function cancelRun(runId: string): boolean {
+  const run = activeRuns.get(runId);
+  if (!run) {
+    return false;
+  }
+
+  console.log(`🛑 Cancelling run ${runId}`);
+  run.controller.abort(new Error('Run cancelled by user'));
+  activeRuns.delete(runId);
+  return true;
+}
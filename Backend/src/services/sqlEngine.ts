@@ -0,0 +1,336 @@
+/**
+ * In-process SQL engine - runs read-only SQLite queries (sql.js) over uploaded and ingested
+ * tabular datasets. Each query runs in a worker thread on a fresh in-memory database holding
+ * only the tables it names, so a slow query can be stopped without blocking the server.
+ */
+
+import { Worker } from 'worker_threads';
+import { createRequire } from 'module';
+import { COLLECTIONS, getCollection } from '../config/chromadb.js';
+import type { Dataset } from '../langgraph/state.js';
+import { detectNumericColumns, parseNumeric } from '../utils/dataAggregation.js';
+import { getAllRows, getUploadedDatasets } from './csvProcessor.js';
+import { getDatasetRows } from './datasetCombiner.js';
+
+export const SQL_DEFAULT_ROW_LIMIT = 200;
+export const SQL_MAX_ROW_LIMIT = 5000;
+export const SQL_TIMEOUT_MS = 5000;
+// Covers the loaded tables as well as the query (in the worker's heap and in SQLite's)
+export const SQL_MEMORY_MB = 512;
+
+export interface SqlColumn {
+  name: string;
+  type: 'INTEGER' | 'REAL' | 'TEXT';
+}
+
+/**
+ * A dataset exposed as a SQL table
+ */
+export interface SqlTable {
+  table: string;
+  datasetId: string;
+  name: string;
+  source: 'upload' | 'ingested';
+  columns: SqlColumn[];
+  rowCount: number;
+  // Ingested files keep a sample of their rows; the table holds only those
+  rowsAvailable: number;
+}
+
+interface SqlTableSource extends SqlTable {
+  rows: any[];
+}
+
+export interface SqlResult {
+  sql: string;
+  columns: string[];
+  rows: Record<string, any>[];
+  // Rows returned; the query may have more when truncated
+  rowCount: number;
+  truncated: boolean;
+  durationMs: number;
+  tables: string[];
+}
+
+/**
+ * Why a query was refused or failed, so routes can answer with the right status
+ */
+export class SqlQueryError extends Error {
+  constructor(message: string, readonly reason: 'read_only' | 'invalid' | 'timeout' | 'memory' | 'failed') {
+    super(message);
+    this.name = 'SqlQueryError';
+  }
+}
+
+// Statements that change data or reach outside the query; query_only in the engine backs this up
+const WRITE_KEYWORDS = /\b(insert|update|delete|drop|alter|create|replace\s+into|attach|detach|pragma|vacuum|reindex|savepoint|release|begin|commit|rollback)\b/i;
+
+/**
+ * The query with string literals, quoted identifiers and comments blanked out, for keyword checks
+ */
+function stripLiterals(sql: string): string {
+  return sql
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/"(?:[^"]|"")*"/g, '""')
+    .replace(/`[^`]*`|\[[^\]]*\]/g, '""');
+}
+
+/**
+ * Refuse anything but a single SELECT (or WITH ... SELECT) statement
+ */
+export function assertReadOnly(sql: string): string {
+  const statement = sql.trim().replace(/;\s*$/, '');
+  const bare = stripLiterals(statement).trim();
+
+  if (!bare) {
+    throw new SqlQueryError('The query is empty.', 'invalid');
+  }
+  if (bare.includes(';')) {
+    throw new SqlQueryError('Only one statement can be run at a time.', 'invalid');
+  }
+  if (!/^(select|with|values)\b/i.test(bare)) {
+    throw new SqlQueryError('Only SELECT queries can be run.', 'read_only');
+  }
+  const write = bare.match(WRITE_KEYWORDS);
+  if (write) {
+    throw new SqlQueryError(`Queries are read-only; ${write[1]!.toUpperCase()} is not allowed.`, 'read_only');
+  }
+  return statement;
+}
+
+/**
+ * Table name for a dataset: lowercase words joined by underscores, without the file extension
+ */
+function toTableName(name: string, taken: Set<string>): string {
+  const base = name
+    .replace(/\.(csv|tsv|xlsx?|json)$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .replace(/^(?=\d)/, 't_') || 'dataset';
+  let table = base;
+  for (let i = 2; taken.has(table); i++) table = `${base}_${i}`;
+  taken.add(table);
+  return table;
+}
+
+function toTableSource(
+  dataset: { id: string; name: string; columns?: string[]; rowCount?: number },
+  rows: any[],
+  source: SqlTable['source'],
+  taken: Set<string>
+): SqlTableSource {
+  const columnNames = dataset.columns?.length ? dataset.columns : rows[0] ? Object.keys(rows[0]) : [];
+  const numeric = new Set(detectNumericColumns(rows, columnNames));
+  const columns: SqlColumn[] = columnNames.map(name => {
+    if (!numeric.has(name)) return { name, type: 'TEXT' };
+    const integers = rows.slice(0, 200).every(row => Number.isInteger(parseNumeric(row[name])) || row[name] === '' || row[name] == null);
+    return { name, type: integers ? 'INTEGER' : 'REAL' };
+  });
+  return {
+    table: toTableName(dataset.name, taken),
+    datasetId: dataset.id,
+    name: dataset.name,
+    source,
+    columns,
+    rowCount: dataset.rowCount ?? rows.length,
+    rowsAvailable: rows.length,
+    rows,
+  };
+}
+
+/**
+ * Every tabular dataset of a user: CSV uploads (all rows in memory) and ingested files
+ */
+async function userTableSources(userId: string): Promise<SqlTableSource[]> {
+  const taken = new Set<string>();
+  const tables = getUploadedDatasets().map(dataset =>
+    toTableSource(dataset, getAllRows(dataset.id, dataset.sampleRows), 'upload', taken)
+  );
+
+  // Ingested files are listed in ChromaDB; without it only the uploads can be queried
+  const collection = getCollection(COLLECTIONS.DATASETS);
+  if (!collection) {
+    return tables;
+  }
+  try {
+    const result = await collection.get({ where: { userId } });
+    (result.ids || []).forEach((id: string, index: number) => {
+      const metadata: any = result.metadatas?.[index] || {};
+      if (tables.some(t => t.datasetId === id) || !Array.isArray(metadata.columns)) return;
+      const rows = getAllRows(id, metadata.aggregatedData || metadata.sampleRows || []);
+      tables.push(toTableSource({ id, ...metadata }, rows, 'ingested', taken));
+    });
+  } catch (error) {
+    console.log('ℹ️  Skipping ingested datasets (ChromaDB unavailable)');
+  }
+  return tables;
+}
+
+/**
+ * The datasets of a chat run as SQL tables (combined datasets are left out - SQL can join them itself)
+ */
+export function datasetTableSources(datasets: Dataset[]): SqlTableSource[] {
+  const taken = new Set<string>();
+  return datasets
+    .filter(dataset => !dataset.combination)
+    .map(dataset => toTableSource(dataset, getDatasetRows(dataset), getAllRows(dataset.id).length > 0 ? 'upload' : 'ingested', taken));
+}
+
+const withoutRows = ({ rows, ...table }: SqlTableSource): SqlTable => table;
+
+/**
+ * Schema listing: the tables a user can query and their columns
+ */
+export async function listSqlTables(userId: string): Promise<SqlTable[]> {
+  return (await userTableSources(userId)).map(withoutRows);
+}
+
+/**
+ * The schema as shown to the LLM when it writes SQL
+ */
+export function describeSqlSchema(tables: SqlTableSource[]): string {
+  return tables.map(t => {
+    const sample = t.rows[0] ? `\n  Example row: ${JSON.stringify(t.rows[0])}` : '';
+    return `TABLE ${t.table} (${t.columns.map(c => `"${c.name}" ${c.type}`).join(', ')}) - ${t.rowsAvailable} rows${sample}`;
+  }).join('\n');
+}
+
+// Runs in the worker (CommonJS, evaluated as a string so it needs no TypeScript loader)
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const initSqlJs = require(workerData.sqlJsPath);
+initSqlJs().then(SQL => {
+  const db = new SQL.Database();
+  try {
+    db.run('PRAGMA hard_heap_limit = ' + workerData.memoryMb * 1024 * 1024);
+    for (const table of workerData.tables) {
+      const columns = table.columns.map(c => '"' + c.name.replace(/"/g, '""') + '" ' + c.type).join(', ');
+      db.run('CREATE TABLE "' + table.table + '" (' + columns + ')');
+      const insert = db.prepare('INSERT INTO "' + table.table + '" VALUES (' + table.columns.map(() => '?').join(', ') + ')');
+      db.run('BEGIN');
+      for (const row of table.rows) insert.run(row);
+      db.run('COMMIT');
+      insert.free();
+    }
+    db.run('PRAGMA query_only = ON');
+    // The timeout starts now, so it covers only the query and not loading the tables
+    parentPort.postMessage({ ready: true });
+
+    const statement = db.prepare(workerData.sql);
+    const rows = [];
+    let truncated = false;
+    while (statement.step()) {
+      if (rows.length === workerData.limit) { truncated = true; break; }
+      rows.push(statement.get());
+    }
+    parentPort.postMessage({ columns: statement.getColumnNames(), rows, truncated });
+    statement.free();
+  } catch (error) {
+    parentPort.postMessage({ error: error.message });
+  } finally {
+    db.close();
+  }
+}, error => parentPort.postMessage({ error: error.message }));
+`;
+
+const sqlJsPath = createRequire(import.meta.url).resolve('sql.js');
+
+function cellValue(value: any, type: SqlColumn['type']): string | number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (type === 'TEXT') return String(value);
+  const number = parseNumeric(value);
+  return isNaN(number) ? null : number;
+}
+
+/**
+ * Run a read-only query over the given tables, stopping it after timeoutMs
+ */
+export async function runSqlQuery(
+  sql: string,
+  tables: SqlTableSource[],
+  options: { limit?: number; timeoutMs?: number; memoryMb?: number } = {}
+): Promise<SqlResult> {
+  const statement = assertReadOnly(sql);
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? SQL_DEFAULT_ROW_LIMIT), 1), SQL_MAX_ROW_LIMIT);
+  const timeoutMs = options.timeoutMs ?? SQL_TIMEOUT_MS;
+  const memoryMb = options.memoryMb ?? SQL_MEMORY_MB;
+
+  // Load only the tables the query names
+  const bare = stripLiterals(statement).toLowerCase();
+  const quoted = statement.toLowerCase();
+  const used = tables.filter(t => new RegExp(`\\b${t.table}\\b`).test(bare) || quoted.includes(`"${t.table}"`));
+  const started = Date.now();
+
+  const output = await new Promise<{ columns: string[]; rows: any[][]; truncated: boolean }>((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        sqlJsPath,
+        sql: statement,
+        limit,
+        memoryMb,
+        tables: used.map(t => ({
+          table: t.table,
+          columns: t.columns,
+          rows: t.rows.map(row => t.columns.map(c => cellValue(row[c.name], c.type))),
+        })),
+      },
+      resourceLimits: { maxOldGenerationSizeMb: memoryMb, maxYoungGenerationSizeMb: Math.max(4, memoryMb / 8) },
+    });
+    let timer: NodeJS.Timeout | undefined;
+
+    worker.on('message', message => {
+      if (message.ready) {
+        timer = setTimeout(() => {
+          worker.terminate();
+          reject(new SqlQueryError(`The query was stopped after ${timeoutMs / 1000}s.`, 'timeout'));
+        }, timeoutMs);
+        return;
+      }
+
+      clearTimeout(timer);
+      worker.terminate();
+      if (!message.error) {
+        resolve(message);
+      } else if (/out of memory/i.test(message.error)) {
+        reject(new SqlQueryError(`The query used more than ${memoryMb} MB of memory.`, 'memory'));
+      } else {
+        reject(new SqlQueryError(message.error, /readonly/i.test(message.error) ? 'read_only' : 'invalid'));
+      }
+    });
+    worker.once('error', (error: any) => {
+      clearTimeout(timer);
+      const outOfMemory = error?.code === 'ERR_WORKER_OUT_OF_MEMORY';
+      reject(new SqlQueryError(
+        outOfMemory ? `The query used more than ${memoryMb} MB of memory.` : error.message,
+        outOfMemory ? 'memory' : 'failed'
+      ));
+    });
+  });
+
+  return {
+    sql: statement,
+    columns: output.columns,
+    rows: output.rows.map(values => Object.fromEntries(output.columns.map((column, i) => [column, values[i]]))),
+    rowCount: output.rows.length,
+    truncated: output.truncated,
+    durationMs: Date.now() - started,
+    tables: used.map(t => t.table),
+  };
+}
+
+/**
+ * Run a query over every dataset of a user
+ */
+export async function runUserSqlQuery(
+  sql: string,
+  userId: string,
+  options: { limit?: number; timeoutMs?: number } = {}
+): Promise<SqlResult> {
+  // Refuse writes before loading any data
+  assertReadOnly(sql);
+  return runSqlQuery(sql, await userTableSources(userId), options);
+}
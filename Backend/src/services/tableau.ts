@@ -4,6 +4,7 @@ import {
   buildTableauApiUrl,
   TABLEAU_ENDPOINTS,
 } from '../config/tableau.js';
+import { OFFLINE_MODE, loadJsonFixture } from '../config/offline.js';
 import type {
   TableauAuthCredentials,
   TableauWorkbook,
@@ -147,7 +148,7 @@ export class TableauService {
   /**
    * List all workbooks
    */
-  async listWorkbooks(): Promise<TableauWorkbook[]> {
+  async listWorkbooks(signal?: AbortSignal): Promise<TableauWorkbook[]> {
     if (!this.authToken || !this.siteId) {
       throw new Error('Not authenticated with Tableau');
     }
@@ -161,6 +162,7 @@ export class TableauService {
           headers: {
             'X-Tableau-Auth': this.authToken,
           },
+          ...(signal ? { signal } : {}),
         }
       );
 
@@ -202,7 +204,7 @@ export class TableauService {
   /**
    * List views in a workbook
    */
-  async getWorkbookViews(workbookId: string): Promise<TableauView[]> {
+  async getWorkbookViews(workbookId: string, signal?: AbortSignal): Promise<TableauView[]> {
     if (!this.authToken || !this.siteId) {
       throw new Error('Not authenticated with Tableau');
     }
@@ -214,6 +216,7 @@ export class TableauService {
           headers: {
             'X-Tableau-Auth': this.authToken,
           },
+          ...(signal ? { signal } : {}),
         }
       );
 
@@ -257,7 +260,7 @@ export class TableauService {
   /**
    * Get view data (CSV format)
    */
-  async getViewData(viewId: string): Promise<TableauViewData> {
+  async getViewData(viewId: string, signal?: AbortSignal): Promise<TableauViewData> {
     if (!this.authToken || !this.siteId) {
       throw new Error('Not authenticated with Tableau');
     }
@@ -271,6 +274,7 @@ export class TableauService {
           headers: {
             'X-Tableau-Auth': this.authToken,
           },
+          ...(signal ? { signal } : {}),
           responseType: 'text',
         }
       );
@@ -391,7 +395,83 @@ export class TableauService {
   }
 }
 
+// Fixture views carry their data inline
+type TableauFixtureView = TableauView & { columns?: string[]; data?: any[][] };
+
+interface TableauFixture {
+  workbooks: Array<Omit<TableauWorkbook, 'views'> & { views: TableauFixtureView[] }>;
+  dataSources?: TableauDataSource[];
+}
+
+/**
+ * Tableau Service backed by fixtures/offline/tableau.json, used in offline mode
+ */
+export class OfflineTableauService extends TableauService {
+  private fixture = loadJsonFixture<TableauFixture>('tableau.json');
+
+  private views(): TableauFixtureView[] {
+    return this.fixture.workbooks.flatMap(workbook =>
+      workbook.views.map(view => ({ ...view, workbook: { id: workbook.id } }))
+    );
+  }
+
+  async authenticateWithPAT(): Promise<TableauAuthCredentials> {
+    return { token: 'offline', siteId: 'offline-site', userId: 'offline-user' };
+  }
+
+  async getCurrentUser() {
+    return { id: 'offline-user', name: 'Offline User', siteRole: 'Viewer' };
+  }
+
+  async listWorkbooks(): Promise<TableauWorkbook[]> {
+    return this.fixture.workbooks;
+  }
+
+  async getWorkbook(workbookId: string): Promise<TableauWorkbook> {
+    const workbook = this.fixture.workbooks.find(wb => wb.id === workbookId);
+    if (!workbook) {
+      throw new Error(`Failed to fetch workbook: ${workbookId} not found`);
+    }
+    return workbook;
+  }
+
+  async getWorkbookViews(workbookId: string): Promise<TableauView[]> {
+    return this.views().filter(view => view.workbook?.id === workbookId);
+  }
+
+  async listViews(): Promise<TableauView[]> {
+    return this.views();
+  }
+
+  async getViewData(viewId: string): Promise<TableauViewData> {
+    const view = this.views().find(v => v.id === viewId);
+    if (!view?.columns || !view.data) {
+      throw new Error('Failed to fetch view data: No data returned from view');
+    }
+    return {
+      viewId,
+      columns: view.columns,
+      data: view.data,
+      totalRowCount: view.data.length,
+    };
+  }
+
+  getViewEmbedUrl(viewId: string, viewUrlName: string): string {
+    return `${tableauConfig.serverUrl}/t/${tableauConfig.siteName}/views/${viewUrlName}`;
+  }
+
+  async listDataSources(): Promise<TableauDataSource[]> {
+    return this.fixture.dataSources || [];
+  }
+
+  async signOut(): Promise<void> {}
+
+  isAuthenticated(): boolean {
+    return true;
+  }
+}
+
 // Singleton instance
-export const tableauService = new TableauService();
+export const tableauService = OFFLINE_MODE ? new OfflineTableauService() : new TableauService();
 
 export default tableauService;
@@ -0,0 +1,341 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import type { BaseMessage } from '@langchain/core/messages';
+import type { LLMResult } from '@langchain/core/outputs';
+import type { Serialized } from '@langchain/core/load/serializable';
+import type { ChainValues } from '@langchain/core/utils/types';
+
+/**
+ * Trace Store - Structured per-run traces of the agent graph: every node visited,
+ * its timings and state diff, and the prompts, raw responses and token counts of its LLM calls
+ */
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+export interface TraceLLMCall {
+  model: string;
+  startedAt: string;
+  durationMs?: number;
+  prompt: Array<{ role: string; content: string }>;
+  response?: string;
+  toolCalls?: Array<{ name: string; args: unknown }>;
+  tokens?: TokenUsage;
+  error?: string;
+}
+
+export interface TraceNode {
+  node: string;
+  step: number | null;
+  status: 'running' | 'completed' | 'failed' | 'interrupted';
+  startedAt: string;
+  durationMs?: number;
+  llmCalls: TraceLLMCall[];
+  // State keys the node changed
+  stateDiff: Record<string, { before: unknown; after: unknown }>;
+  error?: string;
+}
+
+export type RunTraceStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface RunTrace {
+  runId: string;
+  sessionId: string;
+  userQuery: string;
+  status: RunTraceStatus;
+  startedAt: string;
+  durationMs?: number;
+  nodes: TraceNode[];
+  tokens: TokenUsage;
+  error?: string;
+}
+
+interface SessionTraces {
+  runs: Map<string, RunTrace>;
+  updatedAt: number;
+}
+
+// Only the most recent runs of each session are kept
+const MAX_TRACES_PER_SESSION = 20;
+const SESSION_TTL = 24 * 60 * 60 * 1000; // 24 hours, same as chat memory
+
+// Limits that keep large prompts and datasets from bloating the store
+const MAX_TEXT_LENGTH = 20000;
+const MAX_VALUE_STRING = 500;
+const MAX_VALUE_ITEMS = 10;
+const MAX_VALUE_DEPTH = 4;
+
+const sessions = new Map<string, SessionTraces>();
+
+function pruneExpiredSessions() {
+  const now = Date.now();
+  for (const [sessionId, traces] of sessions) {
+    if (now - traces.updatedAt > SESSION_TTL) {
+      sessions.delete(sessionId);
+    }
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}… (${text.length - max} more chars)` : text;
+}
+
+function contentText(content: BaseMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content.map(part => ('text' in part && typeof part.text === 'string' ? part.text : `[${part.type}]`)).join('');
+}
+
+/**
+ * Shrink a state value for the trace: long strings, arrays and deep objects are cut short
+ */
+function compactValue(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return truncate(value, MAX_VALUE_STRING);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (depth >= MAX_VALUE_DEPTH) return Array.isArray(value) ? `[${value.length} items]` : '{…}';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_VALUE_ITEMS).map(item => compactValue(item, depth + 1));
+    return value.length > MAX_VALUE_ITEMS ? [...items, `… ${value.length - MAX_VALUE_ITEMS} more`] : items;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, compactValue(item, depth + 1)])
+  );
+}
+
+function addTokens(total: TokenUsage, tokens: TokenUsage) {
+  total.input += tokens.input;
+  total.output += tokens.output;
+  total.total += tokens.total;
+}
+
+/**
+ * Token counts from either the message usage metadata or the provider's llmOutput
+ */
+function readTokenUsage(output: LLMResult): TokenUsage | undefined {
+  const message = (output.generations[0]?.[0] as any)?.message;
+  const usage = message?.usage_metadata;
+  if (usage) {
+    return { input: usage.input_tokens || 0, output: usage.output_tokens || 0, total: usage.total_tokens || 0 };
+  }
+  const tokenUsage = output.llmOutput?.tokenUsage || output.llmOutput?.estimatedTokenUsage;
+  if (tokenUsage) {
+    return {
+      input: tokenUsage.promptTokens || 0,
+      output: tokenUsage.completionTokens || 0,
+      total: tokenUsage.totalTokens || 0,
+    };
+  }
+  return undefined;
+}
+
+const elapsed = (startedAt: string) => Date.now() - new Date(startedAt).getTime();
+
+/**
+ * Callback handler that records one run's trace as the graph executes
+ */
+export class RunTracer extends BaseCallbackHandler {
+  name = 'run_tracer';
+
+  // LangChain run id -> trace entry
+  private nodeRuns = new Map<string, { node: TraceNode; input: Record<string, unknown> }>();
+  private llmRuns = new Map<string, TraceLLMCall>();
+
+  constructor(public trace: RunTrace) {
+    // Record events before the run's result is returned
+    super({ _awaitHandler: true });
+  }
+
+  /**
+   * The latest node entry with this name that is still running
+   */
+  private runningNode(name: string | undefined): TraceNode | undefined {
+    return [...this.trace.nodes].reverse().find(node => node.node === name && node.status === 'running');
+  }
+
+  handleChainStart(
+    _chain: Serialized,
+    inputs: ChainValues,
+    runId: string,
+    _parentRunId?: string,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    _runType?: string,
+    runName?: string
+  ) {
+    // Graph nodes are the chains named after their node and tagged with their step
+    const stepTag = tags?.find(tag => tag.startsWith('graph:step:'));
+    const node = metadata?.langgraph_node;
+    if (!stepTag || typeof node !== 'string' || runName !== node || node === '__start__') {
+      return;
+    }
+
+    const entry: TraceNode = {
+      node,
+      step: Number(stepTag.slice('graph:step:'.length)),
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      llmCalls: [],
+      stateDiff: {},
+    };
+    this.trace.nodes.push(entry);
+    this.nodeRuns.set(runId, { node: entry, input: inputs });
+  }
+
+  handleChainEnd(outputs: ChainValues, runId: string) {
+    const run = this.nodeRuns.get(runId);
+    if (!run) return;
+    this.nodeRuns.delete(runId);
+
+    const { node, input } = run;
+    node.status = 'completed';
+    node.durationMs = elapsed(node.startedAt);
+
+    for (const [key, after] of Object.entries(outputs || {})) {
+      const compactBefore = compactValue(input[key]);
+      const compactAfter = compactValue(after);
+      if (JSON.stringify(compactBefore) !== JSON.stringify(compactAfter)) {
+        node.stateDiff[key] = { before: compactBefore ?? null, after: compactAfter ?? null };
+      }
+    }
+    // Agents catch their own errors and report them through state.error
+    if (typeof outputs?.error === 'string' && outputs.error) {
+      node.status = 'failed';
+      node.error = outputs.error;
+    }
+  }
+
+  handleChainError(error: Error, runId: string) {
+    const run = this.nodeRuns.get(runId);
+    if (!run) return;
+    this.nodeRuns.delete(runId);
+
+    run.node.durationMs = elapsed(run.node.startedAt);
+    // interrupt() pauses the graph by throwing
+    if (error?.name === 'GraphInterrupt') {
+      run.node.status = 'interrupted';
+      return;
+    }
+    run.node.status = 'failed';
+    run.node.error = error?.message || String(error);
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    const node = this.runningNode(metadata?.langgraph_node as string | undefined);
+    if (!node) return;
+
+    const params = (extraParams?.invocation_params || {}) as Record<string, unknown>;
+    const call: TraceLLMCall = {
+      model: String(params.model || params.modelName || (metadata?.ls_model_name as string) || llm.id.at(-1) || 'unknown'),
+      startedAt: new Date().toISOString(),
+      prompt: (messages[0] || []).map(message => ({
+        role: message.getType(),
+        content: truncate(contentText(message.content), MAX_TEXT_LENGTH),
+      })),
+    };
+    node.llmCalls.push(call);
+    this.llmRuns.set(runId, call);
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const call = this.llmRuns.get(runId);
+    if (!call) return;
+    this.llmRuns.delete(runId);
+
+    const generation = output.generations[0]?.[0] as any;
+    call.durationMs = elapsed(call.startedAt);
+    call.response = truncate(generation?.text || contentText(generation?.message?.content || ''), MAX_TEXT_LENGTH);
+
+    const toolCalls = generation?.message?.tool_calls;
+    if (toolCalls?.length) {
+      call.toolCalls = toolCalls.map((toolCall: any) => ({ name: toolCall.name, args: toolCall.args }));
+    }
+
+    const tokens = readTokenUsage(output);
+    if (tokens) {
+      call.tokens = tokens;
+      addTokens(this.trace.tokens, tokens);
+    }
+  }
+
+  handleLLMError(error: Error, runId: string) {
+    const call = this.llmRuns.get(runId);
+    if (!call) return;
+    this.llmRuns.delete(runId);
+
+    call.durationMs = elapsed(call.startedAt);
+    call.error = error?.message || String(error);
+  }
+
+  /**
+   * Close the trace when the graph stops
+   */
+  finish(status: RunTraceStatus, error?: string) {
+    this.trace.status = status;
+    this.trace.durationMs = elapsed(this.trace.startedAt);
+    if (error) {
+      this.trace.error = error;
+    }
+    // Nodes still open were cut short by a cancel or crash
+    for (const node of this.trace.nodes) {
+      if (node.status === 'running') {
+        node.status = status === 'interrupted' ? 'interrupted' : 'failed';
+        node.durationMs = elapsed(node.startedAt);
+      }
+    }
+  }
+}
+
+/**
+ * Start tracing a run. A resumed or retried run keeps its trace and appends to it.
+ */
+export function startRunTrace(sessionId: string, runId: string, userQuery: string): RunTracer {
+  pruneExpiredSessions();
+
+  const traces = sessions.get(sessionId) || { runs: new Map<string, RunTrace>(), updatedAt: 0 };
+  traces.updatedAt = Date.now();
+  sessions.set(sessionId, traces);
+
+  let trace = traces.runs.get(runId);
+  if (trace) {
+    trace.status = 'running';
+    delete trace.error;
+  } else {
+    trace = {
+      runId,
+      sessionId,
+      userQuery,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      nodes: [],
+      tokens: { input: 0, output: 0, total: 0 },
+    };
+    traces.runs.set(runId, trace);
+
+    // Drop the oldest runs (Map keeps insertion order)
+    for (const oldRunId of traces.runs.keys()) {
+      if (traces.runs.size <= MAX_TRACES_PER_SESSION) break;
+      traces.runs.delete(oldRunId);
+    }
+  }
+
+  return new RunTracer(trace);
+}
+
+/**
+ * Get the trace of a run, or null if it is unknown or expired
+ */
+export function getRunTrace(sessionId: string, runId: string): RunTrace | null {
+  pruneExpiredSessions();
+  return sessions.get(sessionId)?.runs.get(runId) || null;
+}
@@ -0,0 +1,151 @@
+/**
+ * Transform sandbox - runs small generated JavaScript transforms (ratios, rolling windows,
+ * text parsing) over dataset rows. Each run gets its own worker thread with a memory cap and
+ * a V8 context without require, process, timers or eval; rows go in and out as JSON only,
+ * so no object of the server is reachable from the transform.
+ */
+
+import { Worker } from 'worker_threads';
+
+export const TRANSFORM_TIMEOUT_MS = 2000;
+export const TRANSFORM_MEMORY_MB = 64;
+export const TRANSFORM_MAX_ROWS = 2000;
+
+export interface TransformResult {
+  rows: Record<string, string | number | boolean | null>[];
+  columns: string[];
+  // Rows the transform returned; only the first TRANSFORM_MAX_ROWS are kept
+  rowCount: number;
+  truncated: boolean;
+  durationMs: number;
+}
+
+/**
+ * Why a transform was refused or failed
+ */
+export class TransformError extends Error {
+  constructor(message: string, readonly reason: 'invalid' | 'timeout' | 'memory' | 'failed') {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+// Runs in the worker (CommonJS, evaluated as a string so it needs no TypeScript loader)
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const fail = (reason, message) => parentPort.postMessage({ error: message, reason });
+
+// Only the language built-ins: no require, process, console, timers, eval or new Function
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: 'afterEvaluate',
+});
+
+const source = [
+  '"use strict";',
+  'const num = value => typeof value === "number" ? value : Number(String(value ?? "").replace(/[$,%\\\\s]/g, ""));',
+  'const output = (function transform(rows) {',
+  workerData.code,
+  '\\n})(JSON.parse(input));',
+  'JSON.stringify(output === undefined ? null : output);',
+].join('\\n');
+
+// Rows arrive as a string and are parsed inside the context, so they carry none of the worker's objects
+context.input = workerData.input;
+
+let script = null;
+try {
+  script = new vm.Script(source, { filename: 'transform.js' });
+} catch (error) {
+  fail('invalid', error.message);
+}
+
+if (script) try {
+  const json = script.runInContext(context, { timeout: workerData.timeoutMs });
+  const rows = json === undefined ? null : JSON.parse(json);
+  if (!Array.isArray(rows)) {
+    fail('invalid', 'The transform must return an array of rows.');
+  } else if (rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+    fail('invalid', 'Each row returned by the transform must be an object.');
+  } else {
+    parentPort.postMessage({ rows: rows.slice(0, workerData.maxRows), rowCount: rows.length });
+  }
+} catch (error) {
+  const message = error && error.message ? error.message : String(error);
+  fail(/timed out/.test(message) ? 'timeout' : 'failed', message);
+}
+`;
+
+/**
+ * Flatten the values of a returned row to what a table cell can hold
+ */
+function toCell(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Run the body of a `transform(rows)` function over the rows, in a fresh sandbox.
+ * The body may call `num(value)` to read numbers written as "1,234" or "$5".
+ */
+export async function runTransform(
+  code: string,
+  rows: any[],
+  options: { timeoutMs?: number; memoryMb?: number; maxRows?: number } = {}
+): Promise<TransformResult> {
+  if (!code.trim()) {
+    throw new TransformError('The transform is empty.', 'invalid');
+  }
+  const timeoutMs = options.timeoutMs ?? TRANSFORM_TIMEOUT_MS;
+  const memoryMb = options.memoryMb ?? TRANSFORM_MEMORY_MB;
+  const maxRows = options.maxRows ?? TRANSFORM_MAX_ROWS;
+  const started = Date.now();
+
+  const output = await new Promise<{ rows: Record<string, unknown>[]; rowCount: number }>((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { code, input: JSON.stringify(rows), timeoutMs, maxRows },
+      resourceLimits: { maxOldGenerationSizeMb: memoryMb, maxYoungGenerationSizeMb: Math.max(4, memoryMb / 8) },
+      // The sandbox gets no view of the server's environment or stdio
+      env: {},
+      stdout: true,
+      stderr: true,
+    });
+    // The V8 timeout covers the transform itself; this also covers worker start-up and JSON
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new TransformError(`The transform was stopped after ${timeoutMs / 1000}s.`, 'timeout'));
+    }, timeoutMs * 2 + 1000);
+
+    worker.once('message', message => {
+      clearTimeout(timer);
+      worker.terminate();
+      if (message.error) {
+        reject(new TransformError(message.error, message.reason));
+      } else {
+        resolve(message);
+      }
+    });
+    worker.once('error', (error: any) => {
+      clearTimeout(timer);
+      const outOfMemory = error?.code === 'ERR_WORKER_OUT_OF_MEMORY';
+      reject(new TransformError(
+        outOfMemory ? `The transform used more than ${memoryMb} MB of memory.` : error.message,
+        outOfMemory ? 'memory' : 'failed'
+      ));
+    });
+  });
+
+  const columns = [...new Set(output.rows.flatMap(row => Object.keys(row)))];
+  return {
+    rows: output.rows.map(row => Object.fromEntries(columns.map(column => [column, toCell(row[column])]))),
+    columns,
+    rowCount: output.rowCount,
+    truncated: output.rowCount > output.rows.length,
+    durationMs: Date.now() - started,
+  };
+}
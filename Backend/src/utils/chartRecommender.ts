@@ -0,0 +1,262 @@
+/**
+ * Rule-based chart recommendation - profiles the columns of a dataset and scores the charts
+ * that can show it, so the LLM picks among charts that suit the data instead of any chart type
+ */
+
+import type { ChartType, QueryPlan } from '../langgraph/state.js';
+import { detectCategoricalColumns, detectDateColumns, detectNumericColumns, isIdentifierColumn } from './dataAggregation.js';
+import { planFitsChart, SERIES_CHARTS } from './queryExecutor.js';
+
+export interface ColumnProfile {
+  name: string;
+  kind: 'numeric' | 'categorical' | 'date';
+  distinct: number;
+}
+
+export interface DataProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+/**
+ * A chart type with the columns it is drawn from. The measure is a suggestion:
+ * any numeric column may be aggregated over the same encoding.
+ */
+export interface ChartCandidate {
+  chartType: ChartType;
+  groupBy?: string;
+  timeBucket?: NonNullable<QueryPlan['timeBucket']>;
+  seriesBy?: string;
+  xColumn?: string;
+  measure?: string;
+  // 0 to 1, higher fits the data better
+  score: number;
+  reason: string;
+}
+
+// Slices of a pie stay readable up to this many categories
+const PIE_MAX = 6;
+// Bars beyond this many categories only show the top ones
+const BAR_MAX = 20;
+// One line, area or bar per value up to this many values; more become a heatmap
+const SERIES_MAX = 8;
+const HEATMAP_MAX = 20;
+// Distributions and correlations need enough rows to show a shape
+const MIN_DISTRIBUTION_ROWS = 20;
+const MIN_SCATTER_ROWS = 10;
+const MAX_SCATTER_COLUMNS = 4;
+
+/**
+ * Column kinds and number of distinct values, over every row
+ */
+export function profileColumns(rows: any[], columns: string[]): DataProfile {
+  const numeric = new Set(detectNumericColumns(rows, columns));
+  const dates = new Set(detectDateColumns(rows, columns));
+  const categorical = new Set(detectCategoricalColumns(rows, columns));
+
+  return {
+    rowCount: rows.length,
+    columns: columns
+      .filter(name => numeric.has(name) || dates.has(name) || categorical.has(name))
+      .map(name => ({
+        name,
+        kind: dates.has(name) ? 'date' : numeric.has(name) ? 'numeric' : 'categorical',
+        distinct: new Set(rows.map(row => String(row[name] ?? ''))).size,
+      })),
+  };
+}
+
+/**
+ * Score every chart the profiled data supports, best first
+ */
+export function recommendCharts(rows: any[], columns: string[]): ChartCandidate[] {
+  const { rowCount, columns: profiles } = profileColumns(rows, columns);
+  // Identifiers neither measure nor group anything
+  const measures = profiles.filter(c => c.kind === 'numeric' && !isIdentifierColumn(rows, c.name));
+  const dates = profiles.filter(c => c.kind === 'date' && c.distinct > 1);
+  const categories = profiles.filter(c => c.kind === 'categorical' && c.distinct > 1 && !isIdentifierColumn(rows, c.name));
+  const measure = measures[0]?.name;
+  const measureText = measure || 'the row count';
+  const candidates: ChartCandidate[] = [];
+  const add = (candidate: Omit<ChartCandidate, 'measure'>) => {
+    candidates.push({ ...candidate, ...(measure ? { measure } : {}) });
+  };
+
+  for (const date of dates) {
+    add({ chartType: 'line', groupBy: date.name, timeBucket: 'month', score: 0.9, reason: `${measureText} over time shows the trend` });
+    add({ chartType: 'area', groupBy: date.name, timeBucket: 'month', score: 0.7, reason: `${measureText} over time as a cumulative volume` });
+    add({ chartType: 'bar', groupBy: date.name, timeBucket: 'quarter', score: 0.5, reason: `${measureText} per period, compared side by side` });
+    for (const category of categories.filter(c => c.distinct <= SERIES_MAX)) {
+      add({
+        chartType: 'line', groupBy: date.name, timeBucket: 'month', seriesBy: category.name, score: 0.75,
+        reason: `One trend line per ${category.name} (${category.distinct} values)`,
+      });
+      add({
+        chartType: 'area', groupBy: date.name, timeBucket: 'month', seriesBy: category.name, score: 0.55,
+        reason: `Volume over time, one area per ${category.name}`,
+      });
+    }
+  }
+
+  for (const category of categories) {
+    const few = category.distinct <= BAR_MAX;
+    add({
+      chartType: 'bar', groupBy: category.name, score: few ? 0.8 : 0.55,
+      reason: few
+        ? `${measureText} compared across the ${category.distinct} values of ${category.name}`
+        : `Top values of ${category.name} (${category.distinct} in all) by ${measureText}`,
+    });
+    if (category.distinct <= PIE_MAX) {
+      add({ chartType: 'pie', groupBy: category.name, score: 0.65, reason: `Share of each of the ${category.distinct} ${category.name} values in the total` });
+    }
+    if (measure && few && rowCount >= MIN_DISTRIBUTION_ROWS) {
+      add({ chartType: 'boxplot', groupBy: category.name, score: 0.5, reason: `Spread of ${measure} within each ${category.name}` });
+    }
+
+    for (const other of categories.filter(c => c !== category)) {
+      if (category.distinct <= BAR_MAX && other.distinct <= SERIES_MAX) {
+        add({ chartType: 'stacked_bar', groupBy: category.name, seriesBy: other.name, score: 0.6, reason: `${category.name} totals split into their ${other.name} parts` });
+        add({ chartType: 'grouped_bar', groupBy: category.name, seriesBy: other.name, score: 0.55, reason: `Each ${other.name} side by side within ${category.name}` });
+      }
+      if (category.distinct <= HEATMAP_MAX && other.distinct <= HEATMAP_MAX) {
+        const many = category.distinct > SERIES_MAX || other.distinct > SERIES_MAX;
+        add({ chartType: 'heatmap', groupBy: category.name, seriesBy: other.name, score: many ? 0.6 : 0.4, reason: `${measureText} for every ${category.name} and ${other.name} pair` });
+      }
+    }
+  }
+
+  if (measure) {
+    candidates.push({
+      chartType: 'histogram', measure, score: rowCount >= MIN_DISTRIBUTION_ROWS ? 0.55 : 0.3,
+      reason: `How ${measure} is spread across the rows`,
+    });
+  }
+  if (rowCount >= MIN_SCATTER_ROWS) {
+    const numeric = measures.slice(0, MAX_SCATTER_COLUMNS);
+    for (const x of numeric) {
+      const y = numeric.find(c => c !== x);
+      if (y) {
+        candidates.push({ chartType: 'scatter', xColumn: x.name, measure: y.name, score: 0.5, reason: `Relationship between ${x.name} and ${y.name}` });
+      }
+    }
+  }
+  // A handful of rows reads best as a table
+  candidates.push({ chartType: 'table', score: rowCount <= 3 ? 0.95 : 0.2, reason: 'The values themselves, as a table' });
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * One line per candidate for the LLM prompt
+ */
+export function describeCandidates(candidates: ChartCandidate[]): string {
+  return candidates
+    .map((c, i) => {
+      const encoding = [
+        c.groupBy && `groupBy ${c.groupBy}${c.timeBucket ? ` (${c.timeBucket})` : ''}`,
+        c.seriesBy && `seriesBy ${c.seriesBy}`,
+        c.xColumn && `xColumn ${c.xColumn}`,
+        c.measure && `measure ${c.measure}`,
+      ].filter(Boolean).join(', ');
+      return `${i + 1}. ${c.chartType}${encoding ? ` - ${encoding}` : ''}: ${c.reason}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Whether a plan draws one of the candidates. Measures are free; table plans always qualify.
+ */
+export function matchesCandidate(plan: QueryPlan, candidate: ChartCandidate): boolean {
+  if (plan.chartType !== candidate.chartType) return false;
+  if (plan.chartType === 'table') return true;
+  return plan.groupBy === candidate.groupBy
+    && plan.seriesBy === candidate.seriesBy
+    && plan.xColumn === candidate.xColumn;
+}
+
+/**
+ * Draw a plan as another candidate, keeping its filters, measure and aggregation where they fit
+ */
+export function applyCandidate(plan: QueryPlan, candidate: ChartCandidate): QueryPlan | null {
+  const measure = plan.measure || candidate.measure;
+  const sameColumns = plan.groupBy === candidate.groupBy && plan.seriesBy === candidate.seriesBy;
+  const next: QueryPlan = {
+    datasetId: plan.datasetId,
+    chartType: candidate.chartType,
+    title: sameColumns ? plan.title : candidateTitle(candidate, measure),
+    filters: plan.filters,
+    operation: candidate.chartType === 'histogram' || !measure ? 'count' : plan.measure ? plan.operation : 'sum',
+  };
+  if (sameColumns && plan.description) next.description = plan.description;
+  if (candidate.groupBy) next.groupBy = candidate.groupBy;
+  if (candidate.timeBucket) next.timeBucket = (sameColumns && plan.timeBucket) || candidate.timeBucket;
+  if (candidate.seriesBy) next.seriesBy = candidate.seriesBy;
+  if (candidate.xColumn) next.xColumn = candidate.xColumn;
+  if (measure) next.measure = measure;
+  if (plan.extraMeasures && SERIES_CHARTS.includes(candidate.chartType) && !candidate.seriesBy) {
+    next.extraMeasures = plan.extraMeasures;
+  }
+  if (plan.bins && candidate.chartType === 'histogram') next.bins = plan.bins;
+  if (plan.sort && candidate.groupBy && !candidate.timeBucket) next.sort = plan.sort;
+  if (plan.limit) next.limit = plan.limit;
+
+  return planFitsChart(next) ? next : null;
+}
+
+function candidateTitle(candidate: ChartCandidate, measure: string | undefined): string {
+  const subject = measure || 'Records';
+  switch (candidate.chartType) {
+    case 'histogram':
+      return `Distribution of ${subject}`;
+    case 'scatter':
+      return `${subject} vs ${candidate.xColumn}`;
+    case 'table':
+      return subject;
+    default:
+      return `${subject} by ${[candidate.groupBy, candidate.seriesBy].filter(Boolean).join(' and ')}`;
+  }
+}
+
+/**
+ * Keep a plan that draws one of the candidates; otherwise redraw it as the best candidate
+ * over the same columns, or the best candidate overall
+ */
+export function snapToCandidates(
+  plan: QueryPlan,
+  candidates: ChartCandidate[]
+): { plan: QueryPlan; snapped: boolean } {
+  if (candidates.length === 0 || candidates.some(c => matchesCandidate(plan, c))) {
+    return { plan, snapped: false };
+  }
+  const ranked = [
+    ...candidates.filter(c => c.groupBy === plan.groupBy && c.seriesBy === plan.seriesBy && c.xColumn === plan.xColumn),
+    ...candidates.filter(c => plan.groupBy && c.groupBy === plan.groupBy),
+    ...candidates,
+  ];
+  for (const candidate of ranked) {
+    const next = applyCandidate(plan, candidate);
+    if (next) return { plan: next, snapped: true };
+  }
+  return { plan, snapped: false };
+}
+
+/**
+ * Other ways to draw a plan, for "try as" options: other charts of the same columns first, then the best of the rest
+ */
+export function alternativePlans(plan: QueryPlan, candidates: ChartCandidate[], limit = 3): QueryPlan[] {
+  const sameColumns = (c: ChartCandidate) => c.groupBy === plan.groupBy && c.seriesBy === plan.seriesBy && c.xColumn === plan.xColumn;
+  const ranked = [...candidates.filter(sameColumns), ...candidates.filter(c => !sameColumns(c))];
+  const alternatives: QueryPlan[] = [];
+  const seen = new Set<ChartType>([plan.chartType]);
+
+  for (const candidate of ranked) {
+    // One option per chart type keeps the choice short
+    if (alternatives.length >= limit || seen.has(candidate.chartType) || candidate.chartType === 'table') continue;
+    const next = applyCandidate(plan, candidate);
+    if (next) {
+      seen.add(candidate.chartType);
+      alternatives.push(next);
+    }
+  }
+  return alternatives;
+}
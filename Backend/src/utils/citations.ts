@@ -0,0 +1,217 @@
+/**
+ * Citations - numbered sources (dataset columns and filters, Tableau views, web pages) for the
+ * statements of a summary, referenced inline as [n] markers
+ */
+
+import type { AgentState, Citation, NumericClaim, QueryFilter } from '../langgraph/state.js';
+
+interface CitationSource {
+  citation: Citation;
+  // Names that tie a sentence to the source (dataset, column, view or page names)
+  terms: string[];
+  // Page content of web sources, to match the figures quoted from it
+  text?: string;
+}
+
+// [1], [1][2] or [1, 2]
+const MARKER_PATTERN = /\s*\[(\d+(?:\s*,\s*\d+)*)\]/g;
+// Sentence ends, keeping markers that follow the punctuation with their sentence
+const SENTENCE_BREAK = /(?<=[.!?](?:\s*\[\d+(?:\s*,\s*\d+)*\])*)\s+(?=\S)/;
+
+const OPERATORS: Record<QueryFilter['operator'], string> = {
+  eq: '=', neq: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤', in: 'in', contains: 'contains',
+};
+
+export function describeFilter(filter: QueryFilter): string {
+  const value = Array.isArray(filter.value) ? filter.value.join(', ') : String(filter.value);
+  return `${filter.column} ${OPERATORS[filter.operator]} ${value}`;
+}
+
+/**
+ * Positions of the citation markers in a text, so other parsers can skip them
+ */
+export function markerRanges(text: string): Array<[number, number]> {
+  return [...text.matchAll(MARKER_PATTERN)].map(m => [m.index!, m.index! + m[0].length]);
+}
+
+/**
+ * Start and end of every sentence and bullet of a text, split as the citations split them
+ */
+export function sentenceRanges(text: string): Array<[number, number]> {
+  const breaks = new RegExp(`\\n|${SENTENCE_BREAK.source}`, 'g');
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+  for (const match of text.matchAll(breaks)) {
+    ranges.push([start, match.index!]);
+    start = match.index! + match[0].length;
+  }
+  ranges.push([start, text.length]);
+  return ranges;
+}
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function mentions(text: string, term: string): boolean {
+  return term.length >= 3 && new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i').test(text);
+}
+
+/**
+ * Number every source the summary may cite: the charted dataset with the columns and filters
+ * behind the chart, the other datasets, the Tableau views and the web search results
+ */
+export function collectCitationSources(
+  state: Pick<AgentState, 'relevantDatasets' | 'visualization' | 'tableauViews' | 'searchResults'>
+    & Partial<Pick<AgentState, 'visualizations'>>
+): CitationSource[] {
+  const sources: CitationSource[] = [];
+  const add = (citation: Omit<Citation, 'id'>, terms: string[], text?: string) => {
+    sources.push({ citation: { id: sources.length + 1, ...citation }, terms: terms.filter(Boolean), ...(text ? { text } : {}) });
+  };
+
+  const datasets = state.relevantDatasets || [];
+  const plan = state.visualization?.queryPlan;
+  const charted = plan && datasets.find(d => d.id === plan.datasetId);
+  const cited = new Set<string>();
+
+  if (plan && charted) {
+    // The other charts of an overview are drawn from the same dataset
+    const plans = [plan, ...(state.visualizations || []).slice(1).map(v => v.queryPlan)]
+      .filter((p): p is NonNullable<typeof p> => p?.datasetId === plan.datasetId);
+    const planColumns = [...new Set(plans.flatMap(p => [
+      p.groupBy, p.seriesBy, p.measure, ...(p.extraMeasures || []).map(m => m.column), p.xColumn,
+    ]))].filter((c): c is string => !!c);
+    // Combined and transformed datasets have no rows of their own - cite the datasets they were built from
+    const sourceIds = charted.combination?.datasetIds || charted.transform?.sourceDatasetIds;
+    const sourceDatasets = sourceIds
+      ? sourceIds.map(id => datasets.find(d => d.id === id)).filter(d => d !== undefined)
+      : [charted];
+
+    for (const dataset of sourceDatasets) {
+      const owns = (column: string) => !sourceIds || !dataset.columns || dataset.columns.includes(column);
+      const columns = planColumns.filter(owns);
+      const filters = plan.filters.filter(f => owns(f.column));
+      const label = [
+        dataset.name,
+        columns.length > 0 ? `: ${columns.join(', ')}` : '',
+        filters.length > 0 ? ` where ${filters.map(describeFilter).join(' and ')}` : '',
+        charted.transform ? ` (${charted.transform.description})` : '',
+      ].join('');
+      // Sentences naming the chart's categories (e.g. regions) are about the first charted dataset
+      const categories = sources.length === 0 ? (state.visualization?.data || []).slice(0, 50).map(d => String(d.name ?? '')) : [];
+      add({ kind: 'dataset', label, datasetId: dataset.id, columns, filters }, [dataset.name.replace(/\.\w+$/, ''), ...columns, ...categories]);
+      cited.add(dataset.id);
+    }
+    cited.add(charted.id);
+  }
+
+  for (const dataset of datasets) {
+    if (cited.has(dataset.id) || dataset.combination || dataset.transform) continue;
+    add({ kind: 'dataset', label: dataset.name, datasetId: dataset.id }, [dataset.name.replace(/\.\w+$/, '')]);
+  }
+
+  for (const view of state.tableauViews || []) {
+    add(
+      { kind: 'tableau', label: view.workbookName ? `${view.name} (${view.workbookName})` : view.name, viewId: view.id, ...(view.fullEmbedUrl ? { url: view.fullEmbedUrl } : {}) },
+      [view.name, view.workbookName || '']
+    );
+  }
+
+  const results: any[] = Array.isArray(state.searchResults?.results) ? state.searchResults.results : [];
+  for (const result of results) {
+    if (typeof result?.url !== 'string') continue;
+    const host = (() => {
+      try {
+        return new URL(result.url).hostname.replace(/^www\./, '');
+      } catch {
+        return '';
+      }
+    })();
+    add({ kind: 'web', label: result.title || host || result.url, url: result.url }, [host], `${result.title || ''} ${result.content || ''}`);
+  }
+
+  return sources;
+}
+
+/**
+ * The source list as shown to the LLM
+ */
+export function formatSourcesForPrompt(sources: CitationSource[]): string {
+  const kinds: Record<Citation['kind'], string> = { dataset: 'dataset', tableau: 'Tableau view', web: 'web page' };
+  return sources.map(({ citation }) => `[${citation.id}] ${kinds[citation.kind]}: ${citation.label}`).join('\n');
+}
+
+/**
+ * Sources a sentence without markers rests on: the figures it quotes, then the names it mentions
+ */
+function inferSources(sentence: string, sources: CitationSource[], claims: NumericClaim[]): number[] {
+  const ids = new Set<number>();
+  const datasets = sources.filter(s => s.citation.kind === 'dataset');
+  const quoted = claims.filter(claim => sentence.includes(claim.text));
+
+  // A sentence whose figures match nothing computed is not attributed to any source
+  if (quoted.length > 0 && quoted.every(claim => claim.status === 'unverified')) {
+    return [];
+  }
+
+  for (const claim of quoted) {
+    if (claim.status === 'unverified' || !claim.source) continue;
+    if (claim.source === 'your question') continue;
+    if (claim.source === 'web search') {
+      sources
+        .filter(s => s.citation.kind === 'web' && s.text?.includes(claim.text.replace(/^[$€£]/, '')))
+        .forEach(s => ids.add(s.citation.id));
+      continue;
+    }
+    // Dataset statistics name their dataset; everything else was computed on the charted one
+    const named = datasets.find(s => claim.source!.startsWith(`${s.citation.label.split(':')[0]} `));
+    const dataset = named || datasets[0];
+    if (dataset) ids.add(dataset.citation.id);
+  }
+
+  if (ids.size === 0) {
+    sources.filter(s => s.terms.some(term => mentions(sentence, term))).forEach(s => ids.add(s.citation.id));
+  }
+  return [...ids];
+}
+
+/**
+ * Check the [n] markers of a summary against the sources, add markers to sentences and bullets that
+ * have none but can be traced to a source, and renumber the cited sources in order of appearance
+ */
+export function attachCitations(
+  text: string,
+  sources: CitationSource[],
+  claims: NumericClaim[] = []
+): { text: string; citations: Citation[] } {
+  const byId = new Map(sources.map(s => [s.citation.id, s]));
+  const order: number[] = [];
+  const renumber = (id: number) => {
+    if (!order.includes(id)) order.push(id);
+    return order.indexOf(id) + 1;
+  };
+
+  const cite = (sentence: string): string => {
+    const given = [...sentence.matchAll(MARKER_PATTERN)]
+      .flatMap(m => m[1]!.split(',').map(id => Number(id.trim())))
+      .filter(id => byId.has(id));
+    const bare = sentence.replace(MARKER_PATTERN, '');
+    if (!/[a-z0-9]/i.test(bare)) return bare;
+
+    const ids = [...new Set(given.length > 0 ? given : inferSources(bare, sources, claims))];
+    if (ids.length === 0) return bare;
+
+    // Markers go before the closing punctuation: "... $28,154 [1]."
+    const [, body = bare, punctuation = ''] = bare.match(/^(.*?)([.!?:;]*)$/s) || [];
+    return `${body} ${ids.map(id => `[${renumber(id)}]`).join('')}${punctuation}`;
+  };
+
+  const cited = text
+    .split('\n')
+    .map(line => (line.trim() === '' || /^\s*#/.test(line) ? line : line.split(SENTENCE_BREAK).map(cite).join(' ')))
+    .join('\n');
+
+  return {
+    text: cited,
+    citations: order.map((id, i) => ({ ...byId.get(id)!.citation, id: i + 1 })),
+  };
+}
@@ -0,0 +1,358 @@
+/**
+ * Numeric claim verification - finds the figures quoted in a generated answer and checks each one
+ * against the values that were actually computed (chart data, totals, forecasts, statistics) and
+ * that its sentence is about
+ */
+
+import type { AgentState, NumericClaim, Visualization } from '../langgraph/state.js';
+import { escapeRegExp, markerRanges, sentenceRanges } from './citations.js';
+import type { StatisticalFinding } from './statistics.js';
+
+export interface ReferenceValue {
+  value: number;
+  source: string;
+  percent: boolean;
+  // Direct values can replace a slightly-off figure; derived ones (differences, shares) only verify
+  direct: boolean;
+  // What a sentence must name for its figure to be this value: one name of every group,
+  // e.g. [['South'], ['Profit']]. Empty for figures quoted as they are (the question, web pages).
+  labels: string[][];
+  // Values of one chart series, compared with each other when a sentence names two of them
+  comparable?: string;
+}
+
+// A figure this close to a direct reference (relative) is taken as a misquote of it and corrected
+const CORRECTION_TOLERANCE = 0.05;
+const TOTAL_WORDS = ['total', 'overall', 'combined', 'altogether', 'sum'];
+const AVERAGE_WORDS = ['average', 'mean', 'typical'];
+const ROW_WORDS = ['row', 'record', 'entry', 'entries', 'order', 'transaction'];
+const BOXPLOT_WORDS: Record<string, string[]> = {
+  min: ['min', 'minimum', 'lowest', 'smallest'],
+  q1: ['q1', 'first quartile', 'lower quartile', '25th percentile'],
+  median: ['median', 'middle', 'typical'],
+  q3: ['q3', 'third quartile', 'upper quartile', '75th percentile'],
+  max: ['max', 'maximum', 'highest', 'largest'],
+};
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const NUMBER_PATTERN = /([$€£])?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(\s?(?:%|percent\b|[kKmMbB](?![a-zA-Z])|thousand\b|million\b|billion\b))?/g;
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, million: 1e6, b: 1e9, billion: 1e9 };
+
+interface ParsedNumber {
+  text: string;
+  start: number;
+  end: number;
+  value: number;
+  percent: boolean;
+  // Half of the smallest unit the figure was written to, e.g. 50 for "23,500" and 0.05 for "29.4%"
+  precision: number;
+  currency: string;
+  decimals: number;
+  grouped: boolean;
+  multiplier: number;
+  unit: string;
+}
+
+/**
+ * Every figure in a text that states a quantity. Years, list numbers, dates, citation
+ * markers and small bare counts ("top 3") are skipped.
+ */
+export function extractNumbers(text: string): ParsedNumber[] {
+  const numbers: ParsedNumber[] = [];
+  const markers = markerRanges(text);
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const [full, currency = '', integer = '', fraction = '', rawUnit = ''] = match;
+    const start = match.index!;
+    const end = start + full.length;
+    if (markers.some(([from, to]) => start >= from && start < to)) continue;
+    const before = text.slice(Math.max(0, start - 2), start);
+    const after = text.slice(end, end + 2);
+
+    // Part of a word, an identifier, a date (2024-01-03) or a quarter label (Q1)
+    if (/[\w.]$/.test(before) && !/\d\.$/.test(before) || /\d[-/]$/.test(before) || /^[-/]\d/.test(after) || /^\.\d/.test(after)) continue;
+    // Numbered list items
+    if (/^\s*$/.test(text.slice(text.lastIndexOf('\n', start - 1) + 1, start)) && /^[.)]\s/.test(after)) continue;
+
+    const unit = rawUnit.trim().toLowerCase();
+    const percent = unit === '%' || unit === 'percent';
+    const multiplier = MULTIPLIERS[unit] || 1;
+    const digits = Number(`${integer.replace(/,/g, '')}${fraction ? `.${fraction}` : ''}`);
+    const bare = !currency && !unit && !fraction;
+
+    if (bare && !integer.includes(',') && ((digits >= 1900 && digits <= 2100) || digits <= 10)) continue;
+
+    const trailingZeros = fraction ? 0 : (integer.replace(/,/g, '').match(/0+$/)?.[0].length ?? 0);
+    const unitSize = fraction ? 10 ** -fraction.length : 10 ** Math.min(trailingZeros, Math.max(integer.replace(/,/g, '').length - 2, 0));
+    numbers.push({
+      text: full,
+      start,
+      end,
+      value: digits * multiplier,
+      percent,
+      precision: (unitSize / 2) * multiplier,
+      currency,
+      decimals: fraction.length,
+      grouped: integer.includes(','),
+      multiplier,
+      unit: rawUnit,
+    });
+  }
+  return numbers;
+}
+
+function numbersFromText(text: string | undefined, source: string, labels: string[][] = []): ReferenceValue[] {
+  return text
+    ? extractNumbers(text).map(n => ({ value: n.value, source, percent: n.percent, direct: true, labels }))
+    : [];
+}
+
+function numbersFromObject(value: unknown, source: string, path: string[] = []): ReferenceValue[] {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // A statistic is named by its column or the statistic itself
+    return [{ value, source, percent: false, direct: true, labels: path.length > 0 ? [path] : [] }];
+  }
+  if (!value || typeof value !== 'object' || path.length > 4) {
+    return [];
+  }
+  return Object.entries(value).flatMap(([key, item]) => numbersFromObject(item, source, Array.isArray(value) ? path : [...path, key]));
+}
+
+/**
+ * The ways a sentence can name a chart point: its label, and month or quarter names for periods
+ */
+function pointNames(name: unknown): string[] {
+  const label = String(name ?? '').trim();
+  if (!label) return [];
+  const month = label.match(/^(\d{4})-(\d{2})$/);
+  const monthName = month && MONTHS[Number(month[2]) - 1];
+  if (month && monthName) {
+    return [label, `${monthName} ${month[1]}`, monthName, monthName.substring(0, 3)];
+  }
+  const quarter = label.match(/^(\d{4})-(Q\d)$/);
+  if (quarter) {
+    return [label, `${quarter[2]} ${quarter[1]}`, quarter[2]!];
+  }
+  return [label];
+}
+
+function chartReferences(visualization: Visualization, index: number): ReferenceValue[] {
+  const references: ReferenceValue[] = [];
+  const add = (value: unknown, source: string, labels: string[][], options: { percent?: boolean; direct?: boolean; comparable?: string } = {}) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || labels.some(group => group.length === 0)) return;
+    references.push({
+      value,
+      source,
+      percent: !!options.percent,
+      direct: options.direct ?? true,
+      labels,
+      ...(options.comparable ? { comparable: options.comparable } : {}),
+    });
+  };
+  const plan = visualization.queryPlan;
+  const measureNames = [plan?.measure, visualization.yAxis].filter((n): n is string => !!n);
+  const values: Array<{ value: number; labels: string[][] }> = [];
+
+  for (const point of visualization.data || []) {
+    const names = pointNames(point?.name);
+    if (visualization.type === 'scatter') {
+      add(point?.x, 'chart data', [[plan?.xColumn || visualization.xAxis || ''].filter(Boolean)]);
+      add(point?.y, 'chart data', [measureNames]);
+      continue;
+    }
+    if (visualization.type === 'histogram') {
+      // Bin edges are values of the measure; the count is named by its bin
+      add(point?.start, 'chart data', [measureNames]);
+      add(point?.end, 'chart data', [measureNames]);
+      add(point?.value, 'chart data', [names]);
+      continue;
+    }
+
+    // Heatmap cells are named by both of their categories
+    const labels = typeof point?.series === 'string' ? [names, [point.series]] : [names];
+    add(point?.value, 'chart data', labels, { comparable: `${index}` });
+    if (typeof point?.value === 'number') values.push({ value: point.value, labels });
+    // Box plots quote their five-number summaries
+    for (const [key, words] of Object.entries(BOXPLOT_WORDS)) {
+      add(point?.[key], 'chart data', [names, words]);
+    }
+    if (visualization.type === 'boxplot') add(point?.count, 'chart data', [names, ROW_WORDS]);
+
+    for (const series of visualization.series || []) {
+      const seriesLabels = [names, [series.name]];
+      add(point?.[series.key], `chart data (${series.name})`, seriesLabels, { comparable: `${index}:${series.key}` });
+      if (typeof point?.[series.key] === 'number') values.push({ value: point[series.key], labels: seriesLabels });
+    }
+  }
+
+  if (values.length > 0) {
+    const total = values.reduce((sum, v) => sum + v.value, 0);
+    add(total, 'chart total', [TOTAL_WORDS]);
+    add(total / values.length, 'chart average', [AVERAGE_WORDS]);
+    add(values.length, 'number of chart points', [[visualization.xAxis || '', 'categories', 'groups', 'periods'].filter(Boolean)]);
+    if (total !== 0) {
+      values.forEach(v => add((v.value / total) * 100, 'share of chart total', v.labels, { percent: true, direct: false }));
+    }
+  }
+
+  add(visualization.rowsMatched, 'rows matched', [ROW_WORDS]);
+  add(visualization.rowsScanned, 'rows scanned', [ROW_WORDS]);
+
+  const { forecast } = visualization;
+  if (forecast) {
+    for (const point of forecast.points) {
+      const names = pointNames(point.name);
+      add(point.value, 'forecast', [names], { comparable: `${index}:forecast` });
+      add(point.lower, 'forecast interval', [names]);
+      add(point.upper, 'forecast interval', [names]);
+    }
+    add(forecast.points.reduce((sum, p) => sum + p.value, 0), 'forecast total', [TOTAL_WORDS]);
+    add(forecast.interval * 100, 'forecast interval', [['interval', 'confidence', 'range', 'likely']], { percent: true });
+    add(forecast.horizon, 'forecast horizon', [[forecast.timeBucket, 'period']]);
+    add(forecast.holdoutMAE, 'forecast error', [['error', 'accuracy', 'accurate', 'off by']]);
+  }
+  return references;
+}
+
+/**
+ * Everything the answer may quote, each with the names that tie it to a sentence: computed chart
+ * values, their totals and shares, forecasts, SQL results, dataset sizes and statistics, the
+ * statistical findings, web search results and the question itself
+ */
+export function collectReferenceValues(
+  state: Pick<AgentState, 'userQuery' | 'visualization' | 'relevantDatasets' | 'searchResults' | 'sqlQuery'>
+    & Partial<Pick<AgentState, 'visualizations'>>,
+  findings: Array<Pick<StatisticalFinding, 'description' | 'statistic'>> = []
+): ReferenceValue[] {
+  // An overview answer may quote any of its charts
+  const charts = state.visualizations?.length ? state.visualizations : state.visualization ? [state.visualization] : [];
+  const references = charts.flatMap(chartReferences);
+
+  for (const row of state.sqlQuery?.rows || []) {
+    // A result row is named by its text values (e.g. the product), or by the column when it has none
+    const names = Object.values(row).filter((value): value is string => typeof value === 'string' && value.trim() !== '');
+    Object.entries(row).forEach(([column, value]) => {
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        references.push({ value, source: 'SQL result', percent: false, direct: true, labels: [names.length > 0 ? names : [column]] });
+      }
+    });
+  }
+  if (state.sqlQuery && !state.sqlQuery.error) {
+    references.push({ value: state.sqlQuery.rowCount, source: 'SQL result rows', percent: false, direct: true, labels: [[...ROW_WORDS, 'result']] });
+  }
+
+  for (const dataset of state.relevantDatasets || []) {
+    if (dataset.rowCount) {
+      references.push({ value: dataset.rowCount, source: `${dataset.name} row count`, percent: false, direct: true, labels: [ROW_WORDS] });
+    }
+    if (dataset.columns) {
+      references.push({ value: dataset.columns.length, source: `${dataset.name} column count`, percent: false, direct: true, labels: [['column', 'field']] });
+    }
+    references.push(...numbersFromObject((dataset as any).statistics, `${dataset.name} statistics`));
+  }
+
+  findings.forEach(finding => references.push(...numbersFromText(finding.description, 'statistical findings', [finding.statistic.columns])));
+  references.push(...numbersFromText(state.searchResults?.summary, 'web search'));
+  references.push(...numbersFromText(state.userQuery, 'your question'));
+
+  return references;
+}
+
+/**
+ * Whether a sentence names a term, as a whole word and allowing a plural
+ */
+function mentionsTerm(sentence: string, term: string): boolean {
+  return new RegExp(`(?<![\\w])${escapeRegExp(term)}(?:s|es)?(?![\\w])`, 'i').test(sentence);
+}
+
+/**
+ * The references a sentence can quote: those it names, and the differences, changes and ratios
+ * between the values of one series it names
+ */
+function sentenceReferences(sentence: string, references: ReferenceValue[]): ReferenceValue[] {
+  const named = references.filter(ref => ref.labels.every(group => group.some(term => mentionsTerm(sentence, term))));
+  const derived: ReferenceValue[] = [];
+
+  const bySeries = new Map<string, ReferenceValue[]>();
+  named.filter(ref => ref.comparable).forEach(ref => bySeries.set(ref.comparable!, [...(bySeries.get(ref.comparable!) || []), ref]));
+  for (const values of bySeries.values()) {
+    values.forEach((a, i) => values.forEach((b, j) => {
+      if (i === j) return;
+      const pair = { direct: false, labels: [...a.labels, ...b.labels] };
+      derived.push({ ...pair, value: Math.abs(a.value - b.value), source: 'difference between chart values', percent: false });
+      if (b.value !== 0) {
+        derived.push({ ...pair, value: Math.abs(((a.value - b.value) / b.value) * 100), source: 'change between chart values', percent: true });
+        derived.push({ ...pair, value: a.value / b.value, source: 'ratio of chart values', percent: false });
+      }
+    }));
+  }
+  return [...named, ...derived];
+}
+
+/**
+ * Write a reference value the way the original figure was written (currency, unit, decimals, separators)
+ */
+function formatLike(value: number, original: ParsedNumber): string {
+  const scaled = Math.abs(value) / original.multiplier;
+  const digits = original.grouped || (scaled >= 10000 && !original.decimals)
+    ? scaled.toLocaleString('en-US', { minimumFractionDigits: original.decimals, maximumFractionDigits: original.decimals })
+    : scaled.toFixed(original.decimals);
+  return `${original.currency}${digits}${original.unit}`;
+}
+
+/**
+ * Check every figure of a generated text against the reference values its sentence names.
+ * Figures within a few percent of such a value are rewritten to it; others that match
+ * nothing are kept but marked unverified.
+ */
+export function verifyNumericClaims(text: string, references: ReferenceValue[]): { text: string; claims: NumericClaim[] } {
+  const claims: NumericClaim[] = [];
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+  const sentences = sentenceRanges(text).map(([start, end]) => ({
+    start,
+    end,
+    references: null as ReferenceValue[] | null,
+  }));
+
+  for (const number of extractNumbers(text)) {
+    const sentence = sentences.find(s => number.start >= s.start && number.start < s.end);
+    if (sentence && !sentence.references) {
+      sentence.references = sentenceReferences(text.slice(sentence.start, sentence.end), references);
+    }
+    const candidates = (sentence?.references || []).filter(ref => ref.percent === number.percent);
+    const tolerance = (ref: ReferenceValue) => number.precision + Math.abs(ref.value) * 1e-9;
+    const match = candidates.find(ref => Math.abs(Math.abs(ref.value) - number.value) <= tolerance(ref));
+
+    if (match) {
+      claims.push({ text: number.text, value: number.value, status: 'verified', source: match.source });
+      continue;
+    }
+
+    const closest = candidates
+      .filter(ref => ref.direct && ref.value !== 0)
+      .map(ref => ({ ref, distance: Math.abs(Math.abs(ref.value) - number.value) / Math.abs(ref.value) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    if (closest && closest.distance <= CORRECTION_TOLERANCE) {
+      const corrected = formatLike(closest.ref.value, number);
+      replacements.push({ start: number.start, end: number.end, text: corrected });
+      claims.push({
+        text: corrected,
+        value: Math.abs(closest.ref.value),
+        status: 'corrected',
+        source: closest.ref.source,
+        original: number.text,
+      });
+      continue;
+    }
+
+    claims.push({ text: number.text, value: number.value, status: 'unverified' });
+  }
+
+  // Replace from the end so earlier positions stay valid
+  let verifiedText = text;
+  for (const { start, end, text: replacement } of replacements.reverse()) {
+    verifiedText = verifiedText.slice(0, start) + replacement + verifiedText.slice(end);
+  }
+  return { text: verifiedText, claims };
+}
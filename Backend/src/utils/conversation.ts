@@ -0,0 +1,106 @@
+/**
+ * Conversation helpers for building follow-up aware prompts
+ */
+
+import type { Message, PreviousTurn } from '../langgraph/state.js';
+
+// Phrases that refer back to the previous answer wherever they appear
+const FOLLOW_UP_PATTERNS = [
+  /^(now|then|and|also|instead|but|what about|how about|same|ok|okay)\b/,
+  /\b(the same|the (previous|last) (answer|chart|one|result|question)|the last one|the (chart|answer|table|results?) above)\b/,
+  /\b(break (it|that|this) down|drill (down|into)|zoom in|filter (it|that|this)|only show|exclude|instead of)\b/,
+  /^by \w+/,
+];
+
+// Words that refer to something named earlier; this/that/these/those only when no noun follows
+const PRONOUNS = new Set(['it', 'them', 'that', 'this', 'those', 'these']);
+const DETERMINERS = new Set(['that', 'this', 'those', 'these']);
+// "is it possible", "does it matter" - a pronoun after these starts a fresh question as often as not
+const AUXILIARIES = new Set(['is', 'are', 'was', 'were', 'do', 'does', 'did', 'can', 'could', 'would', 'should', 'will']);
+
+// Question words, auxiliaries, particles and generic verbs - what is left of a query without them are its nouns
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'of', 'in', 'on', 'for', 'to', 'by', 'as', 'at', 'with', 'from',
+  'into', 'over', 'up', 'down', 'out', 'off', 'about', 'than', 'again', 'instead', 'please', 'just', 'only',
+  'more', 'less', 'much', 'many', 'very', 'too', 'also', 'then', 'now', 'there', 'here', 'its', 'their',
+  'i', 'me', 'we', 'us', 'you', 'what', 'why', 'how', 'when', 'where', 'which', 'who',
+  'is', 'are', 'was', 'were', 'be', 'been', 'do', 'does', 'did', 'can', 'could', 'would', 'should', 'will',
+  'show', 'plot', 'draw', 'display', 'explain', 'break', 'split', 'sort', 'group', 'filter', 'make', 'turn',
+  'compare', 'mean', 'means', 'happen', 'happened', 'cause', 'caused', 'go', 'went', 'look', 'looks', 'like',
+  'change', 'changed', 'drop', 'dropped', 'fall', 'fell', 'rise', 'rose', 'grow', 'grew', 'increase', 'increased',
+  'decrease', 'decreased', 'tell', 'give',
+]);
+
+/**
+ * Whether the word at an index is a pronoun rather than a determiner ("that" in "why is that",
+ * not in "that region")
+ */
+function isPronounAt(words: string[], index: number): boolean {
+  const word = words[index];
+  if (!word || !PRONOUNS.has(word)) return false;
+  const next = words[index + 1];
+  return !DETERMINERS.has(word) || next === undefined || FUNCTION_WORDS.has(next);
+}
+
+/**
+ * Detect whether a query refers back to the previous answer: it opens with a reference
+ * ("that as a pie", "show it by month"), uses a phrase that points back ("the same"), or
+ * has a pronoun and no noun of its own ("why is that?"). A fresh question that merely
+ * contains "this" or "it" ("what is the profit margin in this dataset") is not a follow-up.
+ */
+export function isFollowUpQuery(query: string, previousTurn: PreviousTurn | null | undefined): boolean {
+  if (!previousTurn) {
+    return false;
+  }
+
+  const lowerQuery = query.toLowerCase().trim();
+  if (FOLLOW_UP_PATTERNS.some(pattern => pattern.test(lowerQuery))) {
+    return true;
+  }
+
+  const words = lowerQuery.match(/[a-z0-9']+/g) || [];
+  if (isPronounAt(words, 0) || (!AUXILIARIES.has(words[0] || '') && isPronounAt(words, 1))) {
+    return true;
+  }
+  return words.some((_, i) => isPronounAt(words, i))
+    && words.every((word, i) => FUNCTION_WORDS.has(word) || isPronounAt(words, i));
+}
+
+/**
+ * Format earlier messages for inclusion in a prompt (excludes the current query)
+ */
+export function formatConversationHistory(messages: Message[], limit: number = 6): string {
+  // The last message is the current user query
+  const earlier = messages.slice(0, -1).slice(-limit);
+  if (earlier.length === 0) {
+    return '';
+  }
+
+  return earlier
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.length > 500 ? `${m.content.substring(0, 500)}...` : m.content}`)
+    .join('\n');
+}
+
+/**
+ * Describe the previous answer so agents can treat the query as an edit of it
+ */
+export function describePreviousTurn(previousTurn: PreviousTurn): string {
+  const lines = [`Previous question: "${previousTurn.userQuery}"`];
+
+  if (previousTurn.datasets.length > 0) {
+    lines.push(`Previous datasets: ${previousTurn.datasets.map(d => d.name).join(', ')}`);
+  }
+
+  const viz = previousTurn.visualization;
+  if (viz) {
+    lines.push(`Previous chart: ${viz.type} "${viz.title || 'Untitled'}" (x: ${viz.xAxis || 'n/a'}, y: ${viz.yAxis || 'n/a'})`);
+  }
+
+  if (previousTurn.filters.length > 0) {
+    lines.push(`Previous filters: ${JSON.stringify(previousTurn.filters)}`);
+  }
+
+  lines.push(`Previous answer: ${previousTurn.summary.substring(0, 500)}`);
+
+  return lines.join('\n');
+}
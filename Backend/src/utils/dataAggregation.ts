@@ -7,6 +7,8 @@ export interface AggregationConfig {
   aggregateBy: string;
   operation: 'sum' | 'avg' | 'count' | 'min' | 'max';
   limit?: number;
+  sortBy?: 'value' | 'name';
+  sortDirection?: 'asc' | 'desc';
 }
 
 export interface AggregatedResult {
@@ -14,6 +16,20 @@ export interface AggregatedResult {
   value: number;
 }
 
+/**
+ * Parse a numeric cell value, tolerating thousands separators, currency and percent signs
+ */
+export function parseNumeric(value: any): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value === null || value === undefined || value === '') {
+    return NaN;
+  }
+  const cleaned = String(value).replace(/[,$€£%\s]/g, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+}
+
 /**
  * Aggregate tabular data based on configuration
  */
@@ -25,7 +41,7 @@ export function aggregateData(
     return [];
   }
 
-  const { groupBy, aggregateBy, operation, limit = 15 } = config;
+  const { groupBy, aggregateBy, operation, limit = 15, sortBy = 'value', sortDirection = 'desc' } = config;
 
   // Group data by the specified column
   const groups = new Map<string, any[]>();
@@ -43,6 +59,10 @@ export function aggregateData(
 
   groups.forEach((groupRows, groupKey) => {
     let value: number;
+    // Blank and non-numeric cells are skipped rather than counted as 0
+    const values = operation === 'count'
+      ? []
+      : groupRows.map(row => parseNumeric(row[aggregateBy])).filter(val => !isNaN(val));
 
     switch (operation) {
       case 'count':
@@ -50,32 +70,20 @@ export function aggregateData(
         break;
 
       case 'sum':
-        value = groupRows.reduce((sum, row) => {
-          const val = parseFloat(row[aggregateBy]);
-          return sum + (isNaN(val) ? 0 : val);
-        }, 0);
+        value = values.reduce((sum, val) => sum + val, 0);
         break;
 
       case 'avg':
-        const sum = groupRows.reduce((sum, row) => {
-          const val = parseFloat(row[aggregateBy]);
-          return sum + (isNaN(val) ? 0 : val);
-        }, 0);
-        value = sum / groupRows.length;
+        value = values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0;
         break;
 
+      // A loop rather than Math.min(...values), which overflows the stack on large datasets
       case 'min':
-        value = Math.min(...groupRows.map(row => {
-          const val = parseFloat(row[aggregateBy]);
-          return isNaN(val) ? Infinity : val;
-        }));
+        value = values.length > 0 ? values.reduce((min, val) => Math.min(min, val), Infinity) : 0;
         break;
 
       case 'max':
-        value = Math.max(...groupRows.map(row => {
-          const val = parseFloat(row[aggregateBy]);
-          return isNaN(val) ? -Infinity : val;
-        }));
+        value = values.length > 0 ? values.reduce((max, val) => Math.max(max, val), -Infinity) : 0;
         break;
 
       default:
@@ -88,9 +96,12 @@ export function aggregateData(
     });
   });
 
-  // Sort by value descending and limit results
+  // Sort (by value descending unless configured otherwise) and limit results
+  const direction = sortDirection === 'asc' ? 1 : -1;
   return results
-    .sort((a, b) => b.value - a.value)
+    .sort((a, b) => sortBy === 'name'
+      ? direction * a.name.localeCompare(b.name, undefined, { numeric: true })
+      : direction * (a.value - b.value))
     .slice(0, limit);
 }
 
@@ -105,7 +116,7 @@ export function detectNumericColumns(data: any[], columns: string[]): string[] {
   const sampleRow = data[0];
   return columns.filter(col => {
     const value = sampleRow[col];
-    return typeof value === 'number' || !isNaN(parseFloat(value));
+    return typeof value === 'number' || !isNaN(parseNumeric(value));
   });
 }
 
@@ -121,6 +132,43 @@ export function detectCategoricalColumns(data: any[], columns: string[]): string
   return columns.filter(col => !numericCols.has(col));
 }
 
+// Names like "Row ID", "customer_id" or "Postal Code"
+const IDENTIFIER_NAME = /(^|[\s_])(id|code|zip)$/i;
+// A column with (almost) one value per row is an identifier, not a measure or a grouping
+const IDENTIFIER_RATIO = 0.9;
+// Below this many rows every value of a short column can be distinct by chance
+const MIN_IDENTIFIER_ROWS = 20;
+
+/**
+ * Whether a column identifies rows instead of measuring or grouping them: named like an id, or with
+ * (almost) one value per row that is text or a run of whole numbers (a row counter)
+ */
+export function isIdentifierColumn(data: any[], column: string): boolean {
+  if (IDENTIFIER_NAME.test(column.trim())) {
+    return true;
+  }
+  if (data.length <= MIN_IDENTIFIER_ROWS) {
+    return false;
+  }
+
+  const values = new Set(data.map(row => String(row[column] ?? '')));
+  if (values.size < data.length * IDENTIFIER_RATIO) {
+    return false;
+  }
+  const numbers = [...values].map(parseNumeric);
+  if (numbers.some(n => !Number.isFinite(n))) {
+    return true;
+  }
+  let min = Infinity;
+  let max = -Infinity;
+  for (const n of numbers) {
+    if (!Number.isInteger(n)) return false;
+    if (n < min) min = n;
+    if (n > max) max = n;
+  }
+  return max - min + 1 <= numbers.length / IDENTIFIER_RATIO;
+}
+
 /**
  * Detect date/time columns in a dataset
  */
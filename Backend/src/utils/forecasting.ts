@@ -0,0 +1,268 @@
+/**
+ * Time-series forecasting - small local models (Holt-Winters, seasonal naive, linear trend)
+ * fitted to a bucketed series, chosen by their error on the most recent periods
+ */
+
+import type { ForecastModel, ForecastPoint, QueryPlan } from '../langgraph/state.js';
+import { linearRegression } from './statistics.js';
+import { bucketDate } from './queryExecutor.js';
+
+type TimeBucket = NonNullable<QueryPlan['timeBucket']>;
+
+export interface ForecastResult {
+  model: ForecastModel;
+  points: ForecastPoint[];
+  // Mean absolute error of each candidate model on the held-out periods
+  candidates: Array<{ model: ForecastModel; holdoutMAE: number }>;
+}
+
+// Two-sided 95% prediction intervals
+export const FORECAST_INTERVAL = 0.95;
+const Z_95 = 1.959964;
+
+const MIN_HISTORY = 4;
+const SEASON_LENGTH: Record<TimeBucket, number> = { day: 7, week: 52, month: 12, quarter: 4, year: 0 };
+const SMOOTHING_GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+// Point forecasts and the standard error of each step ahead
+interface ModelFit {
+  forecast: number[];
+  standardErrors: number[];
+}
+
+type Model = (series: number[], horizon: number, seasonLength: number) => ModelFit | null;
+
+const rmse = (errors: number[]) => Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / Math.max(errors.length, 1));
+
+/**
+ * Straight line through the series, with regression prediction intervals
+ */
+const linearModel: Model = (series, horizon) => {
+  const n = series.length;
+  const xs = series.map((_, i) => i);
+  const fit = linearRegression(xs, series);
+  if (!fit) {
+    // A flat series has no slope to fit; forecast the level
+    const level = series[0]!;
+    return series.every(v => v === level)
+      ? { forecast: Array(horizon).fill(level), standardErrors: Array(horizon).fill(0) }
+      : null;
+  }
+
+  const meanX = (n - 1) / 2;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const sigma = rmse(series.map((y, i) => y - (fit.intercept + fit.slope * i))) * Math.sqrt(n / Math.max(n - 2, 1));
+  const steps = Array.from({ length: horizon }, (_, k) => n + k);
+  return {
+    forecast: steps.map(x => fit.intercept + fit.slope * x),
+    standardErrors: steps.map(x => sigma * Math.sqrt(1 + 1 / n + (x - meanX) ** 2 / sxx)),
+  };
+};
+
+/**
+ * Each period repeats the same period of the last season
+ */
+const seasonalNaiveModel: Model = (series, horizon, seasonLength) => {
+  const n = series.length;
+  if (seasonLength < 2 || n <= seasonLength) return null;
+
+  const sigma = rmse(series.slice(seasonLength).map((y, i) => y - series[i]!));
+  return {
+    forecast: Array.from({ length: horizon }, (_, k) => series[n - seasonLength + (k % seasonLength)]!),
+    standardErrors: Array.from({ length: horizon }, (_, k) => sigma * Math.sqrt(Math.floor(k / seasonLength) + 1)),
+  };
+};
+
+/**
+ * One pass of additive Holt-Winters (or Holt's linear trend when seasonLength is 0),
+ * returning the one-step-ahead errors and the final state
+ */
+function runHoltWinters(series: number[], seasonLength: number, alpha: number, beta: number, gamma: number) {
+  const seasonal = seasonLength >= 2;
+  const start = seasonal ? seasonLength : 1;
+
+  let level: number;
+  let trend: number;
+  let seasons: number[] = [];
+  if (seasonal) {
+    // Initial level and trend from the first two seasons, seasonal indices from the first
+    const first = series.slice(0, seasonLength);
+    const second = series.slice(seasonLength, 2 * seasonLength);
+    const firstMean = first.reduce((a, b) => a + b, 0) / seasonLength;
+    const secondMean = second.reduce((a, b) => a + b, 0) / seasonLength;
+    level = firstMean;
+    trend = (secondMean - firstMean) / seasonLength;
+    seasons = first.map(v => v - firstMean);
+  } else {
+    level = series[0]!;
+    trend = series[1]! - series[0]!;
+  }
+
+  const errors: number[] = [];
+  for (let t = start; t < series.length; t++) {
+    const season = seasonal ? seasons[t % seasonLength]! : 0;
+    const y = series[t]!;
+    errors.push(y - (level + trend + season));
+
+    const previousLevel = level;
+    level = alpha * (y - season) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (seasonal) {
+      seasons[t % seasonLength] = gamma * (y - level) + (1 - gamma) * season;
+    }
+  }
+  return { errors, level, trend, seasons };
+}
+
+/**
+ * Additive Holt-Winters with smoothing parameters picked by grid search;
+ * Holt's linear trend when there are fewer than two full seasons
+ */
+const holtWintersModel: Model = (series, horizon, seasonLength) => {
+  const n = series.length;
+  const season = seasonLength >= 2 && n >= 2 * seasonLength ? seasonLength : 0;
+  if (n < 3) return null;
+
+  let best: (ReturnType<typeof runHoltWinters> & { sse: number }) | null = null;
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      for (const gamma of season ? SMOOTHING_GRID : [0]) {
+        const run = runHoltWinters(series, season, alpha, beta, gamma);
+        const sse = run.errors.reduce((sum, e) => sum + e * e, 0);
+        if (!best || sse < best.sse) best = { ...run, sse };
+      }
+    }
+  }
+  if (!best) return null;
+
+  const { level, trend, seasons, errors } = best;
+  const sigma = rmse(errors);
+  return {
+    forecast: Array.from({ length: horizon }, (_, k) =>
+      level + (k + 1) * trend + (season ? seasons[(n + k) % season]! : 0)
+    ),
+    standardErrors: Array.from({ length: horizon }, (_, k) => sigma * Math.sqrt(k + 1)),
+  };
+};
+
+const MODELS: Record<ForecastModel, Model> = {
+  holt_winters: holtWintersModel,
+  seasonal_naive: seasonalNaiveModel,
+  linear: linearModel,
+};
+
+/**
+ * Start of the period a bucket label names (the inverse of bucketDate)
+ */
+function parsePeriodLabel(label: string, bucket: TimeBucket): Date | null {
+  const quarter = label.match(/^(\d{4})-Q([1-4])$/);
+  if (quarter) return new Date(Date.UTC(Number(quarter[1]), (Number(quarter[2]) - 1) * 3, 1));
+  const month = label.match(/^(\d{4})-(\d{2})$/);
+  if (month) return new Date(Date.UTC(Number(month[1]), Number(month[2]) - 1, 1));
+  if (bucket === 'year' && /^\d{4}$/.test(label)) return new Date(Date.UTC(Number(label), 0, 1));
+  const time = Date.parse(`${label.substring(0, 10)}T00:00:00Z`);
+  return isNaN(time) ? null : new Date(time);
+}
+
+function addPeriods(date: Date, bucket: TimeBucket, count: number): Date {
+  const next = new Date(date);
+  switch (bucket) {
+    case 'year':
+      next.setUTCFullYear(next.getUTCFullYear() + count);
+      break;
+    case 'quarter':
+      next.setUTCMonth(next.getUTCMonth() + 3 * count);
+      break;
+    case 'month':
+      next.setUTCMonth(next.getUTCMonth() + count);
+      break;
+    case 'week':
+      next.setUTCDate(next.getUTCDate() + 7 * count);
+      break;
+    default:
+      next.setUTCDate(next.getUTCDate() + count);
+  }
+  return next;
+}
+
+/**
+ * Turn bucketed chart data into a gap-free series. Periods without rows are 0 for totals
+ * and counts, and repeat the previous value for averages, minimums and maximums.
+ */
+export function toContinuousSeries(
+  data: Array<{ name: string; value: number }>,
+  bucket: TimeBucket,
+  operation: QueryPlan['operation']
+): Array<{ name: string; value: number }> {
+  const first = data[0] && parsePeriodLabel(data[0].name, bucket);
+  if (!first) return data;
+
+  const values = new Map(data.map(d => [d.name, d.value]));
+  const last = data[data.length - 1]!.name;
+  const series: Array<{ name: string; value: number }> = [];
+  for (let date = first; series.length < 10000; date = addPeriods(date, bucket, 1)) {
+    const name = bucketDate(date, bucket);
+    const previous = series[series.length - 1]?.value ?? 0;
+    series.push({ name, value: values.get(name) ?? (operation === 'sum' || operation === 'count' ? 0 : previous) });
+    if (name >= last) break;
+  }
+  return series;
+}
+
+/**
+ * Forecast the next `horizon` periods of a continuous series. Each model is scored on the
+ * most recent periods it did not see; the best one is refitted on the whole series.
+ */
+export function forecastSeries(
+  series: Array<{ name: string; value: number }>,
+  bucket: TimeBucket,
+  horizon: number
+): ForecastResult | null {
+  if (series.length < MIN_HISTORY || horizon < 1) {
+    return null;
+  }
+
+  const values = series.map(d => d.value);
+  const seasonLength = SEASON_LENGTH[bucket];
+  const holdout = Math.max(1, Math.min(horizon, Math.floor(values.length / 4)));
+  const training = values.slice(0, -holdout);
+  const actual = values.slice(-holdout);
+
+  const candidates = (Object.keys(MODELS) as ForecastModel[])
+    .map(model => {
+      const fit = MODELS[model](training, holdout, seasonLength);
+      if (!fit) return null;
+      const holdoutMAE = fit.forecast.reduce((sum, f, i) => sum + Math.abs(actual[i]! - f), 0) / holdout;
+      return { model, holdoutMAE: Number(holdoutMAE.toFixed(4)) };
+    })
+    .filter((c): c is { model: ForecastModel; holdoutMAE: number } => c !== null)
+    .sort((a, b) => a.holdoutMAE - b.holdoutMAE);
+
+  const lastPeriod = parsePeriodLabel(series[series.length - 1]!.name, bucket);
+  if (!lastPeriod) {
+    return null;
+  }
+  // Totals and counts that never went negative are not forecast below zero
+  const floor = values.every(v => v >= 0) ? 0 : -Infinity;
+
+  for (const { model } of candidates) {
+    const fit = MODELS[model](values, horizon, seasonLength);
+    if (!fit) continue;
+
+    const round = (value: number) => Number(value.toFixed(2));
+    return {
+      model,
+      candidates,
+      points: fit.forecast.map((value, k) => {
+        const margin = Z_95 * fit.standardErrors[k]!;
+        return {
+          name: bucketDate(addPeriods(lastPeriod, bucket, k + 1), bucket),
+          value: round(Math.max(value, floor)),
+          lower: round(Math.max(value - margin, floor)),
+          upper: round(Math.max(value + margin, floor)),
+        };
+      }),
+    };
+  }
+  return null;
+}
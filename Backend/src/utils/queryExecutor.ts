@@ -0,0 +1,470 @@
+/**
+ * Deterministic query plan execution - turns an LLM-produced plan into real computed chart data
+ */
+
+import type { ChartSeries, PlanMeasure, QueryFilter, QueryPlan } from '../langgraph/state.js';
+import { aggregateData, parseNumeric, type AggregatedResult } from './dataAggregation.js';
+
+export interface QueryResult {
+  data: any[];
+  series?: ChartSeries[];
+  rowsScanned: number;
+  rowsMatched: number;
+}
+
+const DEFAULT_LIMIT = 15;
+const DEFAULT_SCATTER_LIMIT = 200;
+const TIME_BUCKET_LIMIT = 500;
+// Colours a stacked or grouped bar can tell apart; heatmaps take more rows
+const SERIES_LIMIT = 8;
+const HEATMAP_SERIES_LIMIT = 20;
+const MAX_BINS = 50;
+
+// Charts that can draw several series, one per seriesBy value or extra measure
+export const SERIES_CHARTS: QueryPlan['chartType'][] = ['line', 'area', 'bar', 'stacked_bar', 'grouped_bar'];
+// Same order as the client's chart palette
+const SERIES_COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#06b6d4', '#6366f1', '#84cc16'];
+// Extra measures this many times larger or smaller than the main one get their own axis
+const SECONDARY_AXIS_RATIO = 10;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Compare a cell value against a filter, numerically when both sides are numbers
+ */
+function matchesFilter(row: any, filter: QueryFilter): boolean {
+  const cell = row[filter.column];
+  const cellText = String(cell ?? '').trim().toLowerCase();
+  const cellNumber = parseNumeric(cell);
+
+  const compare = (target: any): number | null => {
+    const targetNumber = parseNumeric(target);
+    if (!isNaN(cellNumber) && !isNaN(targetNumber)) {
+      return cellNumber - targetNumber;
+    }
+    const targetDate = Date.parse(String(target));
+    const cellDate = Date.parse(String(cell));
+    if (!isNaN(targetDate) && !isNaN(cellDate)) {
+      return cellDate - targetDate;
+    }
+    return null;
+  };
+
+  switch (filter.operator) {
+    case 'eq':
+      return cellText === String(filter.value ?? '').trim().toLowerCase();
+    case 'neq':
+      return cellText !== String(filter.value ?? '').trim().toLowerCase();
+    case 'in': {
+      const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+      return values.some((v: any) => cellText === String(v ?? '').trim().toLowerCase());
+    }
+    case 'contains':
+      return cellText.includes(String(filter.value ?? '').toLowerCase());
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const diff = compare(filter.value);
+      if (diff === null) return false;
+      if (filter.operator === 'gt') return diff > 0;
+      if (filter.operator === 'gte') return diff >= 0;
+      if (filter.operator === 'lt') return diff < 0;
+      return diff <= 0;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Apply all filters (AND) to the rows
+ */
+export function applyFilters(rows: any[], filters: QueryFilter[] = []): any[] {
+  if (filters.length === 0) {
+    return rows;
+  }
+  return rows.filter(row => filters.every(filter => matchesFilter(row, filter)));
+}
+
+/**
+ * Parse a date cell, supporting YYYY-MM-DD, MM/DD/YYYY and DD-MM-YYYY
+ */
+export function parseDateValue(value: any): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  const text = String(value ?? '').trim();
+  if (!text) {
+    return null;
+  }
+
+  const dayFirst = text.match(/^(\d{2})-(\d{2})-(\d{4})/);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  }
+
+  const timestamp = Date.parse(text);
+  return isNaN(timestamp) ? null : new Date(timestamp);
+}
+
+/**
+ * Bucket a date into a sortable label (e.g. 2024-03, 2024-Q1)
+ */
+export function bucketDate(date: Date, bucket: NonNullable<QueryPlan['timeBucket']>): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+
+  switch (bucket) {
+    case 'year':
+      return `${year}`;
+    case 'quarter':
+      return `${year}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+    case 'month':
+      return `${year}-${month}`;
+    case 'week': {
+      // Label weeks by their Monday
+      const monday = new Date(date);
+      monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      return monday.toISOString().substring(0, 10);
+    }
+    default:
+      return `${year}-${month}-${day}`;
+  }
+}
+
+/**
+ * Rewrite the group key of each row into a sortable period label when the plan buckets dates
+ */
+function withGroupKey(rows: any[], plan: QueryPlan): { rows: any[]; groupKey: string } {
+  if (!plan.groupBy || !plan.timeBucket) {
+    return { rows, groupKey: plan.groupBy || '' };
+  }
+  const bucketed = rows
+    .map(row => {
+      const date = parseDateValue(row[plan.groupBy!]);
+      return date ? { ...row, __bucket: bucketDate(date, plan.timeBucket!) } : null;
+    })
+    .filter((row): row is any => row !== null);
+  return { rows: bucketed, groupKey: '__bucket' };
+}
+
+/**
+ * Numeric values of the measure column, skipping cells that are not numbers
+ */
+function measureValues(rows: any[], measure: string): number[] {
+  return rows.map(row => parseNumeric(row[measure])).filter(value => !isNaN(value));
+}
+
+/**
+ * Format a bin edge for a label, with fewer decimals for wide bins
+ */
+function formatEdge(value: number, width: number): string {
+  const decimals = width >= 10 ? 0 : width >= 1 ? 1 : 2;
+  return value.toLocaleString('en-US', { maximumFractionDigits: decimals });
+}
+
+/**
+ * Equal-width bins over the measure, counting the rows in each. The last bin includes its upper edge.
+ */
+function histogram(rows: any[], plan: QueryPlan): any[] {
+  const values = measureValues(rows, plan.measure!);
+  if (values.length === 0) {
+    return [];
+  }
+  // A loop rather than Math.min(...values), which overflows the stack on large datasets
+  const { min, max } = values.reduce(
+    (range, value) => ({ min: Math.min(range.min, value), max: Math.max(range.max, value) }),
+    { min: Infinity, max: -Infinity }
+  );
+  // Sturges' rule unless the plan asks for a number of bins
+  const count = min === max ? 1 : Math.min(MAX_BINS, Math.max(1, Math.round(plan.bins || Math.ceil(Math.log2(values.length)) + 1)));
+  const width = min === max ? 1 : (max - min) / count;
+
+  const counts = new Array<number>(count).fill(0);
+  values.forEach(value => {
+    const index = Math.min(count - 1, Math.floor((value - min) / width));
+    counts[index]! += 1;
+  });
+
+  return counts.map((value, i) => {
+    const start = round(min + i * width);
+    const end = round(i === count - 1 ? Math.max(max, min + width) : min + (i + 1) * width);
+    return { name: `${formatEdge(start, width)}–${formatEdge(end, width)}`, start, end, value };
+  });
+}
+
+/**
+ * Quantile of sorted values, interpolating between the closest ranks
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
+
+/**
+ * Five-number summary of the measure per group (one box for all rows without a grouping)
+ */
+function boxplot(rows: any[], plan: QueryPlan): any[] {
+  const { rows: grouped, groupKey } = withGroupKey(rows, plan);
+  const groups = new Map<string, number[]>();
+  grouped.forEach(row => {
+    const value = parseNumeric(row[plan.measure!]);
+    if (isNaN(value)) return;
+    const key = groupKey ? String(row[groupKey] || 'Unknown') : 'All';
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(value);
+  });
+
+  const boxes = [...groups.entries()].map(([name, values]) => {
+    const sorted = values.sort((a, b) => a - b);
+    const median = round(quantile(sorted, 0.5));
+    return {
+      name,
+      // The median doubles as the value, for renderers that draw one bar per group
+      value: median,
+      min: round(sorted[0]!),
+      q1: round(quantile(sorted, 0.25)),
+      median,
+      q3: round(quantile(sorted, 0.75)),
+      max: round(sorted[sorted.length - 1]!),
+      count: sorted.length,
+    };
+  });
+
+  // Periods in time order, categories by median unless the plan sorts by name
+  const byName = plan.timeBucket || plan.sort?.by === 'name';
+  const direction = (plan.sort?.direction || (byName ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+  return boxes
+    .sort((a, b) => byName
+      ? direction * a.name.localeCompare(b.name, undefined, { numeric: true })
+      : direction * (a.value - b.value))
+    .slice(0, plan.limit || (plan.timeBucket ? TIME_BUCKET_LIMIT : DEFAULT_LIMIT));
+}
+
+/**
+ * Whether the plan has the columns its chart type is drawn from
+ */
+export function planFitsChart(plan: {
+  chartType: QueryPlan['chartType'];
+  groupBy?: string | undefined;
+  measure?: string | undefined;
+  xColumn?: string | undefined;
+  seriesBy?: string | undefined;
+  extraMeasures?: PlanMeasure[] | undefined;
+}): boolean {
+  switch (plan.chartType) {
+    case 'scatter':
+      return !!plan.xColumn && !!plan.measure;
+    case 'histogram':
+    case 'boxplot':
+      return !!plan.measure;
+    case 'heatmap':
+      return !!plan.groupBy && !!plan.seriesBy && plan.seriesBy !== plan.groupBy;
+    case 'stacked_bar':
+    case 'grouped_bar':
+      return !!plan.groupBy && ((!!plan.seriesBy && plan.seriesBy !== plan.groupBy) || !!plan.extraMeasures?.length);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Aggregate over two categories (groupBy x seriesBy), keeping the largest groups and series
+ */
+function seriesBreakdown(rows: any[], plan: QueryPlan): { names: string[]; series: string[]; cells: any[] } {
+  const { rows: grouped, groupKey } = withGroupKey(rows, plan);
+  const separator = '\u0000';
+  const cells = aggregateData(
+    grouped.map(row => ({ ...row, __cell: `${row[groupKey] || 'Unknown'}${separator}${row[plan.seriesBy!] || 'Unknown'}` })),
+    { groupBy: '__cell', aggregateBy: plan.measure || '', operation: plan.operation, limit: Infinity }
+  ).map(cell => {
+    const [name, series] = cell.name.split(separator);
+    return { name: name!, series: series!, value: cell.value };
+  });
+
+  const totals = (key: 'name' | 'series') => {
+    const sums = new Map<string, number>();
+    cells.forEach(cell => sums.set(cell[key], (sums.get(cell[key]) || 0) + cell.value));
+    return sums;
+  };
+  const nameTotals = totals('name');
+  const seriesTotals = totals('series');
+
+  // Periods stay in time order; categories follow the plan's sort, largest total first by default
+  const sort = plan.sort || (plan.timeBucket
+    ? { by: 'name' as const, direction: 'asc' as const }
+    : { by: 'value' as const, direction: 'desc' as const });
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  const names = [...nameTotals.keys()]
+    .sort((a, b) => sort.by === 'name'
+      ? direction * a.localeCompare(b, undefined, { numeric: true })
+      : direction * (nameTotals.get(a)! - nameTotals.get(b)!))
+    .slice(0, plan.limit || (plan.timeBucket ? TIME_BUCKET_LIMIT : DEFAULT_LIMIT));
+  const series = [...seriesTotals.keys()]
+    .sort((a, b) => seriesTotals.get(b)! - seriesTotals.get(a)!)
+    .slice(0, plan.chartType === 'heatmap' ? HEATMAP_SERIES_LIMIT : SERIES_LIMIT);
+
+  const nameOrder = new Map(names.map((name, i) => [name, i]));
+  const seriesOrder = new Map(series.map((name, i) => [name, i]));
+  return {
+    names,
+    series,
+    cells: cells
+      .filter(cell => nameOrder.has(cell.name) && seriesOrder.has(cell.series))
+      .sort((a, b) => nameOrder.get(a.name)! - nameOrder.get(b.name)! || seriesOrder.get(a.series)! - seriesOrder.get(b.series)!),
+  };
+}
+
+/**
+ * Describe the series of a chart, keyed by name unless that clashes with the category field or another series
+ */
+function describeSeries(names: string[], axes: Array<ChartSeries['axis']> = []): ChartSeries[] {
+  const used = new Set(['name']);
+  return names.map((name, i) => {
+    let key = name || 'Unknown';
+    for (let n = 2; used.has(key); n++) key = `${name} (${n})`;
+    used.add(key);
+    return { key, name: name || 'Unknown', color: SERIES_COLORS[i % SERIES_COLORS.length]!, axis: axes[i] || 'left' };
+  });
+}
+
+/**
+ * One series per value of seriesBy: one row per group with a value per series
+ */
+function seriesByCategory(rows: any[], plan: QueryPlan): { data: any[]; series: ChartSeries[] } {
+  const { names, series: seriesNames, cells } = seriesBreakdown(rows, plan);
+  const series = describeSeries(seriesNames);
+  const keys = new Map(seriesNames.map((name, i) => [name, series[i]!.key]));
+  const data = new Map<string, Record<string, string | number>>(names.map(name => [name, { name }]));
+  cells.forEach(cell => {
+    data.get(cell.name)![keys.get(cell.series)!] = cell.value;
+  });
+  return { data: [...data.values()], series };
+}
+
+/**
+ * The main measure plus one series per extra measure, over the groups of the main measure
+ */
+function seriesByMeasure(
+  rows: any[],
+  groupKey: string,
+  plan: QueryPlan,
+  primary: AggregatedResult[]
+): { data: any[]; series: ChartSeries[] } {
+  const measures: PlanMeasure[] = [{ column: plan.measure || '', operation: plan.operation }, ...plan.extraMeasures!];
+  const labels = measures.map(m => (m.operation === 'count' ? 'count' : m.column));
+  // The same column twice (e.g. sum and avg of Sales) is told apart by its operation
+  const names = measures.map((m, i) => (labels.indexOf(labels[i]!) !== labels.lastIndexOf(labels[i]!) ? `${m.operation}(${m.column})` : labels[i]!));
+
+  const values = measures.map((m, i) => (i === 0
+    ? new Map(primary.map(p => [p.name, p.value]))
+    : new Map(aggregateData(rows, { groupBy: groupKey, aggregateBy: m.column, operation: m.operation, limit: Infinity })
+      .map(p => [p.name, p.value]))));
+
+  // Without an axis in the plan, a measure on a very different scale goes on the right
+  const largest = (map: Map<string, number>) => Math.max(0, ...[...map.values()].map(Math.abs));
+  const primaryLargest = largest(values[0]!);
+  const axes = measures.map((m, i): ChartSeries['axis'] => {
+    if (i === 0) return 'left';
+    if (m.axis) return m.axis;
+    const ratio = primaryLargest === 0 ? 1 : largest(values[i]!) / primaryLargest;
+    return ratio >= SECONDARY_AXIS_RATIO || ratio <= 1 / SECONDARY_AXIS_RATIO ? 'right' : 'left';
+  });
+
+  const series = describeSeries(names, axes);
+  const data = primary.map(point => {
+    const row: Record<string, string | number> = { name: point.name };
+    series.forEach((s, i) => {
+      const value = values[i]!.get(point.name);
+      if (value !== undefined) row[s.key] = value;
+    });
+    return row;
+  });
+  return { data, series };
+}
+
+/**
+ * Execute a query plan over the full set of rows
+ */
+export function executeQueryPlan(rows: any[], plan: QueryPlan): QueryResult {
+  const filtered = applyFilters(rows, plan.filters);
+  const result = {
+    rowsScanned: rows.length,
+    rowsMatched: filtered.length,
+  };
+
+  // Scatter plots use raw (x, y) pairs, sampled evenly across the filtered rows
+  if (plan.chartType === 'scatter') {
+    if (!plan.xColumn || !plan.measure) {
+      return { ...result, data: [] };
+    }
+    const points = filtered
+      .map(row => ({
+        x: parseNumeric(row[plan.xColumn!]),
+        y: parseNumeric(row[plan.measure!]),
+        name: plan.groupBy ? String(row[plan.groupBy] ?? '') : undefined,
+      }))
+      .filter(p => !isNaN(p.x) && !isNaN(p.y));
+    const limit = plan.limit || DEFAULT_SCATTER_LIMIT;
+    const step = Math.max(1, Math.ceil(points.length / limit));
+    return { ...result, data: points.filter((_, i) => i % step === 0).slice(0, limit) };
+  }
+
+  if (plan.chartType === 'histogram') {
+    return { ...result, data: plan.measure ? histogram(filtered, plan) : [] };
+  }
+
+  if (plan.chartType === 'boxplot') {
+    return { ...result, data: plan.measure ? boxplot(filtered, plan) : [] };
+  }
+
+  if (plan.chartType === 'heatmap') {
+    return { ...result, data: plan.groupBy && plan.seriesBy ? seriesBreakdown(filtered, plan).cells : [] };
+  }
+
+  if (plan.groupBy && plan.seriesBy && SERIES_CHARTS.includes(plan.chartType)) {
+    return { ...result, ...seriesByCategory(filtered, plan) };
+  }
+
+  if (!plan.groupBy) {
+    // No grouping - a single total
+    const totalRows = filtered.map(row => ({ ...row, __all: 'Total' }));
+    const [total] = aggregateData(
+      totalRows,
+      { groupBy: '__all', aggregateBy: plan.measure || '', operation: plan.operation, limit: 1 }
+    );
+    const data = total ? [total] : [];
+    if (plan.extraMeasures?.length && SERIES_CHARTS.includes(plan.chartType)) {
+      return { ...result, ...seriesByMeasure(totalRows, '__all', plan, data) };
+    }
+    return { ...result, data };
+  }
+
+  // Time bucketing rewrites the group key into a sortable period label
+  const { rows: groupedRows, groupKey } = withGroupKey(filtered, plan);
+
+  // Time series default to chronological order and keep every period
+  const sort = plan.sort || (plan.timeBucket
+    ? { by: 'name' as const, direction: 'asc' as const }
+    : { by: 'value' as const, direction: 'desc' as const });
+  const limit = plan.limit || (plan.timeBucket ? TIME_BUCKET_LIMIT : DEFAULT_LIMIT);
+
+  const data: AggregatedResult[] = aggregateData(groupedRows, {
+    groupBy: groupKey,
+    aggregateBy: plan.measure || '',
+    operation: plan.operation,
+    limit,
+    sortBy: sort.by,
+    sortDirection: sort.direction,
+  });
+
+  if (plan.extraMeasures?.length && SERIES_CHARTS.includes(plan.chartType)) {
+    return { ...result, ...seriesByMeasure(groupedRows, groupKey, plan, data) };
+  }
+  return { ...result, data };
+}
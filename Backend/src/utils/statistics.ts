@@ -0,0 +1,400 @@
+import type { InsightStatistic } from '../langgraph/state.js';
+import { detectDateColumns, detectNumericColumns, isIdentifierColumn, parseNumeric } from './dataAggregation.js';
+
+/**
+ * Statistics utilities - correlations, linear trends, outliers and skew computed on every row,
+ * so insights quote measured numbers and a confidence derived from their significance
+ */
+
+export interface StatisticalFinding {
+  type: 'trend' | 'anomaly' | 'correlation' | 'summary';
+  // One-line plain description with the exact numbers, used as fallback prose
+  description: string;
+  statistic: InsightStatistic;
+  // 1 - p-value of the underlying test, so 0.95 means significant at the 5% level
+  confidence: number;
+}
+
+// Findings weaker than this are not reported
+const SIGNIFICANCE_LEVEL = 0.05;
+const MIN_SAMPLE_SIZE = 8;
+const MIN_CORRELATION = 0.3;
+const MIN_SKEWNESS = 0.5;
+// Keeps the pairwise correlation count bounded on wide datasets
+const MAX_NUMERIC_COLUMNS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+function standardDeviation(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
+
+// Lanczos approximation of ln Γ(x)
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) {
+    series += c / ++y;
+  }
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+// Continued fraction for the incomplete beta function (Numerical Recipes betacf)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    for (const aa of [
+      (m * (b - m) * x) / ((a + m2 - 1) * (a + m2)),
+      (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1)),
+    ]) {
+      d = 1 + aa * d;
+      d = 1 / (Math.abs(d) < tiny ? tiny : d);
+      c = 1 + aa / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-10) break;
+  }
+  return h;
+}
+
+// Regularized incomplete beta function I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Two-sided p-value of a Student's t statistic
+ */
+export function tTestPValue(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+/**
+ * Two-sided p-value of a standard normal z score
+ */
+export function zTestPValue(z: number): number {
+  // Abramowitz & Stegun 7.1.26 approximation of erfc(|z| / √2)
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return Math.min(1, poly * Math.exp(-x * x));
+}
+
+/**
+ * Pearson correlation of paired values, with the p-value of r ≠ 0
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): { r: number; pValue: number; n: number } | null {
+  const n = xs.length;
+  if (n < 3) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i]! - mx;
+    const dy = ys[i]! - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  if (sxx === 0 || syy === 0) return null;
+
+  const r = Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+  const t = r * Math.sqrt((n - 2) / Math.max(1 - r * r, 1e-12));
+  return { r, pValue: tTestPValue(t, n - 2), n };
+}
+
+/**
+ * Least-squares line y = intercept + slope·x, with R² and the p-value of slope ≠ 0
+ */
+export function linearRegression(xs: number[], ys: number[]): { slope: number; intercept: number; rSquared: number; pValue: number; n: number } | null {
+  const n = xs.length;
+  if (n < 3) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i]! - mx) * (ys[i]! - my);
+    sxx += (xs[i]! - mx) ** 2;
+    syy += (ys[i]! - my) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = my - slope * mx;
+  const residual = Math.max(syy - slope * sxy, 0);
+  const rSquared = syy === 0 ? 1 : 1 - residual / syy;
+  const standardError = Math.sqrt(residual / (n - 2) / sxx);
+  const pValue = standardError === 0 ? 0 : tTestPValue(slope / standardError, n - 2);
+  return { slope, intercept, rSquared, pValue, n };
+}
+
+/**
+ * Values outside the 1.5×IQR fences, most extreme first, with their z-scores
+ */
+export function detectOutliers(values: number[]): Array<{ value: number; zScore: number }> {
+  if (values.length < 4) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  const m = mean(values);
+  const sd = standardDeviation(values);
+  if (sd === 0) return [];
+
+  return values
+    .filter(v => v < q1 - fence || v > q3 + fence)
+    .map(value => ({ value, zScore: (value - m) / sd }))
+    .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+}
+
+/**
+ * Adjusted Fisher-Pearson skewness G1, with the p-value of a z test against a symmetric distribution
+ */
+export function skewness(values: number[]): { skewness: number; pValue: number; n: number } | null {
+  const n = values.length;
+  if (n < 3) return null;
+  const m = mean(values);
+  const m2 = values.reduce((sum, v) => sum + (v - m) ** 2, 0) / n;
+  if (m2 === 0) return null;
+  const m3 = values.reduce((sum, v) => sum + (v - m) ** 3, 0) / n;
+
+  const g1 = (Math.sqrt(n * (n - 1)) / (n - 2)) * (m3 / m2 ** 1.5);
+  const standardError = Math.sqrt((6 * n * (n - 1)) / ((n - 2) * (n + 1) * (n + 3)));
+  return { skewness: g1, pValue: zTestPValue(g1 / standardError), n };
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 100 ? Math.round(value).toLocaleString('en-US') : String(round(value, 2));
+}
+
+function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? 'p < 0.001' : `p = ${round(pValue, 3)}`;
+}
+
+const toConfidence = (pValue: number) => round(Math.min(0.999, Math.max(0, 1 - pValue)), 3);
+
+function numericValues(rows: any[], column: string): number[] {
+  return rows.map(row => parseNumeric(row[column])).filter(Number.isFinite);
+}
+
+function correlationFindings(rows: any[], numericColumns: string[]): StatisticalFinding[] {
+  const tested: Array<{ columns: [string, string]; result: NonNullable<ReturnType<typeof pearsonCorrelation>> }> = [];
+  for (let i = 0; i < numericColumns.length; i++) {
+    for (let j = i + 1; j < numericColumns.length; j++) {
+      const [a, b] = [numericColumns[i]!, numericColumns[j]!];
+      const xs: number[] = [];
+      const ys: number[] = [];
+      for (const row of rows) {
+        const x = parseNumeric(row[a]);
+        const y = parseNumeric(row[b]);
+        if (Number.isFinite(x) && Number.isFinite(y)) {
+          xs.push(x);
+          ys.push(y);
+        }
+      }
+      if (xs.length < MIN_SAMPLE_SIZE) continue;
+
+      const result = pearsonCorrelation(xs, ys);
+      if (result) tested.push({ columns: [a, b], result });
+    }
+  }
+
+  const findings: StatisticalFinding[] = [];
+  for (const { columns: [a, b], result } of tested) {
+    // Bonferroni-adjusted: among many pairs a few correlate by chance
+    const pValue = Math.min(1, result.pValue * tested.length);
+    if (Math.abs(result.r) < MIN_CORRELATION || pValue >= SIGNIFICANCE_LEVEL) continue;
+
+    const strength = Math.abs(result.r) >= 0.7 ? 'strong' : 'moderate';
+    const direction = result.r > 0 ? 'positive' : 'negative';
+    findings.push({
+      type: 'correlation',
+      description: `${a} and ${b} have a ${strength} ${direction} correlation (r = ${round(result.r)}, ${formatPValue(pValue)}, n = ${result.n}).`,
+      statistic: {
+        test: 'pearson_correlation',
+        columns: [a, b],
+        value: round(result.r, 3),
+        pValue,
+        sampleSize: result.n,
+        label: `r = ${round(result.r)}, ${formatPValue(pValue)}, n = ${result.n}`,
+      },
+      confidence: toConfidence(pValue),
+    });
+  }
+  return findings;
+}
+
+function trendFindings(rows: any[], numericColumns: string[], dateColumn: string): StatisticalFinding[] {
+  const tested: Array<{ column: string; xs: number[]; result: NonNullable<ReturnType<typeof linearRegression>> }> = [];
+  for (const column of numericColumns) {
+    // Total per date, so several records on one day count as one point of the series
+    const totals = new Map<number, number>();
+    for (const row of rows) {
+      const time = new Date(row[dateColumn]).getTime();
+      const value = parseNumeric(row[column]);
+      if (Number.isFinite(time) && Number.isFinite(value)) {
+        totals.set(time, (totals.get(time) || 0) + value);
+      }
+    }
+    if (totals.size < MIN_SAMPLE_SIZE) continue;
+
+    const points = [...totals.entries()].sort((a, b) => a[0] - b[0]);
+    const start = points[0]![0];
+    const xs = points.map(([time]) => (time - start) / DAY_MS);
+    const ys = points.map(([, value]) => value);
+    const result = linearRegression(xs, ys);
+    if (result) tested.push({ column, xs, result });
+  }
+
+  const findings: StatisticalFinding[] = [];
+  for (const { column, xs, result } of tested) {
+    // Bonferroni-adjusted across the columns tested, like the correlations
+    const pValue = Math.min(1, result.pValue * tested.length);
+    if (pValue >= SIGNIFICANCE_LEVEL) continue;
+
+    const spanDays = xs[xs.length - 1]!;
+    const fitStart = result.intercept;
+    const fitEnd = result.intercept + result.slope * spanDays;
+    const change = fitStart !== 0 ? ((fitEnd - fitStart) / Math.abs(fitStart)) * 100 : null;
+    const direction = result.slope > 0 ? 'increases' : 'decreases';
+    findings.push({
+      type: 'trend',
+      description: `${column} ${direction} over ${dateColumn} by ${formatNumber(Math.abs(result.slope) * 30)} per 30 days`
+        + `${change !== null ? `, ${change > 0 ? '+' : ''}${round(change, 1)}% across the period on the fitted line` : ''}`
+        + ` (${formatPValue(pValue)}, R² = ${round(result.rSquared)}, n = ${result.n} dates).`,
+      statistic: {
+        test: 'linear_trend',
+        columns: [column, dateColumn],
+        value: round(result.slope, 4),
+        pValue,
+        sampleSize: result.n,
+        label: `slope = ${formatNumber(result.slope)}/day, ${formatPValue(pValue)}, R² = ${round(result.rSquared)}`,
+      },
+      confidence: toConfidence(pValue),
+    });
+  }
+  return findings;
+}
+
+function outlierFindings(rows: any[], numericColumns: string[]): StatisticalFinding[] {
+  const findings: StatisticalFinding[] = [];
+  for (const column of numericColumns) {
+    const values = numericValues(rows, column);
+    if (values.length < MIN_SAMPLE_SIZE) continue;
+
+    const outliers = detectOutliers(values);
+    const extreme = outliers[0];
+    if (!extreme) continue;
+
+    // Bonferroni-adjusted: the most extreme of n values is expected to look unusual by chance
+    const pValue = Math.min(1, zTestPValue(extreme.zScore) * values.length);
+    if (pValue >= SIGNIFICANCE_LEVEL) continue;
+
+    findings.push({
+      type: 'anomaly',
+      description: `${outliers.length} ${column} value${outliers.length === 1 ? ' lies' : 's lie'} outside the 1.5×IQR range; `
+        + `the most extreme is ${formatNumber(extreme.value)} (z = ${round(extreme.zScore)}, n = ${values.length}).`,
+      statistic: {
+        test: 'outlier_zscore',
+        columns: [column],
+        value: round(extreme.zScore, 3),
+        pValue,
+        sampleSize: values.length,
+        label: `${outliers.length} outlier${outliers.length === 1 ? '' : 's'}, max z = ${round(extreme.zScore)}`,
+      },
+      confidence: toConfidence(pValue),
+    });
+  }
+  return findings;
+}
+
+function distributionFindings(rows: any[], numericColumns: string[]): StatisticalFinding[] {
+  const findings: StatisticalFinding[] = [];
+  for (const column of numericColumns) {
+    const values = numericValues(rows, column);
+    if (values.length < MIN_SAMPLE_SIZE) continue;
+
+    const result = skewness(values);
+    if (!result || Math.abs(result.skewness) < MIN_SKEWNESS || result.pValue >= SIGNIFICANCE_LEVEL) continue;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const direction = result.skewness > 0 ? 'right' : 'left';
+    findings.push({
+      type: 'summary',
+      description: `${column} is ${direction}-skewed (skewness = ${round(result.skewness)}, ${formatPValue(result.pValue)}): `
+        + `the mean ${formatNumber(mean(values))} is ${result.skewness > 0 ? 'above' : 'below'} the median ${formatNumber(quantile(sorted, 0.5))}.`,
+      statistic: {
+        test: 'skewness',
+        columns: [column],
+        value: round(result.skewness, 3),
+        pValue: result.pValue,
+        sampleSize: result.n,
+        label: `skewness = ${round(result.skewness)}, ${formatPValue(result.pValue)}, n = ${result.n}`,
+      },
+      confidence: toConfidence(result.pValue),
+    });
+  }
+  return findings;
+}
+
+/**
+ * Significant statistical findings of a dataset, strongest first.
+ * The best finding of each kind is listed before the rest so one kind does not crowd out the others.
+ */
+export function computeStatisticalFindings(rows: any[], columns: string[], limit = 6): StatisticalFinding[] {
+  if (rows.length < MIN_SAMPLE_SIZE) {
+    return [];
+  }
+
+  const dateColumns = detectDateColumns(rows, columns);
+  // Identifiers (row numbers, postal codes) trend and correlate without meaning anything
+  const numericColumns = detectNumericColumns(rows, columns)
+    .filter(column => !dateColumns.includes(column) && !isIdentifierColumn(rows, column))
+    .slice(0, MAX_NUMERIC_COLUMNS);
+  const dateColumn = dateColumns[0];
+
+  const byStrength = (a: StatisticalFinding, b: StatisticalFinding) =>
+    b.confidence - a.confidence || (a.statistic.pValue ?? 1) - (b.statistic.pValue ?? 1);
+  const groups = [
+    dateColumn ? trendFindings(rows, numericColumns, dateColumn) : [],
+    correlationFindings(rows, numericColumns),
+    outlierFindings(rows, numericColumns),
+    distributionFindings(rows, numericColumns),
+  ].map(group => group.sort(byStrength));
+
+  const leaders = groups.flatMap(group => group.slice(0, 1)).sort(byStrength);
+  const rest = groups.flatMap(group => group.slice(1)).sort(byStrength);
+  return [...leaders, ...rest].slice(0, limit);
+}
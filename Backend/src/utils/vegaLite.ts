@@ -0,0 +1,269 @@
+/**
+ * Vega-Lite specs for computed charts. The spec embeds the chart's data, so clients can render
+ * it as is; specs that do not compile are dropped and the client falls back to its own charts.
+ */
+
+import { compile, type TopLevelSpec } from 'vega-lite';
+import type { Visualization } from '../langgraph/state.js';
+
+const SCHEMA = 'https://vega.github.io/schema/vega-lite/v6.json';
+const HEIGHT = 260;
+
+type Encoding = Record<string, any>;
+// The chart part of a spec; the whole spec is checked by compiling it
+type ChartSpec = Record<string, unknown>;
+
+// Vega-Lite reads dots and brackets in field names as nested access
+function fieldRef(key: string): string {
+  return key.replace(/[.[\]\\]/g, '\\$&');
+}
+
+function categoryAxis(visualization: Visualization): Encoding {
+  // Keep the order the query plan produced (sorted values, or periods in time order)
+  return { field: 'name', type: 'ordinal', title: visualization.xAxis || null, sort: null };
+}
+
+function valueAxis(visualization: Visualization, field = 'value'): Encoding {
+  return { field, type: 'quantitative', title: visualization.yAxis || null };
+}
+
+/**
+ * History and forecast as one layered chart: the actual line, the dashed forecast and its interval band
+ */
+function forecastSpec(visualization: Visualization): ChartSpec {
+  const forecast = visualization.forecast!;
+  const history = visualization.data.map(d => ({ name: d.name, value: d.value, series: 'Actual' }));
+  const last = history[history.length - 1];
+  // The forecast line starts at the last actual period so the two connect
+  const projected = [
+    ...(last ? [{ name: last.name, value: last.value, lower: last.value, upper: last.value, series: 'Forecast' }] : []),
+    ...forecast.points.map(p => ({ ...p, series: 'Forecast' })),
+  ];
+  const x = categoryAxis(visualization);
+
+  return {
+    data: { values: [...history, ...projected] },
+    layer: [
+      {
+        transform: [{ filter: "datum.series === 'Forecast'" }],
+        mark: { type: 'area', opacity: 0.15 },
+        encoding: {
+          x,
+          y: { ...valueAxis(visualization, 'lower') },
+          y2: { field: 'upper' },
+          tooltip: [
+            { field: 'name', title: visualization.xAxis || 'Period' },
+            { field: 'lower', title: `${Math.round(forecast.interval * 100)}% lower`, format: ',.2f' },
+            { field: 'upper', title: `${Math.round(forecast.interval * 100)}% upper`, format: ',.2f' },
+          ],
+        },
+      },
+      {
+        mark: { type: 'line', point: true, tooltip: true },
+        encoding: {
+          x,
+          y: valueAxis(visualization),
+          color: { field: 'series', type: 'nominal', title: null },
+          strokeDash: { field: 'series', type: 'nominal', legend: null },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Lines, areas or bars for each series of a multi-series chart. The wide rows are folded into
+ * one row per series and value; series on the right axis get a layer with their own y scale.
+ */
+function seriesSpec(visualization: Visualization): ChartSpec {
+  const series = visualization.series!;
+  const bars = ['bar', 'stacked_bar', 'grouped_bar'].includes(visualization.type);
+  const x = categoryAxis(visualization);
+  // Colours come from the series so every renderer draws them the same
+  const color = {
+    field: 'series',
+    type: 'nominal',
+    title: visualization.queryPlan?.seriesBy || null,
+    sort: series.map(s => s.key),
+    scale: { domain: series.map(s => s.key), range: series.map(s => s.color) },
+  };
+
+  const layer = (axis: 'left' | 'right') => {
+    const onAxis = series.filter(s => s.axis === axis);
+    // Bar charts draw their right-axis series as lines over the bars
+    const mark = axis === 'right' && bars ? 'line'
+      : bars ? 'bar'
+      : visualization.type === 'area' ? 'area'
+      : 'line';
+    const stacked = visualization.type === 'stacked_bar' && mark === 'bar';
+    return {
+      transform: [{ fold: onAxis.map(s => fieldRef(s.key)), as: ['series', 'value'] }],
+      mark: mark === 'line' ? { type: 'line', point: true, tooltip: true }
+        : mark === 'area' ? { type: 'area', line: true, opacity: 0.3, tooltip: true }
+        : { type: 'bar', tooltip: true },
+      encoding: {
+        x,
+        y: {
+          field: 'value',
+          type: 'quantitative',
+          title: onAxis.map(s => s.name).join(', ') || null,
+          stack: stacked ? 'zero' : null,
+          ...(axis === 'right' ? { axis: { orient: 'right' } } : {}),
+        },
+        color,
+        // Grouped bars sit side by side within their category
+        ...(mark === 'bar' && !stacked ? { xOffset: { field: 'series', sort: series.map(s => s.key) } } : {}),
+      },
+    };
+  };
+
+  const data = { values: visualization.data };
+  if (!series.some(s => s.axis === 'right')) {
+    return { data, ...layer('left') };
+  }
+  return {
+    data,
+    layer: [layer('left'), layer('right')],
+    resolve: { scale: { y: 'independent' } },
+  };
+}
+
+function chartSpec(visualization: Visualization): ChartSpec | null {
+  const data = { values: visualization.data };
+  if (visualization.series?.length) {
+    return seriesSpec(visualization);
+  }
+
+  switch (visualization.type) {
+    case 'bar':
+      return {
+        data,
+        // Hovering a bar highlights it
+        params: [{ name: 'highlight', select: { type: 'point', on: 'pointerover', clear: 'pointerout' } }],
+        mark: { type: 'bar', tooltip: true },
+        encoding: {
+          x: categoryAxis(visualization),
+          y: valueAxis(visualization),
+          fillOpacity: { condition: { param: 'highlight', empty: true, value: 1 }, value: 0.5 },
+        },
+      };
+    case 'heatmap':
+      return {
+        data,
+        mark: { type: 'rect', tooltip: true },
+        encoding: {
+          x: categoryAxis(visualization),
+          y: { field: 'series', type: 'ordinal', title: visualization.queryPlan?.seriesBy || null, sort: null },
+          color: { field: 'value', type: 'quantitative', title: visualization.yAxis || null },
+        },
+      };
+    case 'histogram':
+      return {
+        data,
+        mark: { type: 'bar', tooltip: true },
+        encoding: {
+          // The bins are computed on the server, so the spec only draws them
+          x: { field: 'start', type: 'quantitative', bin: 'binned', title: visualization.xAxis || null },
+          x2: { field: 'end' },
+          y: { field: 'value', type: 'quantitative', title: 'count' },
+        },
+      };
+    case 'boxplot': {
+      const x = categoryAxis(visualization);
+      const tooltip = ['min', 'q1', 'median', 'q3', 'max'].map(field => ({ field, type: 'quantitative', format: ',.2f' }));
+      return {
+        data,
+        // Box plot from the five-number summaries: whiskers, box and median tick
+        layer: [
+          {
+            mark: { type: 'rule' },
+            encoding: { x, y: { ...valueAxis(visualization, 'min'), scale: { zero: false } }, y2: { field: 'max' } },
+          },
+          {
+            mark: { type: 'bar', size: 24 },
+            encoding: { x, y: { field: 'q1', type: 'quantitative' }, y2: { field: 'q3' }, tooltip: [{ field: 'name' }, ...tooltip] },
+          },
+          {
+            mark: { type: 'tick', color: 'white', size: 24 },
+            encoding: { x, y: { field: 'median', type: 'quantitative' } },
+          },
+        ],
+      };
+    }
+    case 'area':
+      return {
+        data,
+        mark: { type: 'area', line: true, opacity: 0.4, tooltip: true },
+        encoding: {
+          x: categoryAxis(visualization),
+          y: valueAxis(visualization),
+        },
+      };
+    case 'line':
+      if (visualization.forecast) return forecastSpec(visualization);
+      return {
+        data,
+        mark: { type: 'line', point: true, tooltip: true },
+        encoding: {
+          x: categoryAxis(visualization),
+          y: valueAxis(visualization),
+        },
+      };
+    case 'pie':
+      return {
+        data,
+        mark: { type: 'arc', tooltip: true },
+        encoding: {
+          theta: { field: 'value', type: 'quantitative', stack: true },
+          color: { field: 'name', type: 'nominal', title: visualization.xAxis || null, sort: null },
+        },
+      };
+    case 'scatter': {
+      const grouped = visualization.data.some(d => d.name !== undefined && d.name !== '');
+      return {
+        data,
+        // Drag to pan, scroll to zoom
+        params: [{ name: 'zoom', select: 'interval', bind: 'scales' }],
+        mark: { type: 'point', tooltip: true },
+        encoding: {
+          x: { field: 'x', type: 'quantitative', title: visualization.xAxis || null },
+          y: { field: 'y', type: 'quantitative', title: visualization.queryPlan?.measure || null },
+          ...(grouped ? { color: { field: 'name', type: 'nominal', title: visualization.queryPlan?.groupBy || null } } : {}),
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Vega-Lite spec bound to the chart's computed data, or null when the chart has no data,
+ * has no Vega-Lite equivalent or the spec does not compile
+ */
+export function buildVegaLiteSpec(visualization: Visualization): TopLevelSpec | null {
+  if (!visualization.data || visualization.data.length === 0) {
+    return null;
+  }
+  const chart = chartSpec(visualization);
+  if (!chart) {
+    return null;
+  }
+
+  const spec = {
+    $schema: SCHEMA,
+    ...(visualization.title ? { title: visualization.title } : {}),
+    ...(visualization.description ? { description: visualization.description } : {}),
+    width: 'container',
+    height: HEIGHT,
+    ...chart,
+  } as unknown as TopLevelSpec;
+
+  try {
+    compile(spec);
+    return spec;
+  } catch (error) {
+    console.error('⚠️  Vega-Lite spec did not compile, sending the chart without it:', (error as Error).message);
+    return null;
+  }
+}
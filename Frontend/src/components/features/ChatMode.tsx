@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, Mic, Paperclip, Sparkles, TrendingUp, Download, Pin, Loader2, AlertCircle, ExternalLink, BarChart3 } from 'lucide-react';
+import { Send, Mic, Paperclip, Sparkles, TrendingUp, Download, Pin, Loader2, AlertCircle, ExternalLink, BarChart3, Square, Activity, Layers, ChevronLeft, ChevronRight } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import ReactMarkdown from 'react-markdown';
 import { Button } from '@/components/ui/button';
@@ -8,25 +8,89 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { useChat } from '@/contexts/ChatContext';
+import { useChat, type ChatMessage, type Citation, type Visualization } from '@/contexts/ChatContext';
 import { useCanvas } from '@/contexts/CanvasContext';
 import { useTableau } from '@/contexts/TableauContext';
+import { Checkbox } from '@/components/ui/checkbox';
 import { TableauViz } from './TableauViz';
+import { VisualizationConfirmCard } from './VisualizationConfirmCard';
+import { RunTracePanel } from './RunTracePanel';
+import { ClaimCheck } from './ClaimCheck';
+import { SqlQueryPanel } from './SqlQueryPanel';
+import { VegaLiteChart } from './VegaLiteChart';
+import { SeriesChart } from './SeriesChart';
+import { DatasetScopePicker } from './DatasetScopePicker';
+import { chartRenderer, RECHARTS_TYPES } from '@/lib/charts';
+import { CitationMark, CitationSources, DatasetPreviewDialog } from './Citations';
 import {
   LineChart, Line, BarChart, Bar, PieChart, Pie, Cell,
   ScatterChart, Scatter, XAxis, YAxis, CartesianGrid,
-  Tooltip, ResponsiveContainer, Legend
+  Tooltip, ResponsiveContainer, Legend, ComposedChart, Area, AreaChart
 } from 'recharts';
 
 // Colors for charts
 const COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#06b6d4', '#6366f1'];
 
+const FORECAST_MODEL_NAMES: Record<NonNullable<Visualization['forecast']>['model'], string> = {
+  holt_winters: 'Holt-Winters',
+  seasonal_naive: 'seasonal naive',
+  linear: 'linear trend',
+};
+
+/**
+ * Turn the [n] markers of an answer into #cite-n links, rendered as footnotes
+ */
+function linkCitations(content: string, citations?: Citation[]) {
+  if (!citations || citations.length === 0) return content;
+  const ids = new Set(citations.map((c) => c.id));
+  return content.replace(/\[(\d+)\]/g, (marker, id: string) => (ids.has(Number(id)) ? `[${id}](#cite-${id})` : marker));
+}
+
+/**
+ * Charts of an answer in ranked order; answers from before multi-chart responses carry only one
+ */
+function messageCharts(message: ChatMessage): Visualization[] {
+  if (message.visualizations?.length) return message.visualizations;
+  return message.visualization ? [message.visualization] : [];
+}
+
+/**
+ * Short name of a chart for "try as" options, naming its x-axis when it differs from the original chart
+ */
+function chartLabel(chart: Visualization, original: Visualization) {
+  const type = chart.type.replace('_', ' ');
+  return chart.xAxis && chart.xAxis !== original.xAxis ? `${type} by ${chart.xAxis}` : type;
+}
+
+/**
+ * History and forecast on one x-axis; the forecast starts at the last actual value so the lines join
+ */
+function withForecast({ data, forecast }: Visualization) {
+  if (!forecast) return data;
+  const last = data[data.length - 1];
+  return [
+    ...data.map((d) => (d === last ? { ...d, forecast: d.value, band: [d.value, d.value] } : d)),
+    ...forecast.points.map((p) => ({ name: p.name, forecast: p.value, band: [p.lower, p.upper] })),
+  ];
+}
+
 export function ChatMode() {
-  const { messages, sendMessage, isLoading, error, clearError, agentProgress } = useChat();
+  const {
+    messages, sendMessage, cancelMessage, isLoading, error, clearError, agentProgress,
+    confirmVisualization, confirmBeforeVisualization, setConfirmBeforeVisualization,
+  } = useChat();
   const { addPinnedVisualization } = useCanvas();
   const { isAuthenticated: tableauAuthenticated, connect: connectTableau } = useTableau();
   const [input, setInput] = useState('');
   const [pinnedMessageId, setPinnedMessageId] = useState<string | null>(null);
+  const [tracedMessageIdx, setTracedMessageIdx] = useState<number | null>(null);
+  const [previewCitation, setPreviewCitation] = useState<Citation | null>(null);
+  // Charts (message index-chart index) shown from their Vega-Lite spec
+  const [vegaViews, setVegaViews] = useState<Set<string>>(new Set());
+  // Chart shown by each message with several charts
+  const [activeCharts, setActiveCharts] = useState<Record<number, number>>({});
+  // Alternative shown instead of a chart (message index-chart index), picked from its "try as" options
+  const [triedAlternatives, setTriedAlternatives] = useState<Record<string, number>>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -49,13 +113,42 @@ export function ChatMode() {
     setInput(suggestion);
   };
 
-  const handlePinVisualization = (messageIndex: number) => {
-    const message = messages[messageIndex];
-    if (message.visualization) {
-      addPinnedVisualization(message.visualization, `msg-${messageIndex}`);
-      // Show visual feedback
-      setPinnedMessageId(`msg-${messageIndex}`);
-      setTimeout(() => setPinnedMessageId(null), 2000);
+  const handlePinVisualization = (visualization: Visualization, chartKey: string) => {
+    addPinnedVisualization(visualization, `msg-${chartKey}`, vegaViews.has(chartKey) ? 'vega' : 'recharts');
+    // Show visual feedback
+    setPinnedMessageId(`msg-${chartKey}`);
+    setTimeout(() => setPinnedMessageId(null), 2000);
+  };
+
+  const toggleVegaView = (chartKey: string) => {
+    setVegaViews((prev) => {
+      const next = new Set(prev);
+      if (next.has(chartKey)) next.delete(chartKey);
+      else next.add(chartKey);
+      return next;
+    });
+  };
+
+  const showChart = (messageIndex: number, chartIndex: number) => {
+    setActiveCharts((prev) => ({ ...prev, [messageIndex]: chartIndex }));
+  };
+
+  // -1 goes back to the chart that was drawn for the question
+  const tryAlternative = (chartKey: string, alternativeIndex: number) => {
+    setTriedAlternatives((prev) => ({ ...prev, [chartKey]: alternativeIndex }));
+  };
+
+  // Datasets open in a preview, Tableau views scroll to their embed in the answer, web sources open in a new tab
+  const openCitation = (citation: Citation, messageIndex: number) => {
+    if (citation.kind === 'dataset') {
+      setPreviewCitation(citation);
+      return;
+    }
+    const embed = citation.viewId && document.getElementById(`tableau-view-${messageIndex}-${citation.viewId}`);
+    if (embed) {
+      embed.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else if (citation.url) {
+      window.open(citation.url, '_blank', 'noopener,noreferrer');
     }
   };
 
@@ -70,6 +163,8 @@ export function ChatMode() {
 
   return (
     <div className="flex flex-col h-full">
+      <DatasetPreviewDialog citation={previewCitation} onClose={() => setPreviewCitation(null)} />
+
       {/* Messages Area */}
       <ScrollArea className="flex-1 px-6 py-4">
         <div className="max-w-4xl mx-auto space-y-6">
@@ -128,14 +223,60 @@ export function ChatMode() {
                                 strong: ({ node, ...props }) => <strong className="font-semibold" {...props} />,
                                 em: ({ node, ...props }) => <em className="italic" {...props} />,
                                 code: ({ node, ...props }) => <code className="bg-muted px-1 py-0.5 rounded text-xs" {...props} />,
+                                a: ({ href, children }) => {
+                                  const citation = message.citations?.find((c) => href === `#cite-${c.id}`);
+                                  return citation
+                                    ? <CitationMark citation={citation} onOpen={(c) => openCitation(c, idx)} />
+                                    : <a href={href}>{children}</a>;
+                                },
                               }}
                             >
-                              {message.content}
+                              {message.isStreaming
+                                ? `${message.content}▍`
+                                : linkCitations(message.content, message.citations)}
                             </ReactMarkdown>
                           </div>
                         )}
                       </div>
 
+                      {/* Numbered sources behind the answer */}
+                      {message.role === 'assistant' && message.citations && message.citations.length > 0 && (
+                        <CitationSources citations={message.citations} onOpen={(c) => openCitation(c, idx)} />
+                      )}
+
+                      {/* Generated SQL, editable and re-runnable */}
+                      {message.role === 'assistant' && !message.isStreaming && message.sqlQuery && (
+                        <SqlQueryPanel query={message.sqlQuery} />
+                      )}
+
+                      {/* Figures of the answer checked against the computed data */}
+                      {message.role === 'assistant' && !message.isStreaming && message.claims && message.claims.length > 0 && (
+                        <ClaimCheck claims={message.claims} />
+                      )}
+
+                      {/* Non-fatal problems: steps that were skipped or degraded */}
+                      {message.role === 'assistant' && message.warnings && message.warnings.length > 0 && (
+                        <Alert className="mt-2 border-orange-200 bg-orange-50">
+                          <AlertCircle className="h-4 w-4 text-orange-600" />
+                          <AlertDescription>
+                            <ul className="space-y-1 text-xs text-orange-900">
+                              {message.warnings.map((warning, i) => (
+                                <li key={i}>{warning}</li>
+                              ))}
+                            </ul>
+                          </AlertDescription>
+                        </Alert>
+                      )}
+
+                      {/* Confirmation card for a run paused before the chart is drawn */}
+                      {message.role === 'assistant' && 'confirmation' in message && message.confirmation && message.id && (
+                        <VisualizationConfirmCard
+                          confirmation={message.confirmation}
+                          disabled={isLoading}
+                          onConfirm={(approved, edits) => confirmVisualization(message.id!, approved, edits)}
+                        />
+                      )}
+
                       {/* Chart Visualization for AI responses */}
                       {message.role === 'assistant' && (() => {
                         console.log('🔍 Checking message for visualization:', message);
@@ -143,7 +284,7 @@ export function ChatMode() {
                         if (message.visualization) {
                           console.log('🔍 Visualization details:', message.visualization);
                         }
-                        return message.visualization;
+                        return messageCharts(message).length > 0;
                       })() && (
                         <motion.div
                           initial={{ opacity: 0, height: 0 }}
@@ -153,94 +294,252 @@ export function ChatMode() {
                           <Card className="mt-3">
                             <CardContent className="p-4">
                               {(() => {
-                                const viz = message.visualization;
-                                if (!viz) return null;
+                                const charts = messageCharts(message);
+                                const active = Math.min(activeCharts[idx] ?? 0, charts.length - 1);
+                                const original = charts[active];
+                                if (!original) return null;
+                                const tried = triedAlternatives[`${idx}-${active}`] ?? -1;
+                                const viz = original.alternatives?.[tried] ?? original;
+                                const chartKey = viz === original ? `${idx}-${active}` : `${idx}-${active}-${tried}`;
 
                                 return (
                                   <>
+                                    {charts.length > 1 && (
+                                      <div className="flex items-center gap-1 mb-3">
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          className="h-7 w-7"
+                                          disabled={active === 0}
+                                          onClick={() => showChart(idx, active - 1)}
+                                          title="Previous chart"
+                                        >
+                                          <ChevronLeft className="h-3 w-3" />
+                                        </Button>
+                                        <div className="flex flex-1 gap-1 overflow-x-auto">
+                                          {charts.map((chart, chartIndex) => (
+                                            <Badge
+                                              key={chartIndex}
+                                              variant={chartIndex === active ? 'default' : 'outline'}
+                                              className="cursor-pointer whitespace-nowrap capitalize"
+                                              onClick={() => showChart(idx, chartIndex)}
+                                              title={chart.title}
+                                            >
+                                              {chart.role || chart.type.replace('_', ' ')}
+                                            </Badge>
+                                          ))}
+                                        </div>
+                                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                          {active + 1} of {charts.length}
+                                        </span>
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          className="h-7 w-7"
+                                          disabled={active === charts.length - 1}
+                                          onClick={() => showChart(idx, active + 1)}
+                                          title="Next chart"
+                                        >
+                                          <ChevronRight className="h-3 w-3" />
+                                        </Button>
+                                      </div>
+                                    )}
                                     <div className="flex items-center justify-between mb-4">
                                       <h4 className="text-sm font-semibold">{viz.title}</h4>
                                       <div className="flex gap-2">
+                                        {viz.spec && RECHARTS_TYPES.includes(viz.type) && (
+                                          <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className={`h-7 w-7 ${vegaViews.has(chartKey) ? 'bg-blue-100 dark:bg-blue-900' : ''}`}
+                                            onClick={() => toggleVegaView(chartKey)}
+                                            title={vegaViews.has(chartKey) ? 'Show standard chart' : 'Show interactive Vega-Lite chart'}
+                                          >
+                                            <Layers className="h-3 w-3" />
+                                          </Button>
+                                        )}
                                         <Button
                                           variant="ghost"
                                           size="icon"
-                                          className={`h-7 w-7 ${pinnedMessageId === `msg-${idx}` ? 'bg-green-100 dark:bg-green-900' : ''}`}
-                                          onClick={() => handlePinVisualization(idx)}
+                                          className={`h-7 w-7 ${pinnedMessageId === `msg-${chartKey}` ? 'bg-green-100 dark:bg-green-900' : ''}`}
+                                          onClick={() => handlePinVisualization(viz, chartKey)}
                                           title="Pin to canvas"
                                         >
-                                          <Pin className={`h-3 w-3 ${pinnedMessageId === `msg-${idx}` ? 'text-green-600 fill-green-600' : ''}`} />
+                                          <Pin className={`h-3 w-3 ${pinnedMessageId === `msg-${chartKey}` ? 'text-green-600 fill-green-600' : ''}`} />
                                         </Button>
                                         <Button variant="ghost" size="icon" className="h-7 w-7" title="Download">
                                           <Download className="h-3 w-3" />
                                         </Button>
                                       </div>
                                     </div>
-                                    <ResponsiveContainer width="100%" height={300}>
-                                      {(() => {
-                                        switch (viz.type) {
-                                          case 'line':
-                                            return (
-                                              <LineChart data={viz.data}>
-                                                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                                                <XAxis dataKey="name" fontSize={12} />
-                                                <YAxis fontSize={12} />
-                                                <Tooltip />
-                                                <Legend />
-                                                <Line
-                                                  type="monotone"
-                                                  dataKey="value"
-                                                  stroke={COLORS[0]}
-                                                  strokeWidth={2}
-                                                  dot={{ fill: COLORS[0], r: 4 }}
-                                                />
-                                              </LineChart>
-                                            );
-                                          case 'bar':
-                                            return (
-                                              <BarChart data={viz.data}>
-                                                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                                                <XAxis dataKey="name" fontSize={12} />
-                                                <YAxis fontSize={12} />
-                                                <Tooltip />
-                                                <Legend />
-                                                <Bar dataKey="value" fill={COLORS[0]} />
-                                              </BarChart>
-                                            );
-                                          case 'pie':
-                                            return (
-                                              <PieChart>
-                                                <Pie
-                                                  data={viz.data}
-                                                  cx="50%"
-                                                  cy="50%"
-                                                  labelLine={false}
-                                                  label={({ name, percent }: any) => `${name}: ${((percent as number) * 100).toFixed(0)}%`}
-                                                  outerRadius={80}
-                                                  fill="#8884d8"
-                                                  dataKey="value"
-                                                >
-                                                  {viz.data.map((_entry, index) => (
-                                                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                                                  ))}
-                                                </Pie>
-                                                <Tooltip />
-                                              </PieChart>
-                                            );
-                                          case 'scatter':
-                                            return (
-                                              <ScatterChart>
-                                                <CartesianGrid strokeDasharray="3 3" />
-                                                <XAxis dataKey="name" fontSize={12} />
-                                                <YAxis fontSize={12} />
-                                                <Tooltip cursor={{ strokeDasharray: '3 3' }} />
-                                                <Scatter data={viz.data} fill={COLORS[0]} />
-                                              </ScatterChart>
-                                            );
-                                          default:
-                                            return <div>Unsupported chart type</div>;
-                                        }
-                                      })()}
-                                    </ResponsiveContainer>
+                                    {!!original.alternatives?.length && (
+                                      <div className="flex flex-wrap items-center gap-1 mb-3 text-xs text-muted-foreground">
+                                        <span>Try as</span>
+                                        {[original, ...original.alternatives].map((option, optionIndex) => (
+                                          <Badge
+                                            key={optionIndex}
+                                            variant={option === viz ? 'secondary' : 'outline'}
+                                            className="cursor-pointer capitalize"
+                                            onClick={() => tryAlternative(`${idx}-${active}`, optionIndex - 1)}
+                                            title={option.description || option.title}
+                                          >
+                                            {chartLabel(option, original)}
+                                          </Badge>
+                                        ))}
+                                      </div>
+                                    )}
+                                    {chartRenderer(viz.type, !!viz.spec, vegaViews.has(chartKey) ? 'vega' : 'recharts') === 'vega' && viz.spec ? (
+                                      <VegaLiteChart key={chartKey} spec={viz.spec} />
+                                    ) : viz.series?.length ? (
+                                      <SeriesChart type={viz.type} data={viz.data} series={viz.series} height={300} />
+                                    ) : (
+                                      <ResponsiveContainer width="100%" height={300}>
+                                        {(() => {
+                                          switch (viz.type) {
+                                            case 'line':
+                                              if (viz.forecast) {
+                                                return (
+                                                  <ComposedChart data={withForecast(viz)}>
+                                                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                                    <XAxis dataKey="name" fontSize={12} />
+                                                    <YAxis fontSize={12} />
+                                                    <Tooltip />
+                                                    <Legend />
+                                                    <Area
+                                                      type="monotone"
+                                                      dataKey="band"
+                                                      name={`${Math.round(viz.forecast.interval * 100)}% interval`}
+                                                      stroke="none"
+                                                      fill={COLORS[0]}
+                                                      fillOpacity={0.15}
+                                                    />
+                                                    <Line
+                                                      type="monotone"
+                                                      dataKey="value"
+                                                      name="Actual"
+                                                      stroke={COLORS[0]}
+                                                      strokeWidth={2}
+                                                      dot={{ fill: COLORS[0], r: 4 }}
+                                                    />
+                                                    <Line
+                                                      type="monotone"
+                                                      dataKey="forecast"
+                                                      name="Forecast"
+                                                      stroke={COLORS[0]}
+                                                      strokeWidth={2}
+                                                      strokeDasharray="5 5"
+                                                      dot={{ fill: COLORS[0], r: 3 }}
+                                                    />
+                                                  </ComposedChart>
+                                                );
+                                              }
+                                              return (
+                                                <LineChart data={viz.data}>
+                                                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                                  <XAxis dataKey="name" fontSize={12} />
+                                                  <YAxis fontSize={12} />
+                                                  <Tooltip />
+                                                  <Legend />
+                                                  <Line
+                                                    type="monotone"
+                                                    dataKey="value"
+                                                    stroke={COLORS[0]}
+                                                    strokeWidth={2}
+                                                    dot={{ fill: COLORS[0], r: 4 }}
+                                                  />
+                                                </LineChart>
+                                              );
+                                            case 'bar':
+                                              return (
+                                                <BarChart data={viz.data}>
+                                                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                                  <XAxis dataKey="name" fontSize={12} />
+                                                  <YAxis fontSize={12} />
+                                                  <Tooltip />
+                                                  <Legend />
+                                                  <Bar dataKey="value" fill={COLORS[0]} />
+                                                </BarChart>
+                                              );
+                                            case 'histogram':
+                                              return (
+                                                <BarChart data={viz.data} barCategoryGap={1}>
+                                                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                                  <XAxis dataKey="name" fontSize={12} />
+                                                  <YAxis fontSize={12} allowDecimals={false} />
+                                                  <Tooltip />
+                                                  <Bar dataKey="value" name="count" fill={COLORS[0]} />
+                                                </BarChart>
+                                              );
+                                            case 'area':
+                                              return (
+                                                <AreaChart data={viz.data}>
+                                                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                                  <XAxis dataKey="name" fontSize={12} />
+                                                  <YAxis fontSize={12} />
+                                                  <Tooltip />
+                                                  <Legend />
+                                                  <Area
+                                                    type="monotone"
+                                                    dataKey="value"
+                                                    stroke={COLORS[0]}
+                                                    fill={COLORS[0]}
+                                                    fillOpacity={0.3}
+                                                  />
+                                                </AreaChart>
+                                              );
+                                            case 'pie':
+                                              return (
+                                                <PieChart>
+                                                  <Pie
+                                                    data={viz.data}
+                                                    cx="50%"
+                                                    cy="50%"
+                                                    labelLine={false}
+                                                    label={({ name, percent }: any) => `${name}: ${((percent as number) * 100).toFixed(0)}%`}
+                                                    outerRadius={80}
+                                                    fill="#8884d8"
+                                                    dataKey="value"
+                                                  >
+                                                    {viz.data.map((_entry, index) => (
+                                                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                                                    ))}
+                                                  </Pie>
+                                                  <Tooltip />
+                                                </PieChart>
+                                              );
+                                            case 'scatter':
+                                              return (
+                                                <ScatterChart>
+                                                  <CartesianGrid strokeDasharray="3 3" />
+                                                  <XAxis dataKey="name" fontSize={12} />
+                                                  <YAxis fontSize={12} />
+                                                  <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                                                  <Scatter data={viz.data} fill={COLORS[0]} />
+                                                </ScatterChart>
+                                              );
+                                            default:
+                                              return <div>Unsupported chart type</div>;
+                                          }
+                                        })()}
+                                      </ResponsiveContainer>
+                                    )}
+                                    {viz.forecast && (
+                                      <p className="mt-2 text-xs text-muted-foreground">
+                                        Forecast of the next {viz.forecast.horizon} {viz.forecast.timeBucket}s with a{' '}
+                                        {FORECAST_MODEL_NAMES[viz.forecast.model]} model · mean absolute error{' '}
+                                        {viz.forecast.holdoutMAE.toLocaleString()} on recent periods
+                                      </p>
+                                    )}
+                                    {viz.queryPlan && (
+                                      <details className="mt-3 text-xs text-muted-foreground">
+                                        <summary className="cursor-pointer">
+                                          Computed from {viz.rowsMatched?.toLocaleString()} of {viz.rowsScanned?.toLocaleString()} rows · view query plan
+                                        </summary>
+                                        <pre className="mt-2 p-2 bg-muted rounded overflow-x-auto">
+                                          {JSON.stringify(viz.queryPlan, null, 2)}
+                                        </pre>
+                                      </details>
+                                    )}
                                     {viz.description && (
                                       <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-950 rounded-lg">
                                         <div className="flex items-start gap-2 text-sm">
@@ -297,7 +596,7 @@ export function ChatMode() {
                                   workbookName: view.workbookName,
                                 });
                                 return (
-                                <Card key={view.id} className="overflow-hidden">
+                                <Card key={view.id} id={`tableau-view-${idx}-${view.id}`} className="overflow-hidden">
                                   <CardContent className="p-4">
                                     <div className="mb-3">
                                       <div className="flex items-start justify-between mb-2">
@@ -361,7 +660,7 @@ export function ChatMode() {
                                   <h5 className="text-sm font-semibold">{insight.title}</h5>
                                   <p className="text-xs text-muted-foreground mt-1">{insight.content}</p>
                                   <div className="text-xs text-muted-foreground mt-1">
-                                    Confidence: {Math.round(insight.confidence * 100)}%
+                                    Confidence: {Math.round(insight.confidence * 100)}% · {insight.statistic.label}
                                   </div>
                                 </div>
                               </div>
@@ -370,9 +669,38 @@ export function ChatMode() {
                         </div>
                       )}
 
-                      <div className="text-xs text-muted-foreground mt-1">
+                      {/* Follow-up questions, offered on the latest answer only */}
+                      {message.role === 'assistant' && idx === displayMessages.length - 1 && !isLoading
+                        && message.suggestions && message.suggestions.length > 0 && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {message.suggestions.map((suggestion) => (
+                            <Badge
+                              key={suggestion}
+                              variant="outline"
+                              className="cursor-pointer hover:bg-accent"
+                              onClick={() => sendMessage(suggestion)}
+                            >
+                              <Sparkles className="h-3 w-3 mr-1" />
+                              {suggestion}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="text-xs text-muted-foreground mt-1 flex items-center gap-2">
                         {message.timestamp.toLocaleTimeString()}
+                        {message.role === 'assistant' && message.run && (
+                          <button
+                            type="button"
+                            className="flex items-center gap-1 hover:text-foreground"
+                            onClick={() => setTracedMessageIdx(tracedMessageIdx === idx ? null : idx)}
+                          >
+                            <Activity className="h-3 w-3" />
+                            {tracedMessageIdx === idx ? 'Hide trace' : 'Trace'}
+                          </button>
+                        )}
                       </div>
+                      {tracedMessageIdx === idx && message.run && <RunTracePanel run={message.run} />}
                     </div>
                     {message.role === 'user' && (
                       <div className="w-8 h-8 rounded-full bg-gradient-to-br from-green-500 to-emerald-600 flex items-center justify-center flex-shrink-0">
@@ -458,6 +786,21 @@ export function ChatMode() {
             </div>
           )}
 
+          <div className="mb-2">
+            <DatasetScopePicker disabled={isLoading} />
+          </div>
+
+          <div className="flex items-center gap-2 mb-2">
+            <Checkbox
+              id="confirm-before-visualization"
+              checked={confirmBeforeVisualization}
+              onCheckedChange={(checked) => setConfirmBeforeVisualization(checked === true)}
+            />
+            <label htmlFor="confirm-before-visualization" className="text-xs text-muted-foreground cursor-pointer">
+              Review dataset and columns before drawing charts
+            </label>
+          </div>
+
           {/* Input Field */}
           <div className="flex items-center gap-2">
             <Button variant="outline" size="icon">
@@ -479,13 +822,15 @@ export function ChatMode() {
                 <Mic className="h-4 w-4" />
               </Button>
             </div>
-            <Button onClick={handleSend} disabled={!input.trim() || isLoading}>
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
+            {isLoading ? (
+              <Button variant="destructive" onClick={cancelMessage} title="Stop analysis">
+                <Square className="h-4 w-4 fill-current" />
+              </Button>
+            ) : (
+              <Button onClick={handleSend} disabled={!input.trim()}>
                 <Send className="h-4 w-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </div>
         </div>
       </div>
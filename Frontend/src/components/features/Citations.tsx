@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { BarChart3, Database, Globe, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { explorerApi } from '@/lib/api';
+import type { Citation, QueryFilter } from '@/contexts/ChatContext';
+
+const KIND_ICONS = {
+  dataset: Database,
+  tableau: BarChart3,
+  web: Globe,
+};
+
+const OPERATORS: Record<QueryFilter['operator'], string> = {
+  eq: '=', neq: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤', in: 'in', contains: 'contains',
+};
+
+const describeFilter = (filter: QueryFilter) =>
+  `${filter.column} ${OPERATORS[filter.operator]} ${Array.isArray(filter.value) ? filter.value.join(', ') : filter.value}`;
+
+/**
+ * Footnote marker in the answer text
+ */
+export function CitationMark({ citation, onOpen }: { citation: Citation; onOpen: (citation: Citation) => void }) {
+  return (
+    <sup>
+      <button
+        type="button"
+        title={citation.label}
+        className="mx-0.5 text-[10px] font-medium text-blue-600 hover:underline"
+        onClick={() => onOpen(citation)}
+      >
+        [{citation.id}]
+      </button>
+    </sup>
+  );
+}
+
+/**
+ * Numbered source list under an answer
+ */
+export function CitationSources({ citations, onOpen }: { citations: Citation[]; onOpen: (citation: Citation) => void }) {
+  return (
+    <div className="mt-2 text-xs">
+      <div className="mb-1 font-medium text-muted-foreground">Sources</div>
+      <ol className="space-y-0.5">
+        {citations.map((citation) => {
+          const Icon = KIND_ICONS[citation.kind];
+          return (
+            <li key={citation.id}>
+              <button
+                type="button"
+                className="flex items-center gap-1.5 text-left hover:underline"
+                onClick={() => onOpen(citation)}
+              >
+                <span className="text-muted-foreground">[{citation.id}]</span>
+                <Icon className="h-3 w-3 shrink-0 text-blue-600" />
+                <span>{citation.label}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+interface DatasetPreview {
+  preview: Array<Record<string, unknown>>;
+  totalRows?: number;
+}
+
+/**
+ * Preview of a cited dataset, with the cited columns highlighted and the filters listed
+ */
+export function DatasetPreviewDialog({ citation, onClose }: { citation: Citation | null; onClose: () => void }) {
+  const [data, setData] = useState<DatasetPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!citation?.datasetId) return;
+    let cancelled = false;
+    setData(null);
+    setError(null);
+    explorerApi
+      .getDatasetOverview(citation.datasetId)
+      .then((response) => {
+        if (!cancelled) setData({ preview: response.data.preview || [], totalRows: response.data.overview?.totalRows });
+      })
+      .catch(() => {
+        if (!cancelled) setError('The dataset preview could not be loaded.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [citation]);
+
+  const headers = data?.preview[0] ? Object.keys(data.preview[0]) : [];
+  const cited = new Set(citation?.columns || []);
+
+  return (
+    <Dialog open={!!citation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>{citation?.label}</DialogTitle>
+        </DialogHeader>
+
+        {citation?.filters && citation.filters.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {citation.filters.map((filter, i) => (
+              <Badge key={i} variant="outline" className="text-xs">
+                {describeFilter(filter)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !data ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading preview…
+          </div>
+        ) : headers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No preview data available</p>
+        ) : (
+          <div className="overflow-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b">
+                  {headers.map((header) => (
+                    <th
+                      key={header}
+                      className={`px-2 py-1 text-left font-medium ${cited.has(header) ? 'bg-blue-50 text-blue-700' : ''}`}
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {data.preview.map((row, i) => (
+                  <tr key={i} className="border-b last:border-0">
+                    {headers.map((header) => (
+                      <td key={header} className={`px-2 py-1 ${cited.has(header) ? 'bg-blue-50' : ''}`}>
+                        {String(row[header] ?? '')}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Showing {data.preview.length} of {data.totalRows?.toLocaleString() ?? data.preview.length} rows
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
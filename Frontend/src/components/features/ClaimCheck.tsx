@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import type { NumericClaim } from '@/contexts/ChatContext';
+
+const STATUS_VARIANTS: Record<NumericClaim['status'], BadgeProps['variant']> = {
+  verified: 'success',
+  corrected: 'warning',
+  unverified: 'outline',
+};
+
+const STATUSES: NumericClaim['status'][] = ['verified', 'corrected', 'unverified'];
+
+/**
+ * Which figures of an answer match the computed data, with what they matched or what was corrected
+ */
+export function ClaimCheck({ claims }: { claims: NumericClaim[] }) {
+  const [open, setOpen] = useState(false);
+  const counts = STATUSES.map((status) => ({ status, count: claims.filter((c) => c.status === status).length }));
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        type="button"
+        className="flex items-center gap-2 text-muted-foreground hover:text-foreground"
+        onClick={() => setOpen(!open)}
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <span>Fact check</span>
+        {counts.filter(({ count }) => count > 0).map(({ status, count }) => (
+          <Badge key={status} variant={STATUS_VARIANTS[status]} className="px-1.5 py-0 text-[10px]">
+            {count} {status}
+          </Badge>
+        ))}
+      </button>
+
+      {open && (
+        <ul className="mt-1 space-y-1 pl-5">
+          {claims.map((claim, i) => (
+            <li key={i} className="flex items-center gap-2">
+              <Badge variant={STATUS_VARIANTS[claim.status]} className="shrink-0 px-1.5 py-0 text-[10px]">
+                {claim.status}
+              </Badge>
+              <span className="font-medium">{claim.text}</span>
+              <span className="text-muted-foreground">
+                {claim.status === 'corrected'
+                  ? `was ${claim.original}, matches ${claim.source}`
+                  : claim.source
+                    ? `matches ${claim.source}`
+                    : 'not found in the computed data'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import {
   Database, Filter, SortAsc, Download, Sparkles,
   BarChart3, Table2, Info, Search, RefreshCw, MessageSquare,
-  TrendingUp, AlertCircle, LineChart as LineChartIcon, Activity, Upload, Pin, PinOff
+  TrendingUp, AlertCircle, LineChart as LineChartIcon, Activity, Upload, Pin, PinOff, Layers
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,9 +14,12 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { explorerApi } from '@/lib/api';
 import { useCanvas } from '@/contexts/CanvasContext';
+import { chartRenderer, RECHARTS_TYPES } from '@/lib/charts';
+import { VegaLiteChart } from './VegaLiteChart';
+import { SeriesChart } from './SeriesChart';
 import {
   LineChart, Line, BarChart, Bar, PieChart as RechartsPie, Pie, Cell,
-  ScatterChart, Scatter,
+  ScatterChart, Scatter, AreaChart, Area,
   XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
 } from 'recharts';
 
@@ -32,6 +35,8 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
   const [datasetOverview, setDatasetOverview] = useState<any>(null);
   const [insights, setInsights] = useState<any[]>([]);
   const [visualizations, setVisualizations] = useState<any[]>([]);
+  // Charts shown from their Vega-Lite spec, by index
+  const [vegaViews, setVegaViews] = useState<Set<number>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingOverview, setIsLoadingOverview] = useState(false);
   const [isGeneratingInsights, setIsGeneratingInsights] = useState(false);
@@ -110,6 +115,7 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
       setIsGeneratingVisualizations(true);
       const response = await explorerApi.generateVisualizations(selectedDatasetId);
       setVisualizations(response.data.visualizations || []);
+      setVegaViews(new Set());
       // Switch to visuals tab after generation
       setActiveTab('visuals');
     } catch (error) {
@@ -143,6 +149,7 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
       const query = `Create a visualization for this insight: ${insight.title}. ${insight.content}`;
       const response = await explorerApi.generateVisualizations(selectedDatasetId, query);
       setVisualizations(response.data.visualizations || []);
+      setVegaViews(new Set());
       // Switch to visuals tab after generation
       setActiveTab('visuals');
     } catch (error) {
@@ -153,9 +160,18 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
     }
   };
 
-  const handlePinVisualization = (viz: any) => {
+  const handlePinVisualization = (viz: any, index: number) => {
     // Use CanvasContext to pin/unpin
-    addExplorerVisualization(viz);
+    addExplorerVisualization(viz, vegaViews.has(index) ? 'vega' : 'recharts');
+  };
+
+  const toggleVegaView = (index: number) => {
+    setVegaViews((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
   };
 
   const isVisualizationPinned = (viz: any) => {
@@ -208,6 +224,7 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
     switch (type) {
       case 'trend': return TrendingUp;
       case 'anomaly': return AlertCircle;
+      case 'correlation': return Activity;
       case 'summary': return Info;
       case 'recommendation': return Sparkles;
       default: return Info;
@@ -218,6 +235,7 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
     switch (type) {
       case 'trend': return 'border-blue-200 bg-blue-50 dark:bg-blue-950';
       case 'anomaly': return 'border-orange-200 bg-orange-50 dark:bg-orange-950';
+      case 'correlation': return 'border-cyan-200 bg-cyan-50 dark:bg-cyan-950';
       case 'summary': return 'border-green-200 bg-green-50 dark:bg-green-950';
       case 'recommendation': return 'border-purple-200 bg-purple-50 dark:bg-purple-950';
       default: return 'border-gray-200 bg-gray-50 dark:bg-gray-950';
@@ -802,27 +820,44 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
                               <CardTitle>{viz.title}</CardTitle>
                               {viz.description && <CardDescription>{viz.description}</CardDescription>}
                             </div>
-                            <Button
-                              size="sm"
-                              variant={isVisualizationPinned(viz) ? "default" : "outline"}
-                              onClick={() => handlePinVisualization(viz)}
-                            >
-                              {isVisualizationPinned(viz) ? (
-                                <>
-                                  <PinOff className="h-3 w-3 mr-2" />
-                                  Unpin
-                                </>
-                              ) : (
-                                <>
-                                  <Pin className="h-3 w-3 mr-2" />
-                                  Pin to Canvas
-                                </>
+                            <div className="flex gap-2">
+                              {viz.spec && RECHARTS_TYPES.includes(viz.type) && (
+                                <Button
+                                  size="sm"
+                                  variant={vegaViews.has(index) ? "default" : "outline"}
+                                  onClick={() => toggleVegaView(index)}
+                                  title="Switch between the standard and the interactive Vega-Lite chart"
+                                >
+                                  <Layers className="h-3 w-3 mr-2" />
+                                  Vega-Lite
+                                </Button>
                               )}
-                            </Button>
+                              <Button
+                                size="sm"
+                                variant={isVisualizationPinned(viz) ? "default" : "outline"}
+                                onClick={() => handlePinVisualization(viz, index)}
+                              >
+                                {isVisualizationPinned(viz) ? (
+                                  <>
+                                    <PinOff className="h-3 w-3 mr-2" />
+                                    Unpin
+                                  </>
+                                ) : (
+                                  <>
+                                    <Pin className="h-3 w-3 mr-2" />
+                                    Pin to Canvas
+                                  </>
+                                )}
+                              </Button>
+                            </div>
                           </div>
                         </CardHeader>
                         <CardContent>
-                          {viz.data && viz.data.length > 0 ? (
+                          {viz.data && viz.data.length > 0 && chartRenderer(viz.type, !!viz.spec, vegaViews.has(index) ? 'vega' : 'recharts') === 'vega' ? (
+                            <VegaLiteChart spec={viz.spec} />
+                          ) : viz.data && viz.data.length > 0 && viz.series?.length ? (
+                            <SeriesChart type={viz.type} data={viz.data} series={viz.series} height={300} />
+                          ) : viz.data && viz.data.length > 0 ? (
                             <div>
                               {viz.type === 'bar' && (
                                 <ResponsiveContainer width="100%" height={300}>
@@ -836,6 +871,35 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
                                   </BarChart>
                                 </ResponsiveContainer>
                               )}
+                              {viz.type === 'histogram' && (
+                                <ResponsiveContainer width="100%" height={300}>
+                                  <BarChart data={viz.data} barCategoryGap={1}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                    <XAxis dataKey="name" fontSize={12} />
+                                    <YAxis fontSize={12} allowDecimals={false} />
+                                    <Tooltip />
+                                    <Bar dataKey="value" name="count" fill={COLORS[index % COLORS.length]} />
+                                  </BarChart>
+                                </ResponsiveContainer>
+                              )}
+                              {viz.type === 'area' && (
+                                <ResponsiveContainer width="100%" height={300}>
+                                  <AreaChart data={viz.data}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                    <XAxis dataKey="name" fontSize={12} />
+                                    <YAxis fontSize={12} />
+                                    <Tooltip />
+                                    <Legend />
+                                    <Area
+                                      type="monotone"
+                                      dataKey="value"
+                                      stroke={COLORS[index % COLORS.length]}
+                                      fill={COLORS[index % COLORS.length]}
+                                      fillOpacity={0.3}
+                                    />
+                                  </AreaChart>
+                                </ResponsiveContainer>
+                              )}
                               {viz.type === 'line' && (
                                 <ResponsiveContainer width="100%" height={300}>
                                   <LineChart data={viz.data}>
@@ -936,7 +1000,7 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
                   <Sparkles className="h-4 w-4" />
                   <AlertTitle>AI-Powered Insights</AlertTitle>
                   <AlertDescription>
-                    These insights are automatically generated by analyzing patterns, trends, and anomalies in your data.
+                    These insights come from trends, correlations, outliers and skew computed on every row of your data.
                   </AlertDescription>
                 </Alert>
 
@@ -965,6 +1029,9 @@ export function DataExplorer({ onNavigateToChat }: DataExplorerProps = {}) {
                         </CardHeader>
                         <CardContent>
                           <p className="text-sm leading-relaxed">{insight.content}</p>
+                          {insight.statistic && (
+                            <p className="mt-2 text-xs text-muted-foreground font-mono">{insight.statistic.label}</p>
+                          )}
                           <div className="mt-4 flex gap-2">
                             <Button
                               size="sm"
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Database, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useChat, type ChatScope } from '@/contexts/ChatContext';
+import { useTableau } from '@/contexts/TableauContext';
+import { tableauApi } from '@/lib/api';
+
+interface PinnableView {
+  id: string;
+  name: string;
+  workbookId?: string;
+}
+
+/**
+ * Pin datasets or Tableau views to the chat. While anything is pinned, answers only use the pinned data.
+ */
+export function DatasetScopePicker({ disabled }: { disabled?: boolean }) {
+  const { scope, pinnableDatasets, loadScope, updateScope } = useChat();
+  const { isAuthenticated: tableauAuthenticated, workbooks } = useTableau();
+  const [views, setViews] = useState<PinnableView[]>([]);
+
+  const current: ChatScope = scope || { datasetIds: [], tableauViews: [] };
+  const pinnedCount = current.datasetIds.length + current.tableauViews.length;
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    await loadScope();
+    if (tableauAuthenticated) {
+      try {
+        const response = await tableauApi.getViews();
+        setViews(response.data.views || []);
+      } catch (error) {
+        console.error('Failed to fetch Tableau views:', error);
+      }
+    }
+  };
+
+  const toggleDataset = (id: string) => {
+    const datasetIds = current.datasetIds.includes(id)
+      ? current.datasetIds.filter((d) => d !== id)
+      : [...current.datasetIds, id];
+    updateScope({ ...current, datasetIds });
+  };
+
+  const toggleView = (view: PinnableView) => {
+    const pinned = current.tableauViews.some((v) => v.id === view.id);
+    const workbookName = workbooks.find((w) => w.id === view.workbookId)?.name;
+    const tableauViews = pinned
+      ? current.tableauViews.filter((v) => v.id !== view.id)
+      : [...current.tableauViews, { id: view.id, name: view.name, ...(workbookName ? { workbookName } : {}) }];
+    updateScope({ ...current, tableauViews });
+  };
+
+  const pinnedNames = [
+    ...current.datasetIds.map((id) => pinnableDatasets.find((d) => d.id === id)?.name || id),
+    ...current.tableauViews.map((v) => v.name),
+  ];
+
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      <DropdownMenu onOpenChange={handleOpenChange}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7 text-xs" disabled={disabled}>
+            <Database className="h-3 w-3 mr-1" />
+            {pinnedCount > 0 ? `${pinnedCount} pinned` : 'All datasets'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuLabel className="text-xs">Answer only from</DropdownMenuLabel>
+          {pinnableDatasets.length === 0 && (
+            <DropdownMenuItem disabled className="text-xs">No datasets uploaded yet</DropdownMenuItem>
+          )}
+          {pinnableDatasets.map((dataset) => (
+            <DropdownMenuCheckboxItem
+              key={dataset.id}
+              checked={current.datasetIds.includes(dataset.id)}
+              onSelect={(event) => event.preventDefault()}
+              onCheckedChange={() => toggleDataset(dataset.id)}
+              className="text-xs"
+            >
+              <span className="truncate">{dataset.name}</span>
+              {dataset.rowCount !== undefined && (
+                <span className="ml-auto pl-2 text-muted-foreground">{dataset.rowCount.toLocaleString()} rows</span>
+              )}
+            </DropdownMenuCheckboxItem>
+          ))}
+          {views.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs">Tableau views</DropdownMenuLabel>
+              {views.map((view) => (
+                <DropdownMenuCheckboxItem
+                  key={view.id}
+                  checked={current.tableauViews.some((v) => v.id === view.id)}
+                  onSelect={(event) => event.preventDefault()}
+                  onCheckedChange={() => toggleView(view)}
+                  className="text-xs"
+                >
+                  <span className="truncate">{view.name}</span>
+                </DropdownMenuCheckboxItem>
+              ))}
+            </>
+          )}
+          {pinnedCount > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-xs"
+                onClick={() => updateScope({ datasetIds: [], tableauViews: [] })}
+              >
+                <X className="h-3 w-3 mr-2" />
+                Unpin all - search every dataset
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {pinnedNames.length > 0 && (
+        <div className="flex gap-1 overflow-x-auto">
+          {pinnedNames.map((name, index) => (
+            <Badge key={index} variant="secondary" className="text-xs whitespace-nowrap">
+              {name}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,11 +10,14 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
-  LineChart, Line, BarChart, Bar, PieChart as RechartsPie, Pie, Cell,
+  LineChart, Line, BarChart, Bar, PieChart as RechartsPie, Pie, Cell, AreaChart, Area,
   ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
 } from 'recharts';
 import type { InsightCard } from '@/types';
 import { useCanvas } from '@/contexts/CanvasContext';
+import { chartRenderer } from '@/lib/charts';
+import { VegaLiteChart } from './VegaLiteChart';
+import { SeriesChart } from './SeriesChart';
 
 const mockRevenueData = [
   { month: 'Jan', revenue: 4000, target: 3800 },
@@ -52,6 +55,22 @@ function DraggableCard({ card, onRemove, onPin, onDownload }: DraggableCardProps
         // Use actual data if available, otherwise fall back to mock data
         const chartData = card.content.data || mockRevenueData;
 
+        if (chartRenderer(card.content.chartType, !!card.content.spec, card.content.renderer) === 'vega') {
+          return <VegaLiteChart spec={card.content.spec} height={isExpanded ? 340 : 200} />;
+        }
+
+        if (card.content.series?.length) {
+          return (
+            <SeriesChart
+              type={card.content.chartType}
+              data={chartData}
+              series={card.content.series}
+              height={isExpanded ? 400 : 250}
+              xAxis={card.content.xAxis}
+            />
+          );
+        }
+
         if (card.content.chartType === 'line') {
           return (
             <ResponsiveContainer width="100%" height={isExpanded ? 400 : 250}>
@@ -98,6 +117,42 @@ function DraggableCard({ card, onRemove, onPin, onDownload }: DraggableCardProps
               </BarChart>
             </ResponsiveContainer>
           );
+        } else if (card.content.chartType === 'histogram') {
+          return (
+            <ResponsiveContainer width="100%" height={isExpanded ? 400 : 250}>
+              <BarChart data={chartData} barCategoryGap={1}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="name"
+                  fontSize={12}
+                  label={card.content.xAxis ? { value: card.content.xAxis, position: 'insideBottom', offset: -5 } : undefined}
+                />
+                <YAxis fontSize={12} allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="value" name="count" fill={COLORS[0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          );
+        } else if (card.content.chartType === 'area') {
+          return (
+            <ResponsiveContainer width="100%" height={isExpanded ? 400 : 250}>
+              <AreaChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="name"
+                  fontSize={12}
+                  label={card.content.xAxis ? { value: card.content.xAxis, position: 'insideBottom', offset: -5 } : undefined}
+                />
+                <YAxis
+                  fontSize={12}
+                  label={card.content.yAxis ? { value: card.content.yAxis, angle: -90, position: 'insideLeft' } : undefined}
+                />
+                <Tooltip />
+                <Legend />
+                <Area type="monotone" dataKey="value" stroke={COLORS[0]} fill={COLORS[0]} fillOpacity={0.3} />
+              </AreaChart>
+            </ResponsiveContainer>
+          );
         } else if (card.content.chartType === 'pie') {
           return (
             <ResponsiveContainer width="100%" height={isExpanded ? 400 : 250}>
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { useChat, type RunRef, type RunTrace, type TraceNode } from '@/contexts/ChatContext';
+
+const STATUS_VARIANTS: Record<TraceNode['status'] | RunTrace['status'], BadgeProps['variant']> = {
+  running: 'secondary',
+  completed: 'success',
+  failed: 'destructive',
+  interrupted: 'warning',
+  cancelled: 'outline',
+};
+
+const formatDuration = (ms?: number) =>
+  ms === undefined ? '…' : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const formatValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+function TraceText({ label, text }: { label: string; text: string }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-[11px] font-medium text-muted-foreground">{label}</div>
+      <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-words rounded bg-muted p-2 text-[11px]">
+        {text}
+      </pre>
+    </div>
+  );
+}
+
+function TraceNodeRow({ node, runStart, runDuration }: { node: TraceNode; runStart: number; runDuration: number }) {
+  const [open, setOpen] = useState(false);
+  const offset = ((new Date(node.startedAt).getTime() - runStart) / runDuration) * 100;
+  const width = Math.max(((node.durationMs ?? 0) / runDuration) * 100, 1);
+  const tokens = node.llmCalls.reduce((sum, call) => sum + (call.tokens?.total ?? 0), 0);
+  const diffKeys = Object.keys(node.stateDiff);
+
+  return (
+    <div className="text-xs">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 py-1 text-left hover:bg-muted/50 rounded"
+        onClick={() => setOpen(!open)}
+      >
+        {open ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+        <span className="w-36 shrink-0 truncate font-medium">{node.node}</span>
+        <div className="relative h-2 flex-1 rounded bg-muted">
+          <div
+            className={`absolute h-2 rounded ${node.status === 'failed' ? 'bg-destructive' : 'bg-primary'}`}
+            style={{ left: `${Math.min(offset, 99)}%`, width: `${Math.min(width, 100 - Math.min(offset, 99))}%` }}
+          />
+        </div>
+        <span className="w-16 shrink-0 text-right text-muted-foreground">{formatDuration(node.durationMs)}</span>
+        <Badge variant={STATUS_VARIANTS[node.status]} className="shrink-0 px-1.5 py-0 text-[10px]">
+          {node.status}
+        </Badge>
+      </button>
+
+      {open && (
+        <div className="ml-5 mt-1 mb-2 space-y-3 border-l pl-3">
+          {node.error && <TraceText label="Error" text={node.error} />}
+
+          {node.llmCalls.map((call, i) => (
+            <div key={i} className="space-y-2">
+              <div className="text-[11px] text-muted-foreground">
+                LLM call {i + 1}: {call.model} · {formatDuration(call.durationMs)}
+                {call.tokens && ` · ${call.tokens.input} in / ${call.tokens.output} out tokens`}
+              </div>
+              <TraceText
+                label="Prompt"
+                text={call.prompt.map((m) => `[${m.role}] ${m.content}`).join('\n\n')}
+              />
+              {call.toolCalls?.map((toolCall, j) => (
+                <TraceText key={j} label={`Tool call: ${toolCall.name}`} text={formatValue(toolCall.args)} />
+              ))}
+              {call.response && <TraceText label="Response" text={call.response} />}
+              {call.error && <TraceText label="Error" text={call.error} />}
+            </div>
+          ))}
+
+          {diffKeys.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-[11px] text-muted-foreground">
+                State changes{tokens > 0 && ` · ${tokens} tokens`}
+              </div>
+              {diffKeys.map((key) => (
+                <TraceText key={key} label={key} text={formatValue(node.stateDiff[key].after)} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Node timeline of the workflow run behind a chat message
+ */
+export function RunTracePanel({ run }: { run: RunRef }) {
+  const { getRunTrace } = useChat();
+  const [trace, setTrace] = useState<RunTrace | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getRunTrace(run)
+      .then((result) => !cancelled && setTrace(result))
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load run trace'));
+    return () => {
+      cancelled = true;
+    };
+  }, [run, getRunTrace]);
+
+  if (error) {
+    return <p className="mt-2 text-xs text-destructive">{error}</p>;
+  }
+
+  if (!trace) {
+    return (
+      <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading trace...
+      </div>
+    );
+  }
+
+  const runStart = new Date(trace.startedAt).getTime();
+  // Resumed runs have nodes after the first duration; size the timeline to the last node
+  const runDuration = Math.max(
+    trace.durationMs ?? 0,
+    ...trace.nodes.map((node) => new Date(node.startedAt).getTime() - runStart + (node.durationMs ?? 0)),
+    1
+  );
+
+  return (
+    <Card className="mt-3">
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="font-semibold">Agent trace</span>
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <span>{formatDuration(trace.durationMs)}</span>
+            {trace.tokens.total > 0 && <span>{trace.tokens.total} tokens</span>}
+            <Badge variant={STATUS_VARIANTS[trace.status]} className="px-1.5 py-0 text-[10px]">
+              {trace.status}
+            </Badge>
+          </div>
+        </div>
+        {trace.error && <p className="text-xs text-destructive">{trace.error}</p>}
+        <div>
+          {trace.nodes.map((node, i) => (
+            <TraceNodeRow key={i} node={node} runStart={runStart} runDuration={runDuration} />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
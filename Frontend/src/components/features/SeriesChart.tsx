@@ -0,0 +1,87 @@
+import {
+  ComposedChart, Line, Bar, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import type { ChartDatum, ChartSeries, ChartType } from '@/contexts/ChatContext';
+
+interface SeriesChartProps {
+  type: ChartType;
+  data: ChartDatum[];
+  series: ChartSeries[];
+  height: number;
+  xAxis?: string;
+}
+
+/**
+ * A line, area or bar per series of a multi-series chart, in the colours the server assigned.
+ * Series on the right axis get a second y-axis; in bar charts they are drawn as lines over the bars.
+ */
+export function SeriesChart({ type, data, series, height, xAxis }: SeriesChartProps) {
+  const bars = type === 'bar' || type === 'stacked_bar' || type === 'grouped_bar';
+  const right = series.filter((s) => s.axis === 'right');
+  // Read values through a function: Recharts treats dots in a string dataKey as a path
+  const value = (s: ChartSeries) => (row: ChartDatum) => row[s.key];
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <ComposedChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+        <XAxis
+          dataKey="name"
+          fontSize={12}
+          label={xAxis ? { value: xAxis, position: 'insideBottom', offset: -5 } : undefined}
+        />
+        <YAxis yAxisId="left" fontSize={12} />
+        {right.length > 0 && (
+          <YAxis
+            yAxisId="right"
+            orientation="right"
+            fontSize={12}
+            label={{ value: right.map((s) => s.name).join(', '), angle: 90, position: 'insideRight' }}
+          />
+        )}
+        <Tooltip />
+        <Legend />
+        {series.map((s) => {
+          if (type === 'area') {
+            return (
+              <Area
+                key={s.key}
+                type="monotone"
+                dataKey={value(s)}
+                name={s.name}
+                yAxisId={s.axis}
+                stroke={s.color}
+                fill={s.color}
+                fillOpacity={0.2}
+              />
+            );
+          }
+          if (bars && s.axis === 'left') {
+            return (
+              <Bar
+                key={s.key}
+                dataKey={value(s)}
+                name={s.name}
+                yAxisId="left"
+                stackId={type === 'stacked_bar' ? 'stack' : undefined}
+                fill={s.color}
+              />
+            );
+          }
+          return (
+            <Line
+              key={s.key}
+              type="monotone"
+              dataKey={value(s)}
+              name={s.name}
+              yAxisId={s.axis}
+              stroke={s.color}
+              strokeWidth={2}
+              dot={{ fill: s.color, r: 3 }}
+            />
+          );
+        })}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { ChevronDown, ChevronRight, Database, Loader2, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { queryApi } from '@/lib/api';
+import type { SqlQuery } from '@/contexts/ChatContext';
+
+const MAX_ROWS = 200;
+
+/**
+ * The SQL behind an answer and its result, editable and re-runnable against the datasets
+ */
+export function SqlQueryPanel({ query }: { query: SqlQuery }) {
+  const [open, setOpen] = useState(!!query.error);
+  const [sql, setSql] = useState(query.sql);
+  const [result, setResult] = useState<SqlQuery>(query);
+  const [running, setRunning] = useState(false);
+
+  const run = async () => {
+    setRunning(true);
+    try {
+      const response = await queryApi.runSql(sql, MAX_ROWS);
+      setResult(response.data);
+    } catch (error) {
+      const details = axios.isAxiosError(error) ? error.response?.data?.details || error.response?.data?.error : null;
+      setResult({ sql, columns: [], rows: [], rowCount: 0, truncated: false, error: details || 'The query could not be run.' });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        type="button"
+        className="flex items-center gap-2 text-muted-foreground hover:text-foreground"
+        onClick={() => setOpen(!open)}
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Database className="h-3 w-3" />
+        <span>SQL query</span>
+        {!result.error && <span>· {result.rowCount}{result.truncated ? '+' : ''} rows</span>}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          <Textarea
+            value={sql}
+            onChange={(e) => setSql(e.target.value)}
+            spellCheck={false}
+            className="min-h-[60px] font-mono text-xs"
+          />
+          <Button size="sm" variant="outline" onClick={run} disabled={running || !sql.trim()}>
+            {running ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Play className="mr-1 h-3 w-3" />}
+            Run
+          </Button>
+
+          {result.error ? (
+            <p className="text-destructive">{result.error}</p>
+          ) : result.columns.length === 0 ? (
+            <p className="text-muted-foreground">The query returned no rows</p>
+          ) : (
+            <div className="max-h-64 overflow-auto rounded border">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    {result.columns.map((column) => (
+                      <th key={column} className="px-2 py-1 text-left font-medium">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map((row, i) => (
+                    <tr key={i} className="border-b last:border-0">
+                      {result.columns.map((column) => (
+                        <td key={column} className="px-2 py-1">{String(row[column] ?? '')}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {result.truncated && (
+            <p className="text-muted-foreground">Showing the first {result.rowCount} rows</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
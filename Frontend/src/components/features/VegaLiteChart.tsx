@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from 'react';
+import type { VisualizationSpec } from 'vega-embed';
+
+/**
+ * Chart drawn from a Vega-Lite spec sent by the backend; vega is loaded the first time one is shown
+ */
+export function VegaLiteChart({ spec, height = 260 }: { spec: VisualizationSpec; height?: number }) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    let cancelled = false;
+    let finalize: (() => void) | undefined;
+
+    import('vega-embed')
+      .then(({ default: embed }) =>
+        embed(element, { ...spec, height } as VisualizationSpec, { actions: false, renderer: 'svg' })
+      )
+      .then((result) => {
+        if (cancelled) result.finalize();
+        else finalize = result.finalize;
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'The chart could not be drawn.');
+      });
+
+    return () => {
+      cancelled = true;
+      finalize?.();
+    };
+  }, [spec, height]);
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+  return <div ref={ref} className="w-full" />;
+}
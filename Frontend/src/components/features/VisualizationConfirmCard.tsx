@@ -0,0 +1,201 @@
+import { useState, type ReactNode } from 'react';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { JoinKey, PendingConfirmation, QueryPlan, VisualizationEdits } from '@/contexts/ChatContext';
+
+// Radix Select items cannot have an empty value
+const NONE = '__none__';
+
+// The server draws a bar chart instead when the plan lacks a column the type needs (e.g. a second category)
+const CHART_TYPES: QueryPlan['chartType'][] = [
+  'bar', 'stacked_bar', 'grouped_bar', 'line', 'area', 'pie', 'scatter', 'histogram', 'heatmap', 'boxplot',
+];
+const OPERATIONS: QueryPlan['operation'][] = ['sum', 'avg', 'count', 'min', 'max'];
+
+interface VisualizationConfirmCardProps {
+  confirmation: PendingConfirmation;
+  disabled?: boolean;
+  onConfirm: (approved: boolean, edits?: VisualizationEdits) => void;
+}
+
+/**
+ * Compact card to approve or edit the proposed chart before the visualizer runs
+ */
+export function VisualizationConfirmCard({ confirmation, disabled, onConfirm }: VisualizationConfirmCardProps) {
+  const { plan, datasets, combination } = confirmation.proposal;
+  const [datasetId, setDatasetId] = useState(plan.datasetId);
+  const [chartType, setChartType] = useState(plan.chartType);
+  const [groupBy, setGroupBy] = useState(plan.groupBy || NONE);
+  const [measure, setMeasure] = useState(plan.measure || NONE);
+  const [operation, setOperation] = useState(plan.operation);
+  const [joinKeys, setJoinKeys] = useState<JoinKey[][]>(combination?.joinKeys || []);
+
+  const columns = datasets.find((d) => d.id === datasetId)?.columns || [];
+  const columnsOf = (id?: string) => datasets.find((d) => d.id === id)?.columns || [];
+  // Join keys only apply while the plan runs on the combined dataset
+  const showJoinKeys = combination?.type === 'join' && datasetId === plan.datasetId;
+  const joinKeysChanged = JSON.stringify(joinKeys) !== JSON.stringify(combination?.joinKeys || []);
+
+  const setJoinKey = (step: number, index: number, side: keyof JoinKey, column: string) => {
+    setJoinKeys((prev) =>
+      prev.map((keys, i) =>
+        i === step ? keys.map((key, j) => (j === index ? { ...key, [side]: column } : key)) : keys
+      )
+    );
+  };
+
+  const handleDatasetChange = (id: string) => {
+    setDatasetId(id);
+    // Keep the chosen columns only if the new dataset has them
+    const nextColumns = datasets.find((d) => d.id === id)?.columns || [];
+    if (!nextColumns.includes(groupBy)) setGroupBy(NONE);
+    if (!nextColumns.includes(measure)) setMeasure(NONE);
+  };
+
+  const handleApprove = () => {
+    onConfirm(true, {
+      datasetId,
+      chartType,
+      groupBy: groupBy === NONE ? null : groupBy,
+      measure: measure === NONE ? null : measure,
+      operation: measure === NONE ? 'count' : operation,
+      ...(showJoinKeys && joinKeysChanged ? { joinKeys } : {}),
+    });
+  };
+
+  const field = (label: string, control: ReactNode) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      {control}
+    </div>
+  );
+
+  return (
+    <Card className="mt-3">
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h4 className="text-sm font-semibold">{plan.title}</h4>
+          {plan.description && (
+            <p className="text-xs text-muted-foreground mt-1">{plan.description}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {datasets.length > 1 && (
+            <div className="col-span-2">
+              {field('Dataset', (
+                <Select value={datasetId} onValueChange={handleDatasetChange} disabled={disabled}>
+                  <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {datasets.map((d) => (
+                      <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+          )}
+          {field('Chart', (
+            <Select value={chartType} onValueChange={(v) => setChartType(v as QueryPlan['chartType'])} disabled={disabled}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {CHART_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{type.replace('_', ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+          {field('Group by', (
+            <Select value={groupBy} onValueChange={setGroupBy} disabled={disabled}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No grouping</SelectItem>
+                {columns.map((column) => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+          {field('Measure', (
+            <Select value={measure} onValueChange={setMeasure} disabled={disabled}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Count rows</SelectItem>
+                {columns.map((column) => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+          {field('Aggregation', (
+            <Select
+              value={measure === NONE ? 'count' : operation}
+              onValueChange={(v) => setOperation(v as QueryPlan['operation'])}
+              disabled={disabled || measure === NONE}
+            >
+              <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {OPERATIONS.map((op) => (
+                  <SelectItem key={op} value={op}>{op}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+
+        {showJoinKeys && combination && (
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Join on</Label>
+            {joinKeys.map((keys, step) => {
+              // Earlier datasets are already combined, so any of their columns can be the left key
+              const leftColumns = combination.datasetIds.slice(0, step + 1).flatMap(columnsOf);
+              const rightId = combination.datasetIds[step + 1];
+              const rightName = datasets.find((d) => d.id === rightId)?.name;
+              return keys.map((key, index) => (
+                <div key={`${step}-${index}`} className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+                  <Select value={key.left} onValueChange={(v) => setJoinKey(step, index, 'left', v)} disabled={disabled}>
+                    <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {[...new Set(leftColumns)].map((column) => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-muted-foreground">=</span>
+                  <Select value={key.right} onValueChange={(v) => setJoinKey(step, index, 'right', v)} disabled={disabled}>
+                    <SelectTrigger className="h-8 text-xs" title={rightName}><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {columnsOf(rightId).map((column) => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ));
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onConfirm(false)} disabled={disabled}>
+            <X className="h-3 w-3 mr-1" />
+            Skip chart
+          </Button>
+          <Button size="sm" onClick={handleApprove} disabled={disabled}>
+            <Check className="h-3 w-3 mr-1" />
+            Draw chart
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,12 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import type { InsightCard } from '@/types';
 import type { Visualization } from './ChatContext';
+import type { ChartRenderer } from '@/lib/charts';
 
 interface CanvasContextType {
   pinnedCards: InsightCard[];
-  addPinnedVisualization: (visualization: Visualization, messageId: string) => void;
-  addExplorerVisualization: (visualization: any) => void;
+  addPinnedVisualization: (visualization: Visualization, messageId: string, renderer?: ChartRenderer) => void;
+  addExplorerVisualization: (visualization: any, renderer?: ChartRenderer) => void;
   removePinnedCard: (id: string) => void;
   togglePinCard: (id: string) => void;
   clearPinnedCards: () => void;
@@ -27,7 +28,7 @@ export function CanvasProvider({ children }: { children: React.ReactNode }) {
     localStorage.setItem(CANVAS_STORAGE_KEY, JSON.stringify(pinnedCards));
   }, [pinnedCards]);
 
-  const addPinnedVisualization = useCallback((visualization: Visualization, messageId: string) => {
+  const addPinnedVisualization = useCallback((visualization: Visualization, messageId: string, renderer?: ChartRenderer) => {
     const newCard: InsightCard = {
       id: `${messageId}-${Date.now()}`,
       type: 'chart',
@@ -35,9 +36,13 @@ export function CanvasProvider({ children }: { children: React.ReactNode }) {
       content: {
         chartType: visualization.type,
         data: visualization.data,
+        series: visualization.series,
         description: visualization.description,
         xAxis: visualization.xAxis,
         yAxis: visualization.yAxis,
+        // The card shows the chart the way it was shown when pinned
+        spec: visualization.spec,
+        renderer,
       },
       position: { x: 0, y: 0 },
       size: { width: 400, height: 300 },
@@ -48,7 +53,7 @@ export function CanvasProvider({ children }: { children: React.ReactNode }) {
     setPinnedCards(prev => [...prev, newCard]);
   }, []);
 
-  const addExplorerVisualization = useCallback((visualization: any) => {
+  const addExplorerVisualization = useCallback((visualization: any, renderer?: ChartRenderer) => {
     // Check if already pinned (by title and data)
     const alreadyPinned = pinnedCards.some((card) =>
       card.title === visualization.title &&
@@ -71,9 +76,12 @@ export function CanvasProvider({ children }: { children: React.ReactNode }) {
         content: {
           chartType: visualization.type,
           data: visualization.data,
+          series: visualization.series,
           description: visualization.description,
           xAxis: visualization.xAxis,
           yAxis: visualization.yAxis,
+          spec: visualization.spec,
+          renderer,
         },
         position: { x: 0, y: 0 },
         size: { width: 400, height: 300 },
@@ -4,17 +4,139 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useRef,
 } from "react";
 import { io, Socket } from "socket.io-client";
 import { useAuth } from "./AuthContext";
+import type { VisualizationSpec } from "vega-embed";
+
+export interface QueryFilter {
+  column: string;
+  operator: "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "in" | "contains";
+  value: string | number | Array<string | number>;
+}
+
+export interface QueryPlan {
+  datasetId: string;
+  chartType: string;
+  title: string;
+  description?: string;
+  filters: QueryFilter[];
+  groupBy?: string;
+  timeBucket?: "day" | "week" | "month" | "quarter" | "year";
+  measure?: string;
+  operation: "sum" | "avg" | "count" | "min" | "max";
+  xColumn?: string;
+  seriesBy?: string;
+  extraMeasures?: Array<{ column: string; operation: QueryPlan["operation"]; axis?: "left" | "right" }>;
+  bins?: number;
+  sort?: { by: "name" | "value"; direction: "asc" | "desc" };
+  limit?: number;
+}
+
+export interface ForecastPoint {
+  name: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+// Projection past the last period of a line chart, drawn as a band
+export interface Forecast {
+  model: "holt_winters" | "seasonal_naive" | "linear";
+  horizon: number;
+  timeBucket: NonNullable<QueryPlan["timeBucket"]>;
+  interval: number;
+  points: ForecastPoint[];
+  holdoutMAE: number;
+}
+
+export type ChartType =
+  | "line" | "area" | "bar" | "stacked_bar" | "grouped_bar"
+  | "pie" | "scatter" | "histogram" | "heatmap" | "boxplot";
+
+// A row of computed chart data; the optional fields are set by the chart types noted.
+// Multi-series charts have a value under the key of each series instead of `value`.
+export type ChartDatum = {
+  name: string;
+  value?: number;
+  series?: string; // stacked_bar, grouped_bar, heatmap
+  start?: number; // histogram bin edges
+  end?: number;
+  min?: number; // boxplot five-number summary (value is the median)
+  q1?: number;
+  median?: number;
+  q3?: number;
+  max?: number;
+  count?: number;
+  [seriesKey: string]: string | number | undefined;
+};
+
+// A named series of a multi-series chart, drawn from data[i][key]
+export interface ChartSeries {
+  key: string;
+  name: string;
+  color: string;
+  axis: "left" | "right";
+}
 
 export interface Visualization {
-  type: "line" | "bar" | "pie" | "scatter";
+  type: ChartType;
   title: string;
+  // What the chart adds to an overview answer
+  role?: "trend" | "breakdown" | "distribution" | "comparison" | "relationship";
   xAxis?: string;
   yAxis?: string;
-  data: Array<{ name: string; value: number }>;
+  data: ChartDatum[];
+  series?: ChartSeries[];
   description?: string;
+  filters?: QueryFilter[];
+  queryPlan?: QueryPlan;
+  rowsScanned?: number;
+  rowsMatched?: number;
+  forecast?: Forecast;
+  // Vega-Lite spec bound to the data, for charts the Recharts renderers cannot draw
+  spec?: VisualizationSpec;
+  // Other recommended ways to draw the same question, offered as "try as" options
+  alternatives?: Visualization[];
+}
+
+export interface JoinKey {
+  left: string;
+  right: string;
+}
+
+// How the proposal's combined dataset was built from several uploads
+export interface DatasetCombination {
+  type: "join" | "union";
+  datasetIds: string[];
+  // joinKeys[i] joins datasetIds[i + 1] onto the rows combined so far
+  joinKeys?: JoinKey[][];
+  joinType?: "inner" | "left" | "full";
+  grain?: "row" | "key";
+  keySource?: "inferred" | "user";
+}
+
+export interface VisualizationProposal {
+  plan: QueryPlan;
+  datasets: Array<{ id: string; name: string; columns: string[] }>;
+  combination?: DatasetCombination;
+}
+
+export interface VisualizationEdits {
+  datasetId?: string;
+  chartType?: QueryPlan["chartType"];
+  groupBy?: string | null;
+  measure?: string | null;
+  operation?: QueryPlan["operation"];
+  joinKeys?: JoinKey[][];
+}
+
+// A run paused before the visualizer, waiting for the user to approve the chart
+export interface PendingConfirmation {
+  runId: string;
+  sessionId: string;
+  proposal: VisualizationProposal;
 }
 
 export interface TableauView {
@@ -30,12 +152,75 @@ export interface TableauView {
   fullEmbedUrl?: string;
 }
 
+// Identifies the workflow run that produced an assistant message
+export interface RunRef {
+  runId: string;
+  sessionId: string;
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+export interface TraceLLMCall {
+  model: string;
+  startedAt: string;
+  durationMs?: number;
+  prompt: Array<{ role: string; content: string }>;
+  response?: string;
+  toolCalls?: Array<{ name: string; args: unknown }>;
+  tokens?: TokenUsage;
+  error?: string;
+}
+
+export interface TraceNode {
+  node: string;
+  step: number | null;
+  status: "running" | "completed" | "failed" | "interrupted";
+  startedAt: string;
+  durationMs?: number;
+  llmCalls: TraceLLMCall[];
+  stateDiff: Record<string, { before: unknown; after: unknown }>;
+  error?: string;
+}
+
+// Structured trace of one workflow run (GET /api/chat/runs/:runId/trace)
+export interface RunTrace {
+  runId: string;
+  sessionId: string;
+  userQuery: string;
+  status: "running" | "completed" | "failed" | "cancelled" | "interrupted";
+  startedAt: string;
+  durationMs?: number;
+  nodes: TraceNode[];
+  tokens: TokenUsage;
+  error?: string;
+}
+
 export interface ChatMessage {
+  id?: string;
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
   visualization?: Visualization;
+  // Every chart of the answer, most informative first; overview answers have several
+  visualizations?: Visualization[];
   tableauViews?: TableauView[];
+  // Steps that were skipped or degraded while answering
+  warnings?: string[];
+  // Figures quoted in the answer, checked against the computed data
+  claims?: NumericClaim[];
+  // Sources behind the answer, referenced in its text as [n]
+  citations?: Citation[];
+  // Follow-up questions offered with the answer
+  suggestions?: string[];
+  // SQL written for the question, editable and re-runnable
+  sqlQuery?: SqlQuery;
+  isStreaming?: boolean;
+  confirmation?: PendingConfirmation;
+  run?: RunRef;
   metadata?: {
     intent?: string;
     datasetsUsed?: string[];
@@ -43,11 +228,53 @@ export interface ChatMessage {
   };
 }
 
+// A figure quoted in an answer; corrected figures keep what was originally written
+export interface NumericClaim {
+  text: string;
+  value: number;
+  status: "verified" | "corrected" | "unverified";
+  source?: string;
+  original?: string;
+}
+
+// A source of the answer: a dataset with the columns and filters used, a Tableau view or a web page
+export interface Citation {
+  id: number;
+  kind: "dataset" | "tableau" | "web";
+  label: string;
+  datasetId?: string;
+  columns?: string[];
+  filters?: QueryFilter[];
+  viewId?: string;
+  url?: string;
+}
+
+// Generated SQL and its result; error is set when the query could not run
+export interface SqlQuery {
+  sql: string;
+  columns: string[];
+  rows: Array<Record<string, string | number | null>>;
+  rowCount: number;
+  truncated: boolean;
+  error?: string;
+}
+
+// The computed statistic an insight rests on
+export interface InsightStatistic {
+  test: "pearson_correlation" | "linear_trend" | "outlier_zscore" | "skewness";
+  columns: string[];
+  value: number;
+  pValue?: number;
+  sampleSize: number;
+  label: string;
+}
+
 export interface Insight {
-  type: "trend" | "anomaly" | "summary" | "recommendation";
+  type: "trend" | "anomaly" | "correlation" | "summary" | "recommendation";
   title: string;
   content: string;
   confidence: number;
+  statistic: InsightStatistic;
 }
 
 export interface Dataset {
@@ -56,6 +283,35 @@ export interface Dataset {
   type: string;
 }
 
+export interface ChatToken {
+  messageId: string;
+  token: string;
+  agent: string;
+}
+
+// Response of the message, retry and confirm endpoints
+interface ChatResponse {
+  runId: string;
+  messageId?: string;
+  sessionId?: string;
+  message: string;
+  cancelled?: boolean;
+  awaitingConfirmation?: boolean;
+  proposal?: VisualizationProposal;
+  intent?: string;
+  datasets?: Dataset[];
+  insights?: Insight[];
+  visualization?: Visualization;
+  visualizations?: Visualization[];
+  tableauViews?: TableauView[];
+  warnings?: string[];
+  claims?: NumericClaim[];
+  citations?: Citation[];
+  suggestions?: string[];
+  sqlQuery?: SqlQuery | null;
+  scope?: ChatScope | null;
+}
+
 export interface AgentProgress {
   agent: string | null;
   hasDatasets: boolean;
@@ -63,6 +319,19 @@ export interface AgentProgress {
   hasVisualization: boolean;
 }
 
+// Datasets and Tableau views a chat is limited to; nothing pinned means every dataset is searched
+export interface ChatScope {
+  datasetIds: string[];
+  tableauViews: Array<{ id: string; name: string; workbookName?: string }>;
+}
+
+export interface PinnableDataset {
+  id: string;
+  name: string;
+  type: string;
+  rowCount?: number;
+}
+
 export interface ChatSession {
   sessionId: string;
   messageCount: number;
@@ -80,9 +349,22 @@ interface ChatContextType {
   isLoading: boolean;
   error: string | null;
   agentProgress: AgentProgress | null;
+  confirmBeforeVisualization: boolean;
+  scope: ChatScope | null;
+  pinnableDatasets: PinnableDataset[];
 
   // Actions
   sendMessage: (message: string) => Promise<void>;
+  cancelMessage: () => Promise<void>;
+  confirmVisualization: (
+    messageId: string,
+    approved: boolean,
+    edits?: VisualizationEdits
+  ) => Promise<void>;
+  setConfirmBeforeVisualization: (value: boolean) => void;
+  loadScope: () => Promise<void>;
+  updateScope: (scope: ChatScope) => Promise<void>;
+  getRunTrace: (run: RunRef) => Promise<RunTrace>;
   loadSession: (sessionId: string) => Promise<void>;
   loadSessions: () => Promise<void>;
   createNewSession: () => void;
@@ -104,6 +386,13 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
   const [agentProgress, setAgentProgress] = useState<AgentProgress | null>(
     null
   );
+  const [scope, setScope] = useState<ChatScope | null>(null);
+  const [pinnableDatasets, setPinnableDatasets] = useState<PinnableDataset[]>([]);
+  // Pause before drawing charts so the user can approve the dataset and columns
+  const [confirmBeforeVisualization, setConfirmBeforeVisualization] =
+    useState(false);
+  // Run id of the in-flight request, used by the Stop button
+  const activeRunRef = useRef<string | null>(null);
 
   // Initialize Socket.IO connection
   useEffect(() => {
@@ -136,6 +425,40 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         setAgentProgress(progress);
       });
 
+      newSocket.on("chat:token", ({ messageId, token }: ChatToken) => {
+        // Append streamed tokens to the in-progress assistant message
+        setMessages((prev) => {
+          const index = prev.findIndex((m) => m.id === messageId);
+          if (index === -1) {
+            return [
+              ...prev,
+              {
+                id: messageId,
+                role: "assistant",
+                content: token,
+                timestamp: new Date(),
+                isStreaming: true,
+              },
+            ];
+          }
+          // Ignore late tokens once the final message has arrived
+          if (!prev[index].isStreaming) return prev;
+          const updated = [...prev];
+          updated[index] = {
+            ...prev[index],
+            content: prev[index].content + token,
+          };
+          return updated;
+        });
+      });
+
+      newSocket.on("chat:reset", ({ messageId }: Omit<ChatToken, "token">) => {
+        // The answer is being generated again (the step was retried); its tokens follow
+        setMessages((prev) =>
+          prev.map((m) => (m.id === messageId && m.isStreaming ? { ...m, content: "" } : m))
+        );
+      });
+
       newSocket.on("chat:complete", (response: any) => {
         console.log("✅ Chat complete via WebSocket:", response);
         setAgentProgress(null);
@@ -168,6 +491,108 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     }
   }, [isAuthenticated]);
 
+  // Turn a chat response into the assistant message with this id
+  const applyChatResult = useCallback(
+    (result: ChatResponse, messageId: string) => {
+      // Update session ID if new
+      if (result.sessionId && !currentSession) {
+        setCurrentSession(result.sessionId);
+      }
+
+      // Show the pins the server actually used, in case they changed or were lost
+      if (result.scope !== undefined) {
+        setScope(result.scope);
+      }
+
+      // Paused before the chart is drawn - show the confirmation card
+      if (result.awaitingConfirmation && result.proposal) {
+        const confirmation: PendingConfirmation = {
+          runId: result.runId,
+          sessionId: result.sessionId || currentSession || "",
+          proposal: result.proposal,
+        };
+        setMessages((prev) => {
+          const pending: ChatMessage = {
+            id: messageId,
+            role: "assistant",
+            content: result.message,
+            timestamp: new Date(),
+            confirmation,
+          };
+          const index = prev.findIndex((m) => m.id === messageId);
+          if (index === -1) return [...prev, pending];
+          const updated = [...prev];
+          updated[index] = pending;
+          return updated;
+        });
+        return;
+      }
+
+      // Add assistant message
+      if (result.cancelled) {
+        // Keep whatever was streamed before the Stop, otherwise show the notice
+        setMessages((prev) => {
+          const index = prev.findIndex((m) => m.id === messageId);
+          if (index === -1) {
+            return [
+              ...prev,
+              {
+                id: messageId,
+                role: "assistant",
+                content: result.message,
+                timestamp: new Date(),
+              },
+            ];
+          }
+          const updated = [...prev];
+          updated[index] = {
+            ...prev[index],
+            content: `${prev[index].content}\n\n_${result.message}_`,
+            isStreaming: false,
+          };
+          return updated;
+        });
+        return;
+      }
+
+      const assistantMessage: ChatMessage = {
+        id: result.messageId || messageId,
+        role: "assistant" as const,
+        content: result.message,
+        timestamp: new Date(),
+        run: {
+          runId: result.runId,
+          sessionId: result.sessionId || currentSession || "",
+        },
+        visualization: result.visualization, // Add visualization from backend
+        visualizations: result.visualizations,
+        tableauViews: result.tableauViews, // Add Tableau views from backend
+        warnings: result.warnings,
+        claims: result.claims,
+        citations: result.citations,
+        suggestions: result.suggestions,
+        sqlQuery: result.sqlQuery || undefined,
+        metadata: {
+          intent: result.intent,
+          datasetsUsed: result.datasets?.map((d: Dataset) => d.id),
+          insights: result.insights,
+        },
+      };
+
+      console.log("📊 Creating assistant message:", assistantMessage);
+
+      // Replace the streamed message (if any) with the final one
+      setMessages((prev) => {
+        const index = prev.findIndex((m) => m.id === assistantMessage.id);
+        if (index === -1) return [...prev, assistantMessage];
+        const updated = [...prev];
+        updated[index] = assistantMessage;
+        return updated;
+      });
+    },
+    [currentSession]
+  );
+
   const sendMessage = useCallback(
     async (message: string) => {
       // Socket is optional - we use REST API for messages
@@ -186,6 +611,11 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         };
         setMessages((prev) => [...prev, userMessage]);
 
+        // Streamed tokens and the final response are tied to this id
+        const messageId = crypto.randomUUID();
+        const runId = crypto.randomUUID();
+        activeRunRef.current = runId;
+
         // Send to backend via REST API (more reliable than WebSocket for complex workflows)
         const response = await fetch(`${BACKEND_URL}/api/chat/message`, {
           method: "POST",
@@ -196,6 +626,9 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
           body: JSON.stringify({
             message,
             sessionId: currentSession,
+            messageId,
+            runId,
+            requireConfirmation: confirmBeforeVisualization,
             socketId: socket?.id, // Pass socket ID for progress updates (optional)
           }),
         });
@@ -210,41 +643,179 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         console.log("📊 Received response from backend:", result);
         console.log("📊 Visualization data:", result.visualization);
 
-        // Update session ID if new
-        if (result.sessionId && !currentSession) {
-          setCurrentSession(result.sessionId);
-        }
+        applyChatResult(result, messageId);
+      } catch (err: any) {
+        console.error("Failed to send message:", err);
+        setError(err.message || "Failed to send message");
+      } finally {
+        activeRunRef.current = null;
+        setIsLoading(false);
+        setAgentProgress(null);
+      }
+    },
+    [isAuthenticated, socket, currentSession, confirmBeforeVisualization, applyChatResult]
+  );
 
-        // Add assistant message
-        const assistantMessage = {
-          role: "assistant" as const,
-          content: result.message,
-          timestamp: new Date(),
-          visualization: result.visualization, // Add visualization from backend
-          tableauViews: result.tableauViews, // Add Tableau views from backend
-          metadata: {
-            intent: result.intent,
-            datasetsUsed: result.datasets?.map((d: Dataset) => d.id),
-            insights: result.insights,
-          },
-        };
+  const confirmVisualization = useCallback(
+    async (messageId: string, approved: boolean, edits?: VisualizationEdits) => {
+      const pending = messages.find((m) => m.id === messageId)?.confirmation;
+      if (!pending) return;
+      const { joinKeys, ...plan } = edits || {};
+
+      try {
+        setIsLoading(true);
+        setError(null);
+        setAgentProgress(null);
+        activeRunRef.current = pending.runId;
+
+        // Swap the card for a streaming placeholder while the run resumes
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === messageId
+              ? { ...m, content: "", confirmation: undefined, isStreaming: true }
+              : m
+          )
+        );
 
-        console.log("📊 Creating assistant message:", assistantMessage);
+        const response = await fetch(
+          `${BACKEND_URL}/api/chat/runs/${pending.runId}/confirm`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            credentials: "include",
+            body: JSON.stringify({
+              sessionId: pending.sessionId,
+              approved,
+              plan: edits ? plan : undefined,
+              joinKeys,
+              messageId,
+              socketId: socket?.id,
+            }),
+          }
+        );
 
-        setMessages((prev) => [...prev, assistantMessage]);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Failed to confirm visualization");
+        }
 
-        setIsLoading(false);
-        setAgentProgress(null);
-      } catch (err: any) {
-        console.error("Failed to send message:", err);
-        setError(err.message || "Failed to send message");
+        applyChatResult(await response.json(), messageId);
+      } catch (err) {
+        console.error("Failed to confirm visualization:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to confirm visualization"
+        );
+      } finally {
+        activeRunRef.current = null;
         setIsLoading(false);
         setAgentProgress(null);
       }
     },
-    [isAuthenticated, socket, currentSession]
+    [messages, socket, applyChatResult]
   );
 
+  // Pins belong to a session, so a new chat gets its id from the server before the first message
+  const ensureSession = useCallback(async () => {
+    if (currentSession) return currentSession;
+    const response = await fetch(`${BACKEND_URL}/api/chat/sessions`, {
+      method: "POST",
+      credentials: "include",
+    });
+    if (!response.ok) {
+      throw new Error("Failed to start a chat session");
+    }
+    const data: { sessionId: string } = await response.json();
+    setCurrentSession(data.sessionId);
+    return data.sessionId;
+  }, [currentSession]);
+
+  const loadScope = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `${BACKEND_URL}/api/chat/sessions/${encodeURIComponent(await ensureSession())}/scope`,
+        { credentials: "include" }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to load pinned datasets");
+      }
+      const data = await response.json();
+      setScope(data.scope);
+      setPinnableDatasets(data.datasets || []);
+    } catch (err) {
+      console.error("Failed to load pinned datasets:", err);
+    }
+  }, [ensureSession]);
+
+  // Pins are kept per session on the server; reload them whenever the chat switches session
+  useEffect(() => {
+    if (currentSession) loadScope();
+  }, [currentSession, loadScope]);
+
+  const updateScope = useCallback(
+    async (next: ChatScope) => {
+      try {
+        const response = await fetch(
+          `${BACKEND_URL}/api/chat/sessions/${encodeURIComponent(await ensureSession())}/scope`,
+          {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify(next),
+          }
+        );
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Failed to pin datasets");
+        }
+        const data = await response.json();
+        setScope(data.scope);
+      } catch (err) {
+        console.error("Failed to pin datasets:", err);
+        setError(err instanceof Error ? err.message : "Failed to pin datasets");
+      }
+    },
+    [ensureSession]
+  );
+
+  const getRunTrace = useCallback(async ({ runId, sessionId }: RunRef) => {
+    const response = await fetch(
+      `${BACKEND_URL}/api/chat/runs/${runId}/trace?sessionId=${encodeURIComponent(sessionId)}`,
+      {
+        credentials: "include",
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to load run trace");
+    }
+
+    const data: { trace: RunTrace } = await response.json();
+    return data.trace;
+  }, []);
+
+  const cancelMessage = useCallback(async () => {
+    const runId = activeRunRef.current;
+    if (!runId) return;
+
+    try {
+      // Prefer the socket; fall back to REST for clients without one
+      if (socket?.connected) {
+        socket.emit("chat:cancel", { runId });
+      } else {
+        await fetch(`${BACKEND_URL}/api/chat/message/${runId}`, {
+          method: "DELETE",
+          credentials: "include",
+        });
+      }
+    } catch (err) {
+      console.error("Failed to cancel message:", err);
+      setError(err instanceof Error ? err.message : "Failed to cancel message");
+    }
+  }, [socket]);
+
   const loadSession = useCallback(
     async (sessionId: string) => {
       if (!isAuthenticated) return;
@@ -305,6 +876,7 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
   const createNewSession = useCallback(() => {
     setMessages([]);
     setCurrentSession(null);
+    setScope(null);
     setError(null);
     setAgentProgress(null);
   }, []);
@@ -320,7 +892,16 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     isLoading,
     error,
     agentProgress,
+    confirmBeforeVisualization,
+    scope,
+    pinnableDatasets,
     sendMessage,
+    cancelMessage,
+    confirmVisualization,
+    setConfirmBeforeVisualization,
+    loadScope,
+    updateScope,
+    getRunTrace,
     loadSession,
     loadSessions,
     createNewSession,
@@ -69,6 +69,13 @@ export const explorerApi = {
     ),
 };
 
+// SQL query endpoints
+export const queryApi = {
+  getSchema: () => api.get("/api/query/schema"),
+  runSql: (sql: string, maxRows?: number) =>
+    api.post("/api/query/sql", { sql, maxRows }),
+};
+
 // Workflow endpoints
 export const workflowApi = {
   getWorkflows: () => api.get("/api/workflows"),
@@ -0,0 +1,10 @@
+// Chart types the Recharts renderers draw; other charts (heatmaps, box plots) are shown from their Vega-Lite spec
+export const RECHARTS_TYPES = ["line", "area", "bar", "stacked_bar", "grouped_bar", "histogram", "pie", "scatter"];
+
+export type ChartRenderer = "recharts" | "vega";
+
+// Which renderer shows a chart: Vega-Lite when asked for or when Recharts cannot draw it
+export function chartRenderer(type: string, hasSpec: boolean, preferred?: ChartRenderer): ChartRenderer {
+  if (!hasSpec) return "recharts";
+  return preferred === "vega" || !RECHARTS_TYPES.includes(type) ? "vega" : "recharts";
+}